@@ -15,7 +15,16 @@ const App = () => (
       <Sonner />
       <BrowserRouter>
         <Routes>
-          <Route path="/" element={<Index />} />
+          <Route path="/" element={<Index view="home" />} />
+          <Route path="/types/new" element={<Index view="create-type" />} />
+          <Route path="/types/:typeId/edit" element={<Index view="edit-type" />} />
+          <Route path="/types/:typeId/items/new" element={<Index view="create-item" />} />
+          <Route path="/items" element={<Index view="view-items" />} />
+          <Route path="/items/import" element={<Index view="import-items" />} />
+          <Route path="/items/:itemId/edit" element={<Index view="edit-item" />} />
+          <Route path="/projects" element={<Index view="view-projects" />} />
+          <Route path="/projects/new" element={<Index view="create-project" />} />
+          <Route path="/projects/:projectId" element={<Index view="view-project" />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -0,0 +1,144 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { FileText } from 'lucide-react';
+import {
+  DATE_FORMATS,
+  DEFAULT_CSV_OPTIONS,
+  DELIMITERS,
+  QUOTES,
+  type CsvDelimiter,
+  type CsvOptions,
+  type CsvQuote,
+} from '@/lib/csv';
+
+interface CsvExportDialogProps {
+  label: string;
+  disabled?: boolean;
+  typeCount: number; // how many item types, and so files, the export produces
+  onExport: (options: CsvOptions) => void;
+}
+
+export default function CsvExportDialog({ label, disabled, typeCount, onExport }: CsvExportDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [options, setOptions] = useState<CsvOptions>(DEFAULT_CSV_OPTIONS);
+  const sampleDate = new Date(2026, 0, 31);
+
+  const handleExport = () => {
+    onExport(options);
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          disabled={disabled}
+          className="transition-all duration-200 hover:shadow-card"
+        >
+          <FileText className="w-4 h-4 mr-2" />
+          {label}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export as CSV</DialogTitle>
+          <DialogDescription>
+            {typeCount > 1
+              ? `${typeCount} item types will be saved as separate files in one zip archive.`
+              : 'Items will be saved as a single delimited text file.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Delimiter</Label>
+              <Select
+                value={options.delimiter}
+                onValueChange={(value) => setOptions({ ...options, delimiter: value as CsvDelimiter })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DELIMITERS.map(delimiter => (
+                    <SelectItem key={delimiter.value} value={delimiter.value}>{delimiter.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Quote Character</Label>
+              <Select
+                value={options.quote}
+                onValueChange={(value) => setOptions({ ...options, quote: value as CsvQuote })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {QUOTES.map(quote => (
+                    <SelectItem key={quote.value} value={quote.value}>{quote.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Date Format</Label>
+            <Select
+              value={options.dateFormat}
+              onValueChange={(value) => setOptions({ ...options, dateFormat: value })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DATE_FORMATS.map(dateFormat => (
+                  <SelectItem key={dateFormat} value={dateFormat}>
+                    {format(sampleDate, dateFormat)} ({dateFormat})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="includeBom"
+              checked={options.includeBom}
+              onCheckedChange={(checked) => setOptions({ ...options, includeBom: !!checked })}
+            />
+            <Label htmlFor="includeBom" className="font-normal">
+              Add a UTF-8 byte order mark so Excel shows accented characters correctly
+            </Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} className="bg-gradient-primary hover:shadow-glow transition-all duration-300">
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,377 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { ArrowDown, ArrowUp, Download, FileCode, Pencil, Plus } from 'lucide-react';
+import {
+  COLUMN_FORMATS,
+  columnFormats,
+  columnName,
+  defaultColumns,
+  deleteExportTemplate,
+  saveExportTemplate
+} from '@/lib/exportTemplates';
+import { EXPORT_FORMATS, downloadXmlSchema, type ExportFormat } from '@/lib/dataExport';
+import type { WorkbookExportOptions } from '@/lib/itemExport';
+import type { ExportColumn, ExportTemplate, ItemType } from '@/types/ItemType';
+
+export interface ExportRequest extends Omit<WorkbookExportOptions, 'project' | 'onProgress'> {
+  format: ExportFormat;
+}
+
+interface ExportDialogProps {
+  label: string;
+  disabled?: boolean;
+  itemTypes: ItemType[]; // the types of the items being exported
+  onExport: (request: ExportRequest) => void;
+  onUpdateItemType: (itemType: ItemType) => void;
+}
+
+const ALL_FIELDS = 'all';
+
+export default function ExportDialog({ label, disabled, itemTypes, onExport, onUpdateItemType }: ExportDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>('xlsx');
+  const [formulas, setFormulas] = useState(false);
+  const [dropdowns, setDropdowns] = useState(false);
+  const [templates, setTemplates] = useState<Record<string, string>>({});
+  const [editing, setEditing] = useState<{ itemType: ItemType; template: ExportTemplate } | null>(null);
+  const hasFormulaFields = itemTypes.some(type => type.fields.some(field => field.type === 'formula'));
+  const hasSelectFields = itemTypes.some(type => type.fields.some(field => field.type === 'select'));
+
+  const handleOpenChange = (value: boolean) => {
+    setOpen(value);
+    if (!value) setEditing(null);
+  };
+
+  const handleExport = () => {
+    onExport({ format, formulas, dropdowns, templates });
+    setOpen(false);
+  };
+
+  const startNewTemplate = (itemType: ItemType) => {
+    setEditing({
+      itemType,
+      template: { id: `template_${Date.now()}`, name: '', columns: defaultColumns(itemType) },
+    });
+  };
+
+  const handleSaveTemplate = (template: ExportTemplate) => {
+    onUpdateItemType(saveExportTemplate(editing.itemType, template));
+    setTemplates({ ...templates, [editing.itemType.id]: template.id });
+    setEditing(null);
+  };
+
+  const handleDeleteTemplate = (template: ExportTemplate) => {
+    if (!confirm(`Delete the export template "${template.name}"?`)) return;
+    onUpdateItemType(deleteExportTemplate(editing.itemType, template.id));
+    setTemplates({ ...templates, [editing.itemType.id]: ALL_FIELDS });
+    setEditing(null);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          disabled={disabled}
+          className="transition-all duration-200 hover:shadow-card"
+        >
+          <Download className="w-4 h-4 mr-2" />
+          {label}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        {editing ? (
+          <TemplateEditor
+            key={editing.template.id}
+            itemType={editing.itemType}
+            template={editing.template}
+            isNew={!editing.itemType.exportTemplates?.some(template => template.id === editing.template.id)}
+            onSave={handleSaveTemplate}
+            onDelete={handleDeleteTemplate}
+            onCancel={() => setEditing(null)}
+          />
+        ) : (
+          <>
+            <DialogHeader>
+              <DialogTitle>Export Items</DialogTitle>
+              <DialogDescription>
+                Items are grouped by type. Pick a template to choose which columns each type exports.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4">
+              <div className="flex items-end gap-2">
+                <div className="flex-1 space-y-2">
+                  <Label>Format</Label>
+                  <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {EXPORT_FORMATS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {format === 'xml' && (
+                  <Button variant="outline" onClick={downloadXmlSchema}>
+                    <FileCode className="w-4 h-4 mr-2" />
+                    XML Schema
+                  </Button>
+                )}
+              </div>
+
+              {itemTypes.map(itemType => {
+                const templateId = templates[itemType.id] ?? ALL_FIELDS;
+                const selected = itemType.exportTemplates?.find(template => template.id === templateId);
+                return (
+                  <div key={itemType.id} className="flex items-end gap-2">
+                    <div className="flex-1 space-y-2">
+                      <Label>{itemType.name}</Label>
+                      <Select
+                        value={selected ? templateId : ALL_FIELDS}
+                        onValueChange={(value) => setTemplates({ ...templates, [itemType.id]: value })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={ALL_FIELDS}>All fields</SelectItem>
+                          {(itemType.exportTemplates ?? []).map(template => (
+                            <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      title="Edit template"
+                      disabled={!selected}
+                      onClick={() => setEditing({ itemType, template: selected })}
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      title="New template"
+                      onClick={() => startNewTemplate(itemType)}
+                    >
+                      <Plus className="w-4 h-4" />
+                    </Button>
+                  </div>
+                );
+              })}
+
+              {format === 'xlsx' && hasFormulaFields && (
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="exportFormulas"
+                    checked={formulas}
+                    onCheckedChange={(checked) => setFormulas(!!checked)}
+                  />
+                  <Label htmlFor="exportFormulas" className="font-normal">
+                    Write formula fields as Excel formulas
+                  </Label>
+                </div>
+              )}
+              {format === 'xlsx' && hasSelectFields && (
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="exportDropdowns"
+                    checked={dropdowns}
+                    onCheckedChange={(checked) => setDropdowns(!!checked)}
+                  />
+                  <Label htmlFor="exportDropdowns" className="font-normal">
+                    Restrict choice fields to their options with dropdowns
+                  </Label>
+                </div>
+              )}
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleExport} className="bg-gradient-primary hover:shadow-glow transition-all duration-300">
+                Export
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface TemplateEditorProps {
+  itemType: ItemType;
+  template: ExportTemplate;
+  isNew: boolean;
+  onSave: (template: ExportTemplate) => void;
+  onDelete: (template: ExportTemplate) => void;
+  onCancel: () => void;
+}
+
+interface EditorColumn extends ExportColumn {
+  include: boolean;
+}
+
+function TemplateEditor({ itemType, template, isNew, onSave, onDelete, onCancel }: TemplateEditorProps) {
+  const [name, setName] = useState(template.name);
+  // Columns the template leaves out are listed after its own, ready to be switched on
+  const [columns, setColumns] = useState<EditorColumn[]>(() => [
+    ...template.columns
+      .filter(column => columnName(itemType, column.key) !== undefined)
+      .map(column => ({ ...column, include: true })),
+    ...defaultColumns(itemType)
+      .filter(column => !template.columns.some(other => other.key === column.key))
+      .map(column => ({ ...column, include: false })),
+  ]);
+  const nameTaken = (itemType.exportTemplates ?? []).some(
+    other => other.id !== template.id && other.name.toLowerCase() === name.trim().toLowerCase()
+  );
+  const canSave = name.trim() !== '' && !nameTaken && columns.some(column => column.include);
+
+  const updateColumn = (index: number, updates: Partial<EditorColumn>) => {
+    setColumns(columns.map((column, i) => (i === index ? { ...column, ...updates } : column)));
+  };
+
+  const moveColumn = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= columns.length) return;
+    const reordered = [...columns];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setColumns(reordered);
+  };
+
+  const handleSave = () => {
+    onSave({
+      ...template,
+      name: name.trim(),
+      columns: columns
+        .filter(column => column.include)
+        .map(({ key, header, format: columnFormat }) => ({ key, header: header.trim(), format: columnFormat })),
+    });
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>{isNew ? 'New' : 'Edit'} {itemType.name} Export Template</DialogTitle>
+        <DialogDescription>
+          Choose the columns to export, their order and headers, and how values are written.
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="templateName">Template Name</Label>
+          <Input
+            id="templateName"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g., Supplier order sheet"
+          />
+          {nameTaken && (
+            <p className="text-sm text-destructive">Another template for {itemType.name} already has this name.</p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          {columns.map((column, index) => {
+            const fieldName = columnName(itemType, column.key);
+            return (
+              <div key={column.key} className="flex items-center gap-2">
+                <Checkbox
+                  checked={column.include}
+                  onCheckedChange={(checked) => updateColumn(index, { include: !!checked })}
+                  aria-label={`Include ${fieldName}`}
+                />
+                <span className="w-32 truncate text-sm" title={fieldName}>{fieldName}</span>
+                <Input
+                  value={column.header}
+                  onChange={(e) => updateColumn(index, { header: e.target.value })}
+                  placeholder={fieldName}
+                  disabled={!column.include}
+                  className="flex-1"
+                />
+                <Select
+                  value={column.format}
+                  onValueChange={(value) => updateColumn(index, { format: value as ExportColumn['format'] })}
+                  disabled={!column.include}
+                >
+                  <SelectTrigger className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {columnFormats(itemType, column.key).map(option => (
+                      <SelectItem key={option} value={option}>
+                        {COLUMN_FORMATS.find(columnFormat => columnFormat.value === option)?.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title="Move up"
+                  disabled={index === 0}
+                  onClick={() => moveColumn(index, -1)}
+                >
+                  <ArrowUp className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title="Move down"
+                  disabled={index === columns.length - 1}
+                  onClick={() => moveColumn(index, 1)}
+                >
+                  <ArrowDown className="w-4 h-4" />
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <DialogFooter className="gap-2">
+        {!isNew && (
+          <Button
+            variant="outline"
+            onClick={() => onDelete(template)}
+            className="text-destructive hover:text-destructive hover:bg-destructive/10 sm:mr-auto"
+          >
+            Delete Template
+          </Button>
+        )}
+        <Button variant="outline" onClick={onCancel}>
+          Back
+        </Button>
+        <Button
+          onClick={handleSave}
+          disabled={!canSave}
+          className="bg-gradient-primary hover:shadow-glow transition-all duration-300"
+        >
+          Save Template
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
@@ -0,0 +1,42 @@
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { ExportProgress } from '@/hooks/useExportJob';
+
+interface ExportProgressDialogProps {
+  progress: ExportProgress | null; // null when no export is running
+  onCancel: () => void;
+}
+
+export default function ExportProgressDialog({ progress, onCancel }: ExportProgressDialogProps) {
+  const percent = progress && progress.total > 0 ? Math.round((progress.completed / progress.total) * 100) : 0;
+  const writing = progress && progress.completed >= progress.total;
+
+  return (
+    <Dialog open={!!progress} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Exporting</DialogTitle>
+          <DialogDescription>
+            {writing
+              ? 'Writing the file…'
+              : `${progress?.completed.toLocaleString() ?? 0} of ${progress?.total.toLocaleString() ?? 0} items processed`}
+          </DialogDescription>
+        </DialogHeader>
+        <Progress value={writing ? 100 : percent} />
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,61 @@
+import { formatFieldValue, getItemLabel, getReferencedItems, isValidEmail, isValidUrl, type ItemLookup } from '@/lib/fieldTypes';
+import type { FieldDefinition } from '@/types/ItemType';
+
+interface FieldValueProps {
+  value: unknown;
+  field: FieldDefinition;
+  lookup?: ItemLookup; // resolves reference fields to item labels
+  onOpenItem?: (itemId: string) => void;
+  className?: string;
+}
+
+export default function FieldValue({ value, field, lookup, onOpenItem, className }: FieldValueProps) {
+  if (field.type === 'reference' && lookup) {
+    const referencedItems = getReferencedItems(value, lookup);
+
+    return (
+      <span className={className}>
+        {referencedItems.map((item, index) => {
+          const label = getItemLabel(item, lookup.itemTypes, field.reference?.displayFieldId);
+          return (
+            <span key={item.id}>
+              {index > 0 && ', '}
+              {onOpenItem ? (
+                <button
+                  type="button"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onOpenItem(item.id);
+                  }}
+                  className="text-primary underline-offset-4 hover:underline"
+                >
+                  {label}
+                </button>
+              ) : label}
+            </span>
+          );
+        })}
+      </span>
+    );
+  }
+
+  const text = formatFieldValue(value, field, lookup);
+  // Imported values skip form validation, so only well-formed http(s) and email values become links
+  const isLink = (field.type === 'url' && isValidUrl(text)) || (field.type === 'email' && isValidEmail(text));
+
+  if (isLink) {
+    return (
+      <a
+        href={field.type === 'email' ? `mailto:${text}` : text}
+        target={field.type === 'url' ? '_blank' : undefined}
+        rel="noreferrer"
+        onClick={(e) => e.stopPropagation()}
+        className={`text-primary underline-offset-4 hover:underline ${className ?? ''}`}
+      >
+        {text}
+      </a>
+    );
+  }
+
+  return <span className={className}>{text}</span>;
+}
@@ -4,18 +4,53 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Save, ArrowLeft } from 'lucide-react';
-import type { ItemType, ItemInstance } from '@/types/ItemType';
+import { Textarea } from '@/components/ui/textarea';
+import ItemReferencePicker from '@/components/ItemReferencePicker';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Save, ArrowLeft, Star, Plus } from 'lucide-react';
+import { DEFAULT_CURRENCY, RATING_MAX, formatFieldValue, toArray } from '@/lib/fieldTypes';
+import { computeFormulaValues } from '@/lib/formula';
+import { validateItemData } from '@/lib/itemValidation';
+import { findLastItemOfType, formatAutoNumber, resolveDefaultValues } from '@/lib/fieldDefaults';
+import type { ItemType, ItemInstance, FieldDefinition } from '@/types/ItemType';
 
 interface ItemCreatorProps {
   itemType: ItemType;
+  item?: ItemInstance; // when set, the form edits this item in place
+  items?: ItemInstance[]; // existing items, checked by unique fields and offered by reference fields
+  itemTypes?: ItemType[];
   onSave: (item: ItemInstance) => void;
+  onSaveAndAddAnother?: (item: ItemInstance) => void; // keeps the form open for the next item
   onBack: () => void;
 }
 
-export default function ItemCreator({ itemType, onSave, onBack }: ItemCreatorProps) {
-  const [formData, setFormData] = useState<Record<string, any>>({});
+// Only keep values for fields the type still defines
+const loadFormData = (itemType: ItemType, item?: ItemInstance) => {
+  if (!item) return {};
+
+  return itemType.fields.reduce((acc, field) => {
+    if (item.data[field.id] !== undefined) {
+      acc[field.id] = item.data[field.id];
+    }
+    return acc;
+  }, {} as Record<string, unknown>);
+};
+
+export default function ItemCreator({
+  itemType,
+  item,
+  items = [],
+  itemTypes = [],
+  onSave,
+  onSaveAndAddAnother,
+  onBack
+}: ItemCreatorProps) {
+  const isEditing = !!item;
+  const [formData, setFormData] = useState<Record<string, any>>(() =>
+    item ? loadFormData(itemType, item) : resolveDefaultValues(itemType, findLastItemOfType(items, itemType.id))
+  );
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const computedData = computeFormulaValues(itemType, formData);
 
   const handleInputChange = (fieldId: string, value: any) => {
     setFormData({ ...formData, [fieldId]: value });
@@ -26,21 +61,25 @@ export default function ItemCreator({ itemType, onSave, onBack }: ItemCreatorPro
   };
 
   const validateForm = () => {
-    const newErrors: Record<string, string> = {};
-    
-    itemType.fields.forEach(field => {
-      if (field.required && (!formData[field.id] || formData[field.id] === '')) {
-        newErrors[field.id] = `${field.name} is required`;
-      }
-    });
+    const newErrors = validateItemData(itemType, formData, { items, itemId: item?.id });
 
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
 
-  const handleSave = () => {
+  const handleSave = (addAnother = false) => {
     if (!validateForm()) return;
 
+    if (item) {
+      onSave({
+        ...item,
+        typeName: itemType.name,
+        data: formData,
+        updatedAt: new Date().toISOString()
+      });
+      return;
+    }
+
     const newItem: ItemInstance = {
       id: `item_${Date.now()}`,
       typeId: itemType.id,
@@ -49,21 +88,85 @@ export default function ItemCreator({ itemType, onSave, onBack }: ItemCreatorPro
       createdAt: new Date().toISOString()
     };
 
+    if (addAnother && onSaveAndAddAnother) {
+      onSaveAndAddAnother(newItem);
+      setFormData(resolveDefaultValues(itemType, newItem));
+      setErrors({});
+      return;
+    }
+
     onSave(newItem);
   };
 
-  const renderField = (field: any) => {
-    const value = formData[field.id] || '';
+  const renderField = (field: FieldDefinition) => {
+    const value = formData[field.id] ?? '';
     const error = errors[field.id];
+    const inputClassName = `transition-all duration-200 ${error ? 'border-destructive' : 'focus:shadow-glow'}`;
 
     switch (field.type) {
+      case 'formula':
+        return (
+          <Input
+            value={formatFieldValue(computedData[field.id], field)}
+            placeholder="Calculated automatically"
+            readOnly
+            disabled
+            className="font-mono"
+          />
+        );
+
+      case 'autonumber':
+        return (
+          <Input
+            value={value || `${formatAutoNumber(field.autoNumber)} (assigned on save)`}
+            readOnly
+            disabled
+            className="font-mono"
+          />
+        );
+
+      case 'reference':
+        return (
+          <ItemReferencePicker
+            field={field}
+            value={formData[field.id]}
+            items={items}
+            itemTypes={itemTypes}
+            onChange={(value) => handleInputChange(field.id, value)}
+            hasError={!!error}
+          />
+        );
+
       case 'text':
         return (
           <Input
             value={value}
             onChange={(e) => handleInputChange(field.id, e.target.value)}
             placeholder={`Enter ${field.name.toLowerCase()}`}
-            className={`transition-all duration-200 ${error ? 'border-destructive' : 'focus:shadow-glow'}`}
+            className={inputClassName}
+          />
+        );
+
+      case 'longtext':
+        return (
+          <Textarea
+            value={value}
+            onChange={(e) => handleInputChange(field.id, e.target.value)}
+            placeholder={`Enter ${field.name.toLowerCase()}`}
+            className={`min-h-[100px] ${inputClassName}`}
+          />
+        );
+
+      case 'email':
+      case 'url':
+      case 'phone':
+        return (
+          <Input
+            type={field.type === 'phone' ? 'tel' : field.type}
+            value={value}
+            onChange={(e) => handleInputChange(field.id, e.target.value)}
+            placeholder={field.type === 'url' ? 'https://' : `Enter ${field.name.toLowerCase()}`}
+            className={inputClassName}
           />
         );
       
@@ -74,17 +177,72 @@ export default function ItemCreator({ itemType, onSave, onBack }: ItemCreatorPro
             value={value}
             onChange={(e) => handleInputChange(field.id, e.target.value)}
             placeholder={`Enter ${field.name.toLowerCase()}`}
-            className={`transition-all duration-200 ${error ? 'border-destructive' : 'focus:shadow-glow'}`}
+            className={inputClassName}
           />
         );
+
+      case 'currency':
+      case 'percentage':
+        return (
+          <div className="flex items-center space-x-2">
+            {field.type === 'currency' && (
+              <span className="text-sm font-medium text-muted-foreground">
+                {field.currencyCode || DEFAULT_CURRENCY}
+              </span>
+            )}
+            <Input
+              type="number"
+              step="0.01"
+              value={value}
+              onChange={(e) => handleInputChange(field.id, e.target.value)}
+              placeholder={`Enter ${field.name.toLowerCase()}`}
+              className={inputClassName}
+            />
+            {field.type === 'percentage' && (
+              <span className="text-sm font-medium text-muted-foreground">%</span>
+            )}
+          </div>
+        );
+
+      case 'rating':
+        return (
+          <div className="flex items-center space-x-1">
+            {Array.from({ length: RATING_MAX }, (_, index) => index + 1).map(star => (
+              <button
+                key={star}
+                type="button"
+                onClick={() => handleInputChange(field.id, Number(value) === star ? '' : String(star))}
+                className="text-muted-foreground hover:text-primary transition-colors"
+                aria-label={`${star} of ${RATING_MAX}`}
+              >
+                <Star className={`w-6 h-6 ${Number(value) >= star ? 'fill-primary text-primary' : ''}`} />
+              </button>
+            ))}
+          </div>
+        );
+
+      case 'boolean':
+        return (
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id={field.id}
+              checked={value === true}
+              onCheckedChange={(checked) => handleInputChange(field.id, !!checked)}
+            />
+            <Label htmlFor={field.id} className="text-sm text-muted-foreground">
+              {value === true ? 'Yes' : 'No'}
+            </Label>
+          </div>
+        );
       
       case 'date':
+      case 'datetime':
         return (
           <Input
-            type="date"
+            type={field.type === 'date' ? 'date' : 'datetime-local'}
             value={value}
             onChange={(e) => handleInputChange(field.id, e.target.value)}
-            className={`transition-all duration-200 ${error ? 'border-destructive' : 'focus:shadow-glow'}`}
+            className={inputClassName}
           />
         );
       
@@ -103,6 +261,29 @@ export default function ItemCreator({ itemType, onSave, onBack }: ItemCreatorPro
             </SelectContent>
           </Select>
         );
+
+      case 'multiselect': {
+        const selected = toArray(value);
+        return (
+          <div className={`grid grid-cols-1 md:grid-cols-2 gap-2 p-3 rounded-md border ${error ? 'border-destructive' : ''}`}>
+            {field.options?.map(option => (
+              <div key={option} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`${field.id}_${option}`}
+                  checked={selected.includes(option)}
+                  onCheckedChange={(checked) => handleInputChange(
+                    field.id,
+                    checked ? [...selected, option] : selected.filter(entry => entry !== option)
+                  )}
+                />
+                <Label htmlFor={`${field.id}_${option}`} className="text-sm font-normal">
+                  {option}
+                </Label>
+              </div>
+            ))}
+          </div>
+        );
+      }
       
       default:
         return null;
@@ -120,12 +301,19 @@ export default function ItemCreator({ itemType, onSave, onBack }: ItemCreatorPro
           <ArrowLeft className="w-4 h-4 mr-2" />
           Back
         </Button>
-        <h1 className="text-2xl font-bold">Create New {itemType.name}</h1>
+        <h1 className="text-2xl font-bold">
+          {isEditing ? `Edit ${itemType.name}` : `Create New ${itemType.name}`}
+        </h1>
       </div>
 
       <Card className="shadow-card transition-all duration-300 hover:shadow-elegant">
         <CardHeader className="bg-gradient-subtle">
-          <CardTitle>New {itemType.name} Item</CardTitle>
+          <CardTitle>{isEditing ? `${itemType.name} Item` : `New ${itemType.name} Item`}</CardTitle>
+          {item?.updatedAt && (
+            <p className="text-sm text-muted-foreground">
+              Last updated {new Date(item.updatedAt).toLocaleString()}
+            </p>
+          )}
         </CardHeader>
         <CardContent className="space-y-6 p-6">
           <div className="grid gap-6">
@@ -147,12 +335,22 @@ export default function ItemCreator({ itemType, onSave, onBack }: ItemCreatorPro
 
           <div className="flex space-x-3 pt-4">
             <Button 
-              onClick={handleSave}
+              onClick={() => handleSave()}
               className="flex-1 bg-gradient-primary hover:shadow-glow transition-all duration-300"
             >
               <Save className="w-4 h-4 mr-2" />
-              Save Item
+              {isEditing ? 'Save Changes' : 'Save Item'}
             </Button>
+            {!isEditing && onSaveAndAddAnother && (
+              <Button
+                variant="outline"
+                onClick={() => handleSave(true)}
+                className="flex-1 transition-all duration-200 hover:shadow-card"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Save &amp; Add Another
+              </Button>
+            )}
             <Button variant="outline" onClick={onBack} className="flex-1">
               Cancel
             </Button>
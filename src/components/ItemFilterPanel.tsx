@@ -0,0 +1,298 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowDown, ArrowUp, X } from 'lucide-react';
+import {
+  EMPTY_FILTERS,
+  isActiveFilter,
+  type FacetCount,
+  type FieldFilter,
+  type ItemColumn,
+  type ItemFacets,
+  type ItemFilters,
+  type SortOrder,
+} from '@/lib/itemFilters';
+
+interface ItemFilterPanelProps {
+  columns: ItemColumn[];
+  filters: ItemFilters;
+  sort: SortOrder | null;
+  facets: ItemFacets;
+  onFiltersChange: (filters: ItemFilters) => void;
+  onSortChange: (sort: SortOrder | null) => void;
+}
+
+const NO_SORT = 'none';
+const ANY_VALUE = 'any';
+
+// Option and checkbox columns are filtered from their facet; the rest get a row of inputs
+const hasFacet = (column: ItemColumn) => column.kind === 'option' || column.kind === 'boolean';
+
+// Sidebar of facets with result counts, typed filters per field and the sort order
+export default function ItemFilterPanel({ columns, filters, sort, facets, onFiltersChange, onSortChange }: ItemFilterPanelProps) {
+  const columnOf = (key: string) => columns.find(column => column.key === key);
+
+  const updateFilter = (key: string, changes: Partial<FieldFilter>) => {
+    const existing = filters.fields.find(filter => filter.key === key);
+    const fields = existing
+      ? filters.fields.map(filter => (filter.key === key ? { ...filter, ...changes } : filter))
+      : [...filters.fields, { key, ...changes }];
+    onFiltersChange({ ...filters, fields });
+  };
+
+  const removeFilter = (key: string) =>
+    onFiltersChange({ ...filters, fields: filters.fields.filter(filter => filter.key !== key) });
+
+  const toggleType = (typeId: string) => {
+    const typeIds = filters.typeIds.includes(typeId)
+      ? filters.typeIds.filter(id => id !== typeId)
+      : [...filters.typeIds, typeId];
+    onFiltersChange({ ...filters, typeIds });
+  };
+
+  const toggleOption = (column: ItemColumn, option: string) => {
+    const filter = filters.fields.find(other => other.key === column.key);
+    const current = filter?.values ?? [];
+    const values = current.includes(option) ? current.filter(value => value !== option) : [...current, option];
+    if (values.length === 0 && !filter?.presence) {
+      removeFilter(column.key);
+    } else {
+      updateFilter(column.key, { values });
+    }
+  };
+
+  // Rows of inputs: every filter on a column without a facet, and emptiness filters on any column
+  const inputFilters = filters.fields.filter(filter => {
+    const column = columnOf(filter.key);
+    return column && (!hasFacet(column) || !filter.values?.length);
+  });
+  const addableColumns = columns.filter(column => !filters.fields.some(filter => filter.key === column.key));
+  const hasActiveFilters = filters.typeIds.length > 0 || filters.fields.some(isActiveFilter);
+
+  return (
+    <Card className="shadow-card">
+      <CardContent className="p-4 space-y-6">
+        <SortControl
+          options={columns.map(column => ({ value: column.key, label: column.label }))}
+          sort={sort}
+          onSortChange={onSortChange}
+        />
+
+        {facets.types.length > 1 && (
+          <FacetSection
+            title="Item type"
+            counts={facets.types}
+            selected={filters.typeIds}
+            onToggle={toggleType}
+          />
+        )}
+
+        {facets.options.map(({ column, counts }) => (
+          <FacetSection
+            key={column.key}
+            title={column.label}
+            counts={counts}
+            selected={filters.fields.find(filter => filter.key === column.key)?.values ?? []}
+            onToggle={option => toggleOption(column, option)}
+          />
+        ))}
+
+        <div className="space-y-3">
+          <h3 className="text-sm font-medium">Field filters</h3>
+          {inputFilters.map(filter => (
+            <FieldFilterInputs
+              key={filter.key}
+              column={columnOf(filter.key)}
+              filter={filter}
+              onChange={changes => updateFilter(filter.key, changes)}
+              onRemove={() => removeFilter(filter.key)}
+            />
+          ))}
+          {addableColumns.length > 0 && (
+            <Select value="" onValueChange={key => updateFilter(key, {})}>
+              <SelectTrigger>
+                <SelectValue placeholder="Add a filter..." />
+              </SelectTrigger>
+              <SelectContent className="bg-popover border shadow-elegant">
+                {addableColumns.map(column => (
+                  <SelectItem key={column.key} value={column.key}>
+                    {column.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+
+        {hasActiveFilters && (
+          <Button
+            variant="outline"
+            onClick={() => onFiltersChange(EMPTY_FILTERS)}
+            className="w-full transition-all duration-200 hover:shadow-card"
+          >
+            Clear filters
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export function SortControl({
+  options,
+  sort,
+  onSortChange
+}: {
+  options: { value: string; label: string }[];
+  sort: SortOrder | null;
+  onSortChange: (sort: SortOrder | null) => void;
+}) {
+  const isKnown = !!sort && options.some(option => option.value === sort.key);
+
+  return (
+    <div className="space-y-2">
+      <Label>Sort by</Label>
+      <div className="flex gap-2">
+        <Select
+          value={isKnown ? sort.key : NO_SORT}
+          onValueChange={key => onSortChange(key === NO_SORT ? null : { key, direction: sort?.direction ?? 'asc' })}
+        >
+          <SelectTrigger className="flex-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-popover border shadow-elegant">
+            <SelectItem value={NO_SORT}>Default order</SelectItem>
+            {options.map(option => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          size="icon"
+          disabled={!isKnown}
+          onClick={() => onSortChange({ key: sort.key, direction: sort.direction === 'asc' ? 'desc' : 'asc' })}
+          title={sort?.direction === 'desc' ? 'Descending' : 'Ascending'}
+          aria-label={sort?.direction === 'desc' ? 'Sort descending' : 'Sort ascending'}
+        >
+          {sort?.direction === 'desc' ? <ArrowDown className="w-4 h-4" /> : <ArrowUp className="w-4 h-4" />}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function FacetSection({
+  title,
+  counts,
+  selected,
+  onToggle
+}: {
+  title: string;
+  counts: FacetCount[];
+  selected: string[];
+  onToggle: (value: string) => void;
+}) {
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-medium">{title}</h3>
+      <div className="space-y-1.5">
+        {counts.map(({ value, label, count }) => {
+          const isSelected = selected.includes(value);
+          return (
+            <label
+              key={value}
+              className={`flex items-center gap-2 text-sm cursor-pointer ${
+                count === 0 && !isSelected ? 'text-muted-foreground' : ''
+              }`}
+            >
+              <Checkbox checked={isSelected} onCheckedChange={() => onToggle(value)} />
+              <span className="flex-1 truncate" title={label}>{label}</span>
+              <span className="text-xs text-muted-foreground tabular-nums">{count}</span>
+            </label>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function FieldFilterInputs({
+  column,
+  filter,
+  onChange,
+  onRemove
+}: {
+  column: ItemColumn;
+  filter: FieldFilter;
+  onChange: (changes: Partial<FieldFilter>) => void;
+  onRemove: () => void;
+}) {
+  const toNumberOrUndefined = (text: string) => (text.trim() === '' || Number.isNaN(Number(text)) ? undefined : Number(text));
+
+  return (
+    <div className="space-y-2 rounded-md border p-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium truncate">{column.label}</span>
+        <Button variant="ghost" size="sm" onClick={onRemove} title="Remove filter" className="h-6 w-6 p-0">
+          <X className="w-3 h-3" />
+        </Button>
+      </div>
+
+      {column.kind === 'number' && (
+        <div className="flex gap-2">
+          <Input
+            type="number"
+            placeholder="Min"
+            aria-label={`${column.label} minimum`}
+            value={filter.min ?? ''}
+            onChange={(e) => onChange({ min: toNumberOrUndefined(e.target.value) })}
+          />
+          <Input
+            type="number"
+            placeholder="Max"
+            aria-label={`${column.label} maximum`}
+            value={filter.max ?? ''}
+            onChange={(e) => onChange({ max: toNumberOrUndefined(e.target.value) })}
+          />
+        </div>
+      )}
+
+      {column.kind === 'date' && (
+        <div className="space-y-2">
+          <Input
+            type="date"
+            aria-label={`${column.label} from`}
+            value={filter.from ?? ''}
+            onChange={(e) => onChange({ from: e.target.value || undefined })}
+          />
+          <Input
+            type="date"
+            aria-label={`${column.label} to`}
+            value={filter.to ?? ''}
+            onChange={(e) => onChange({ to: e.target.value || undefined })}
+          />
+        </div>
+      )}
+
+      <Select
+        value={filter.presence ?? ANY_VALUE}
+        onValueChange={value => onChange({ presence: value === ANY_VALUE ? undefined : value as FieldFilter['presence'] })}
+      >
+        <SelectTrigger className="h-8">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent className="bg-popover border shadow-elegant">
+          <SelectItem value={ANY_VALUE}>Any value</SelectItem>
+          <SelectItem value="filled">Not empty</SelectItem>
+          <SelectItem value="empty">Empty</SelectItem>
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
@@ -0,0 +1,712 @@
+import { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import type { ClipboardEvent, KeyboardEvent, MouseEvent, PointerEvent } from 'react';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { Check } from 'lucide-react';
+import { useVirtualizer } from '@tanstack/react-virtual';
+import FieldValue from '@/components/FieldValue';
+import { useToast } from '@/hooks/use-toast';
+import { RATING_MAX, formatFieldValue, getItemLabel, toArray, type ItemLookup } from '@/lib/fieldTypes';
+import { computeFormulaValues } from '@/lib/formula';
+import {
+  applyCellEdits,
+  cellClipboardText,
+  gridColumns,
+  isEditableField,
+  MIN_COLUMN_WIDTH,
+  moveGridColumn,
+  parseCellText,
+  parseClipboardText,
+  resizeGridColumn,
+  toClipboardText,
+  type CellEdit
+} from '@/lib/itemGrid';
+import type { ConversionResult } from '@/lib/itemTypeMigration';
+import type { FieldDefinition, ItemInstance, ItemType } from '@/types/ItemType';
+
+interface ItemGridProps {
+  itemType: ItemType;
+  items: ItemInstance[]; // the rows, all of this type
+  lookup: ItemLookup; // every item, for references and unique checks
+  onUpdateItems: (items: ItemInstance[]) => void;
+  onUpdateItemType: (itemType: ItemType) => void; // saves column order and widths
+  onOpenItem?: (itemId: string) => void;
+}
+
+interface Cell {
+  row: number;
+  col: number;
+}
+
+// Where the active cell goes once an edit is saved
+type Move = 'down' | 'right' | 'left' | 'none';
+
+const ROW_HEADER_WIDTH = 56;
+const ROW_HEIGHT = 37; // h-9 plus the bottom border
+
+const TEXT_INPUT_TYPES: Partial<Record<FieldDefinition['type'], string>> = {
+  email: 'email',
+  url: 'url',
+  phone: 'tel',
+  number: 'number',
+  currency: 'number',
+  percentage: 'number',
+  rating: 'number',
+  date: 'date',
+  datetime: 'datetime-local',
+};
+
+const clamp = (value: number, max: number) => Math.max(0, Math.min(value, max));
+
+// Popover editors open straight away; the other types start from a typed character
+const startsWithText = (field: FieldDefinition) =>
+  field.type !== 'select' && field.type !== 'multiselect' && field.type !== 'reference' &&
+  field.type !== 'date' && field.type !== 'datetime';
+
+// One column per field with spreadsheet-style editing: arrows, Tab and Enter move
+// between cells, typing or Enter edits the active cell, Shift extends the selection,
+// and ranges copy and paste as tab-separated text. Headers drag to reorder and their
+// right edge drags to resize; the layout is saved on the item type.
+export default function ItemGrid({ itemType, items, lookup, onUpdateItems, onUpdateItemType, onOpenItem }: ItemGridProps) {
+  const [active, setActive] = useState<Cell>({ row: 0, col: 0 });
+  const [anchor, setAnchor] = useState<Cell>({ row: 0, col: 0 });
+  const [editing, setEditing] = useState<{ initialText?: string } | null>(null);
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [resizing, setResizing] = useState<{ fieldId: string; width: number } | null>(null);
+  const [draggedFieldId, setDraggedFieldId] = useState<string | null>(null);
+  const [headerHeight, setHeaderHeight] = useState(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [header, headerRef] = useState<HTMLTableSectionElement | null>(null);
+  const resizeStart = useRef<{ x: number; width: number } | null>(null);
+  const { toast } = useToast();
+
+  const columns = gridColumns(itemType);
+  const rows = useMemo(
+    () => items.map(item => ({ item, data: computeFormulaValues(itemType, item.data) })),
+    [items, itemType]
+  );
+  const lastRow = rows.length - 1;
+  const lastCol = columns.length - 1;
+
+  // Measured rather than assumed, since it follows the font size
+  useLayoutEffect(() => {
+    if (!header) return;
+    const measure = () => setHeaderHeight(header.offsetHeight);
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(header);
+    return () => observer.disconnect();
+  }, [header]);
+
+  // Only the rows in view are rendered; the sticky header sits above them in the same
+  // scroll container, so rows are offset by its height and scrolled to just below it
+  const rowVirtualizer = useVirtualizer({
+    count: rows.length,
+    getScrollElement: () => containerRef.current,
+    estimateSize: () => ROW_HEIGHT,
+    overscan: 12,
+    scrollMargin: headerHeight,
+    scrollPaddingStart: headerHeight,
+  });
+  const virtualRows = rowVirtualizer.getVirtualItems();
+  const paddingTop = virtualRows.length > 0 ? virtualRows[0].start - headerHeight : 0;
+  const paddingBottom = virtualRows.length > 0
+    ? rowVirtualizer.getTotalSize() - (virtualRows[virtualRows.length - 1].end - headerHeight)
+    : 0;
+
+  const range = {
+    top: Math.min(anchor.row, active.row),
+    bottom: Math.max(anchor.row, active.row),
+    left: Math.min(anchor.col, active.col),
+    right: Math.max(anchor.col, active.col),
+  };
+  const isInRange = (row: number, col: number) =>
+    row >= range.top && row <= range.bottom && col >= range.left && col <= range.right;
+
+  // Rows can disappear under the selection when items are filtered or deleted
+  useEffect(() => {
+    if (lastRow < 0 || lastCol < 0) return;
+    if (active.row > lastRow || active.col > lastCol) {
+      const cell = { row: clamp(active.row, lastRow), col: clamp(active.col, lastCol) };
+      setActive(cell);
+      setAnchor(cell);
+    }
+  }, [active, lastRow, lastCol]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container?.contains(document.activeElement)) return;
+    rowVirtualizer.scrollToIndex(active.row);
+    // The header cell is always rendered, unlike the active row's cells
+    container
+      .querySelector(`[data-column="${active.col}"]`)
+      ?.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+  }, [active, rowVirtualizer]);
+
+  useEffect(() => {
+    if (!isSelecting) return;
+    const stop = () => setIsSelecting(false);
+    window.addEventListener('mouseup', stop);
+    return () => window.removeEventListener('mouseup', stop);
+  }, [isSelecting]);
+
+  const focusGrid = () => containerRef.current?.focus({ preventScroll: true });
+
+  const select = (cell: Cell, extend = false) => {
+    const next = { row: clamp(cell.row, lastRow), col: clamp(cell.col, lastCol) };
+    setActive(next);
+    if (!extend) setAnchor(next);
+  };
+
+  const saveEdits = (edits: CellEdit[]) => {
+    const result = applyCellEdits(itemType, lookup, edits);
+    if (result.items.length > 0) onUpdateItems(result.items);
+    return result.errors;
+  };
+
+  const rangeEdits = (value: (field: FieldDefinition) => unknown): CellEdit[] =>
+    rows.slice(range.top, range.bottom + 1).flatMap(({ item }) =>
+      columns.slice(range.left, range.right + 1)
+        .filter(({ field }) => isEditableField(field))
+        .map(({ field }) => ({ itemId: item.id, fieldId: field.id, value: value(field) }))
+    );
+
+  const clearRange = () => {
+    const errors = saveEdits(rangeEdits(() => undefined));
+    if (errors.length > 0) {
+      toast({ title: `${errors.length} cell(s) could not be cleared`, description: errors[0], variant: "destructive" });
+    }
+  };
+
+  const moveAfterEdit = (move: Move) => {
+    if (move === 'down') select({ row: active.row + 1, col: active.col });
+    if (move === 'right') select({ row: active.row, col: active.col + 1 });
+    if (move === 'left') select({ row: active.row, col: active.col - 1 });
+  };
+
+  // Returns whether the edit was saved; on failure the editor stays open
+  const commitEdit = (result: ConversionResult, move: Move) => {
+    const { item } = rows[active.row];
+    const { field } = columns[active.col];
+    if (result.ok === false) {
+      toast({ title: `${field.name} not saved`, description: result.reason, variant: "destructive" });
+      return false;
+    }
+    if (JSON.stringify(result.value ?? null) !== JSON.stringify(item.data[field.id] ?? null)) {
+      const errors = saveEdits([{ itemId: item.id, fieldId: field.id, value: result.value }]);
+      if (errors.length > 0) {
+        toast({ title: `${field.name} not saved`, description: errors[0], variant: "destructive" });
+        return false;
+      }
+    }
+    setEditing(null);
+    moveAfterEdit(move);
+    focusGrid();
+    return true;
+  };
+
+  const cancelEdit = () => {
+    setEditing(null);
+    focusGrid();
+  };
+
+  const startEdit = (initialText?: string) => {
+    const { item } = rows[active.row] ?? {};
+    const { field } = columns[active.col] ?? {};
+    if (!item || !field || !isEditableField(field)) return;
+    if (field.type === 'boolean') {
+      saveEdits([{ itemId: item.id, fieldId: field.id, value: item.data[field.id] !== true }]);
+      return;
+    }
+    setEditing({ initialText: startsWithText(field) ? initialText : undefined });
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    if (editing || rows.length === 0 || columns.length === 0) return;
+    const extend = e.shiftKey;
+    const jump = e.ctrlKey || e.metaKey;
+
+    if (jump && e.key.toLowerCase() === 'a') {
+      e.preventDefault();
+      setAnchor({ row: 0, col: 0 });
+      setActive({ row: lastRow, col: lastCol });
+      return;
+    }
+
+    switch (e.key) {
+      case 'ArrowUp':
+        select({ row: jump ? 0 : active.row - 1, col: active.col }, extend);
+        break;
+      case 'ArrowDown':
+        select({ row: jump ? lastRow : active.row + 1, col: active.col }, extend);
+        break;
+      case 'ArrowLeft':
+        select({ row: active.row, col: jump ? 0 : active.col - 1 }, extend);
+        break;
+      case 'ArrowRight':
+        select({ row: active.row, col: jump ? lastCol : active.col + 1 }, extend);
+        break;
+      case 'Home':
+        select({ row: jump ? 0 : active.row, col: 0 }, extend);
+        break;
+      case 'End':
+        select({ row: jump ? lastRow : active.row, col: lastCol }, extend);
+        break;
+      case 'Tab': {
+        // Tab runs along the row and wraps onto the next one
+        const index = active.row * columns.length + active.col + (e.shiftKey ? -1 : 1);
+        if (index < 0 || index > lastRow * columns.length + lastCol) return;
+        select({ row: Math.floor(index / columns.length), col: index % columns.length });
+        break;
+      }
+      case 'Enter':
+      case 'F2':
+        startEdit();
+        break;
+      case 'Delete':
+      case 'Backspace':
+        clearRange();
+        break;
+      case 'Escape':
+        setAnchor(active);
+        break;
+      default:
+        if (e.key.length !== 1 || jump || e.altKey) return;
+        startEdit(e.key);
+    }
+    e.preventDefault();
+  };
+
+  const handleCopy = (e: ClipboardEvent<HTMLDivElement>) => {
+    if (editing || rows.length === 0) return;
+    const text = toClipboardText(
+      rows.slice(range.top, range.bottom + 1).map(({ data }) =>
+        columns.slice(range.left, range.right + 1).map(({ field }) => cellClipboardText(data[field.id], field, lookup))
+      )
+    );
+    e.clipboardData.setData('text/plain', text);
+    e.preventDefault();
+  };
+
+  const handleCut = (e: ClipboardEvent<HTMLDivElement>) => {
+    if (editing || rows.length === 0) return;
+    handleCopy(e);
+    clearRange();
+  };
+
+  // A single copied value fills the whole selection; a block pastes from its top-left
+  // cell and is cut off at the last row and column rather than adding items
+  const handlePaste = (e: ClipboardEvent<HTMLDivElement>) => {
+    if (editing || rows.length === 0) return;
+    e.preventDefault();
+    const pasted = parseClipboardText(e.clipboardData.getData('text/plain'));
+    if (pasted.length === 0) return;
+
+    const fill = pasted.length === 1 && pasted[0].length === 1;
+    const height = fill ? range.bottom - range.top + 1 : Math.min(pasted.length, rows.length - range.top);
+    const width = fill ? range.right - range.left + 1 : Math.min(Math.max(...pasted.map(row => row.length)), columns.length - range.left);
+    const edits: CellEdit[] = [];
+    const errors: string[] = [];
+
+    for (let r = 0; r < height; r++) {
+      for (let c = 0; c < width; c++) {
+        const { field } = columns[range.left + c];
+        const text = fill ? pasted[0][0] : pasted[r][c];
+        if (!isEditableField(field) || text === undefined) continue;
+        const parsed = parseCellText(text, field, lookup);
+        if (parsed.ok === false) {
+          errors.push(`${field.name}: ${parsed.reason}`);
+        } else {
+          edits.push({ itemId: rows[range.top + r].item.id, fieldId: field.id, value: parsed.value });
+        }
+      }
+    }
+
+    errors.push(...saveEdits(edits));
+    setAnchor({ row: range.top, col: range.left });
+    setActive({ row: range.top + height - 1, col: range.left + width - 1 });
+    if (errors.length > 0) {
+      toast({ title: `${errors.length} cell(s) not pasted`, description: errors[0], variant: "destructive" });
+    }
+  };
+
+  const handleCellMouseDown = (e: MouseEvent, cell: Cell) => {
+    // Clicks inside an open editor's popover bubble here through the React tree
+    if (!containerRef.current?.contains(e.target as Node)) return;
+    if (editing && cell.row === active.row && cell.col === active.col) return;
+    if (e.button !== 0) return;
+    e.preventDefault();
+    // Moving focus back to the grid saves an open text editor through its blur
+    focusGrid();
+    select(cell, e.shiftKey);
+    setIsSelecting(true);
+  };
+
+  const selectRow = (row: number, extend: boolean) => {
+    setActive({ row, col: lastCol });
+    if (!extend) setAnchor({ row, col: 0 });
+    focusGrid();
+  };
+
+  const selectColumn = (col: number, extend: boolean) => {
+    if (rows.length === 0) return;
+    setActive({ row: lastRow, col });
+    if (!extend) setAnchor({ row: 0, col });
+    focusGrid();
+  };
+
+  const startResize = (e: PointerEvent<HTMLDivElement>, fieldId: string, width: number) => {
+    e.preventDefault();
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    resizeStart.current = { x: e.clientX, width };
+    setResizing({ fieldId, width });
+  };
+
+  const resize = (e: PointerEvent<HTMLDivElement>) => {
+    if (!resizing || !resizeStart.current) return;
+    setResizing({ ...resizing, width: resizeStart.current.width + e.clientX - resizeStart.current.x });
+  };
+
+  const endResize = () => {
+    if (!resizing) return;
+    onUpdateItemType(resizeGridColumn(itemType, resizing.fieldId, resizing.width));
+    resizeStart.current = null;
+    setResizing(null);
+  };
+
+  const dropColumn = (toIndex: number) => {
+    if (draggedFieldId) onUpdateItemType(moveGridColumn(itemType, draggedFieldId, toIndex));
+    setDraggedFieldId(null);
+  };
+
+  const widthOf = (fieldId: string, width: number) =>
+    resizing?.fieldId === fieldId ? Math.max(resizing.width, MIN_COLUMN_WIDTH) : width;
+  const tableWidth = ROW_HEADER_WIDTH + columns.reduce((sum, { field, width }) => sum + widthOf(field.id, width), 0);
+
+  if (columns.length === 0) {
+    return <p className="text-center text-muted-foreground py-12">{itemType.name} has no fields to show.</p>;
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      tabIndex={0}
+      role="grid"
+      aria-label={`${itemType.name} items`}
+      aria-rowcount={rows.length + 1}
+      aria-colcount={columns.length}
+      onKeyDown={handleKeyDown}
+      onCopy={handleCopy}
+      onCut={handleCut}
+      onPaste={handlePaste}
+      className="max-h-[70vh] overflow-auto rounded-md border bg-card outline-none focus-visible:ring-2 focus-visible:ring-ring select-none"
+    >
+      <table className="table-fixed border-collapse text-sm" style={{ width: tableWidth }}>
+        <colgroup>
+          <col style={{ width: ROW_HEADER_WIDTH }} />
+          {columns.map(({ field, width }) => (
+            <col key={field.id} style={{ width: widthOf(field.id, width) }} />
+          ))}
+        </colgroup>
+        <thead ref={headerRef} className="sticky top-0 z-10 bg-muted">
+          <tr>
+            <th className="border-b border-r" />
+            {columns.map(({ field, width }, col) => (
+              <th
+                key={field.id}
+                role="columnheader"
+                data-column={col}
+                draggable={!resizing}
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = 'move';
+                  e.dataTransfer.setData('text/plain', field.id);
+                  setDraggedFieldId(field.id);
+                }}
+                onDragOver={(e) => {
+                  if (!draggedFieldId) return;
+                  e.preventDefault();
+                  e.dataTransfer.dropEffect = 'move';
+                }}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  dropColumn(col);
+                }}
+                onDragEnd={() => setDraggedFieldId(null)}
+                onClick={(e) => selectColumn(col, e.shiftKey)}
+                title={`${field.name} · drag to move`}
+                className={`relative border-b border-r px-2 py-2 text-left font-medium cursor-grab ${
+                  draggedFieldId === field.id ? 'opacity-50' : ''
+                } ${col >= range.left && col <= range.right ? 'bg-primary/10 text-foreground' : 'text-muted-foreground'}`}
+              >
+                <span className="block truncate">
+                  {field.name}
+                  {field.required && <span className="text-destructive ml-1">*</span>}
+                </span>
+                <div
+                  role="separator"
+                  aria-orientation="vertical"
+                  aria-label={`Resize ${field.name}`}
+                  onPointerDown={(e) => startResize(e, field.id, widthOf(field.id, width))}
+                  onPointerMove={resize}
+                  onPointerUp={endResize}
+                  onClick={(e) => e.stopPropagation()}
+                  className="absolute right-0 top-0 h-full w-1.5 cursor-col-resize hover:bg-primary/40"
+                />
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.length === 0 && (
+            <tr>
+              <td colSpan={columns.length + 1} className="text-center text-muted-foreground py-12">
+                No {itemType.name} items to show.
+              </td>
+            </tr>
+          )}
+          {paddingTop > 0 && (
+            <tr aria-hidden>
+              <td colSpan={columns.length + 1} style={{ height: paddingTop }} />
+            </tr>
+          )}
+          {virtualRows.map(({ index: row }) => {
+            const { item, data } = rows[row];
+            return (
+              <tr key={item.id} role="row" aria-rowindex={row + 2} data-index={row} ref={rowVirtualizer.measureElement}>
+                <th
+                  scope="row"
+                  onClick={(e) => selectRow(row, e.shiftKey)}
+                  onDoubleClick={() => onOpenItem?.(item.id)}
+                  title={onOpenItem ? 'Double-click to open the item' : undefined}
+                  className={`border-b border-r px-2 text-right font-normal cursor-pointer ${
+                    row >= range.top && row <= range.bottom ? 'bg-primary/10 text-foreground' : 'bg-muted/50 text-muted-foreground'
+                  }`}
+                >
+                  {row + 1}
+                </th>
+                {columns.map(({ field }, col) => {
+                  const isActive = row === active.row && col === active.col;
+                  const isEditing = isActive && !!editing;
+                  return (
+                    <td
+                      key={field.id}
+                      role="gridcell"
+                      data-cell={`${row}-${col}`}
+                      aria-selected={isInRange(row, col)}
+                      aria-readonly={!isEditableField(field)}
+                      onMouseDown={(e) => handleCellMouseDown(e, { row, col })}
+                      onMouseEnter={() => isSelecting && select({ row, col }, true)}
+                      onDoubleClick={() => startEdit()}
+                      className={`relative h-9 border-b border-r px-2 truncate ${
+                        isInRange(row, col) ? 'bg-primary/5' : ''
+                      } ${isActive ? 'outline outline-2 -outline-offset-2 outline-primary' : ''} ${
+                        !isEditableField(field) ? 'text-muted-foreground' : ''
+                      }`}
+                    >
+                      {isEditing ? (
+                        <CellEditor
+                          field={field}
+                          value={item.data[field.id]}
+                          initialText={editing.initialText}
+                          lookup={lookup}
+                          onCommit={commitEdit}
+                          onCancel={cancelEdit}
+                        />
+                      ) : field.type === 'boolean' ? (
+                        <Checkbox checked={data[field.id] === true} tabIndex={-1} className="pointer-events-none" />
+                      ) : (
+                        <FieldValue value={data[field.id]} field={field} lookup={lookup} onOpenItem={onOpenItem} />
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+            );
+          })}
+          {paddingBottom > 0 && (
+            <tr aria-hidden>
+              <td colSpan={columns.length + 1} style={{ height: paddingBottom }} />
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+interface CellEditorProps {
+  field: FieldDefinition;
+  value: unknown;
+  initialText?: string; // the key that started the edit replaces the value
+  lookup: ItemLookup;
+  onCommit: (result: ConversionResult, move: Move) => boolean;
+  onCancel: () => void;
+}
+
+// Editor for the active cell, chosen by field type
+function CellEditor({ field, value, initialText, lookup, onCommit, onCancel }: CellEditorProps) {
+  const inputType = TEXT_INPUT_TYPES[field.type];
+  const storedText = field.type === 'date' || field.type === 'datetime' || inputType === 'number'
+    ? String(value ?? '')
+    : formatFieldValue(value, field, lookup);
+  const [draft, setDraft] = useState(initialText ?? storedText);
+  // Set once the edit is saved or cancelled, so the blur that follows is ignored
+  const done = useRef(false);
+
+  // Leaving the cell by clicking elsewhere drops a value that cannot be saved
+  const commitText = (move: Move, cancelOnError = false) => {
+    if (done.current) return;
+    done.current = true;
+    if (onCommit(parseCellText(draft, field, lookup), move)) return;
+    if (cancelOnError) {
+      onCancel();
+    } else {
+      done.current = false;
+    }
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    e.stopPropagation();
+    if (e.key === 'Escape') {
+      done.current = true;
+      onCancel();
+    } else if (e.key === 'Enter' && !(field.type === 'longtext' && (e.shiftKey || e.altKey))) {
+      e.preventDefault();
+      commitText('down');
+    } else if (e.key === 'Tab') {
+      e.preventDefault();
+      commitText(e.shiftKey ? 'left' : 'right');
+    }
+  };
+
+  if (field.type === 'select') {
+    return (
+      <Select
+        defaultOpen
+        value={typeof value === 'string' ? value : undefined}
+        onValueChange={(option) => onCommit({ ok: true, value: option }, 'none')}
+        onOpenChange={(open) => !open && onCancel()}
+      >
+        <SelectTrigger className="absolute inset-0 h-full rounded-none border-0 focus:ring-0">
+          <SelectValue placeholder={`Select ${field.name.toLowerCase()}`} />
+        </SelectTrigger>
+        <SelectContent className="bg-popover border shadow-elegant" onCloseAutoFocus={(e) => e.preventDefault()}>
+          {field.options?.map(option => (
+            <SelectItem key={option} value={option}>
+              {option}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  }
+
+  if (field.type === 'multiselect' || field.type === 'reference') {
+    return <ChoiceEditor field={field} value={value} lookup={lookup} onCommit={onCommit} onCancel={onCancel} />;
+  }
+
+  if (field.type === 'longtext') {
+    return (
+      <Textarea
+        autoFocus
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={() => commitText('none', true)}
+        className="absolute left-0 top-0 z-20 min-h-[120px] w-full min-w-[240px] rounded-none shadow-elegant"
+      />
+    );
+  }
+
+  return (
+    <Input
+      autoFocus
+      type={inputType ?? 'text'}
+      min={field.type === 'rating' ? 0 : undefined}
+      max={field.type === 'rating' ? RATING_MAX : undefined}
+      step={field.type === 'number' || field.type === 'rating' ? undefined : 'any'}
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onKeyDown={handleKeyDown}
+      onBlur={() => commitText('none', true)}
+      className="absolute inset-0 h-full rounded-none border-0 px-2 focus-visible:ring-0 focus-visible:ring-offset-0"
+    />
+  );
+}
+
+// Checklist for multi-select options and linked items, saved when the list closes;
+// a single reference is saved as soon as it is picked
+function ChoiceEditor({ field, value, lookup, onCommit, onCancel }: Omit<CellEditorProps, 'initialText'>) {
+  const isReference = field.type === 'reference';
+  const multiple = !isReference || !!field.reference?.multiple;
+  const [selected, setSelected] = useState(() => toArray(value));
+  const cancelled = useRef(false);
+
+  const choices = isReference
+    ? lookup.items
+      .filter(item => item.typeId === field.reference?.typeId)
+      .map(item => ({ value: item.id, label: getItemLabel(item, lookup.itemTypes, field.reference?.displayFieldId) }))
+    : (field.options ?? []).map(option => ({ value: option, label: option }));
+
+  const close = () => {
+    if (cancelled.current) {
+      onCancel();
+      return;
+    }
+    const next = isReference && !multiple ? selected[0] : selected;
+    onCommit({ ok: true, value: selected.length > 0 ? next : undefined }, 'none');
+  };
+
+  const toggle = (choice: string) => {
+    if (!multiple) {
+      onCommit({ ok: true, value: selected[0] === choice ? undefined : choice }, 'none');
+      return;
+    }
+    setSelected(selected.includes(choice) ? selected.filter(entry => entry !== choice) : [...selected, choice]);
+  };
+
+  return (
+    <Popover defaultOpen onOpenChange={(open) => !open && close()}>
+      <PopoverTrigger asChild>
+        <button type="button" className="absolute inset-0 px-2 text-left truncate">
+          {formatFieldValue(selected, field, lookup)}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent
+        align="start"
+        className="w-64 p-0 bg-popover border shadow-elegant"
+        onEscapeKeyDown={() => {
+          cancelled.current = true;
+        }}
+        onCloseAutoFocus={(e) => e.preventDefault()}
+      >
+        <Command>
+          <CommandInput placeholder={`Search ${field.name.toLowerCase()}...`} />
+          <CommandList>
+            <CommandEmpty>No matches.</CommandEmpty>
+            <CommandGroup>
+              {choices.map(choice => (
+                <CommandItem key={choice.value} value={`${choice.label} ${choice.value}`} onSelect={() => toggle(choice.value)}>
+                  <Check className={`w-4 h-4 mr-2 ${selected.includes(choice.value) ? 'opacity-100' : 'opacity-0'}`} />
+                  {choice.label}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,731 @@
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft, ArrowRight, AlertTriangle, CheckCircle2, Plus, RefreshCw, Upload } from 'lucide-react';
+import type { WorkBook } from 'xlsx';
+import { FIELD_TYPES, formatFieldValue, getItemLabel, hasOptions } from '@/lib/fieldTypes';
+import { INFERABLE_FIELD_TYPES, inferItemType } from '@/lib/typeInference';
+import {
+  DATE_FORMATS,
+  DEFAULT_CSV_IMPORT_OPTIONS,
+  DELIMITERS,
+  ENCODINGS,
+  QUOTES,
+  isDelimitedFile,
+  readCsvSheet,
+  type CsvImportOptions,
+} from '@/lib/csv';
+import { assignAutoNumbers } from '@/lib/fieldDefaults';
+import {
+  applyImportedUpdates,
+  autoMatchColumns,
+  buildImportRows,
+  createImportedItems,
+  findIdColumn,
+  findMissingItems,
+  isImportableField,
+  readSheet,
+  readWorkbookFile,
+  type ColumnMapping,
+  type ItemImportResult,
+} from '@/lib/spreadsheetImport';
+import type { FieldDefinition, FieldType, ItemInstance, ItemType } from '@/types/ItemType';
+import type { Project } from '@/types/Project';
+
+interface ItemImportWizardProps {
+  itemTypes: ItemType[];
+  items: ItemInstance[];
+  projects: Project[];
+  initialTypeId?: string;
+  initialProjectId?: string;
+  startWithNewType?: boolean; // propose a new item type from the sheet instead of importing into one
+  onImport: (result: ItemImportResult) => void;
+  onBack: () => void;
+}
+
+type Step = 'source' | 'type' | 'mapping' | 'review';
+
+// A proposed field of a new item type and the column it is read from
+interface DraftField {
+  field: FieldDefinition;
+  column: number;
+  include: boolean;
+  optionsText: string;
+}
+
+const NOT_IMPORTED = 'none';
+const NO_PROJECT = 'none';
+const NEW_TYPE = 'new';
+
+export default function ItemImportWizard({
+  itemTypes,
+  items,
+  projects,
+  initialTypeId,
+  initialProjectId,
+  startWithNewType,
+  onImport,
+  onBack
+}: ItemImportWizardProps) {
+  const [step, setStep] = useState<Step>('source');
+  const [fileName, setFileName] = useState('');
+  const [workbook, setWorkbook] = useState<WorkBook | null>(null);
+  const [csvBytes, setCsvBytes] = useState<ArrayBuffer | null>(null);
+  const [csvOptions, setCsvOptions] = useState<CsvImportOptions>(DEFAULT_CSV_IMPORT_OPTIONS);
+  const [readError, setReadError] = useState('');
+  const [sheetName, setSheetName] = useState('');
+  const [typeId, setTypeId] = useState(startWithNewType ? NEW_TYPE : initialTypeId ?? '');
+  const [draftName, setDraftName] = useState('');
+  const [draftFields, setDraftFields] = useState<DraftField[]>([]);
+  const [draftType, setDraftType] = useState<ItemType | null>(null);
+  const [draftError, setDraftError] = useState('');
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [idColumn, setIdColumn] = useState<number | undefined>(undefined);
+  const [flagMissing, setFlagMissing] = useState(false);
+  const [projectId, setProjectId] = useState(initialProjectId ?? NO_PROJECT);
+
+  const isNewType = typeId === NEW_TYPE;
+  const itemType = isNewType ? draftType : itemTypes.find(type => type.id === typeId);
+  const sheet = useMemo(() => {
+    if (csvBytes) return readCsvSheet(csvBytes, sheetName, csvOptions);
+    return workbook && sheetName ? readSheet(workbook, sheetName) : null;
+  }, [workbook, csvBytes, csvOptions, sheetName]);
+  const importableFields = itemType?.fields.filter(isImportableField) ?? [];
+
+  const lookup = { items, itemTypes };
+  const rows = useMemo(
+    () => (step === 'review' && sheet && itemType
+      ? buildImportRows(sheet, itemType, mapping, { items, itemTypes }, { idColumn })
+      : []),
+    [step, sheet, itemType, mapping, idColumn, items, itemTypes]
+  );
+  const validRows = rows.filter(row => row.errors.length === 0);
+  const invalidRows = rows.filter(row => row.errors.length > 0);
+  const newRows = validRows.filter(row => !row.itemId);
+  const changedRows = validRows.filter(row => row.itemId && row.changes.length > 0);
+  const unchangedCount = validRows.length - newRows.length - changedRows.length;
+  const selectedProject = projects.find(project => project.id === projectId);
+  const missingItems = idColumn !== undefined && flagMissing && itemType
+    ? findMissingItems(rows, items, itemType, selectedProject?.itemIds)
+    : [];
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    setReadError('');
+    try {
+      // Delimited text files are parsed with the CSV options rather than by SheetJS
+      if (isDelimitedFile(file.name)) {
+        setWorkbook(null);
+        setCsvBytes(await file.arrayBuffer());
+        selectSheet(file.name.replace(/\.[^.]+$/, ''));
+        return;
+      }
+      setCsvBytes(null);
+      const nextWorkbook = await readWorkbookFile(file);
+      if (nextWorkbook.SheetNames.length === 0) throw new Error('The workbook has no sheets.');
+      setWorkbook(nextWorkbook);
+      selectSheet(nextWorkbook.SheetNames[0]);
+    } catch (error) {
+      setWorkbook(null);
+      setCsvBytes(null);
+      setSheetName('');
+      setReadError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  // Exported workbooks name each sheet after its item type
+  const selectSheet = (name: string) => {
+    setSheetName(name);
+    const matchingType = itemTypes.find(type => type.name.slice(0, 31).toLowerCase() === name.toLowerCase());
+    if (matchingType && typeId !== NEW_TYPE) setTypeId(matchingType.id);
+  };
+
+  const goToType = () => {
+    if (!sheet) return;
+    const proposed = inferItemType(sheet, sheet.name);
+    setDraftName(itemTypes.some(type => type.name === sheet.name) ? '' : sheet.name);
+    setDraftFields(proposed.fields.map((field, column) => ({
+      field,
+      column,
+      include: true,
+      optionsText: field.options?.join(', ') ?? '',
+    })));
+    setDraftType(proposed);
+    setDraftError('');
+    setStep('type');
+  };
+
+  const updateDraftField = (index: number, changes: Partial<DraftField>) => {
+    setDraftFields(draftFields.map((draft, i) => (i === index ? { ...draft, ...changes } : draft)));
+  };
+
+  const confirmDraftType = () => {
+    const name = draftName.trim();
+    const included = draftFields.filter(draft => draft.include);
+    const names = included.map(draft => draft.field.name.trim().toLowerCase());
+
+    if (!name) return setDraftError('Give the item type a name.');
+    if (itemTypes.some(type => type.name.toLowerCase() === name.toLowerCase())) {
+      return setDraftError(`An item type called "${name}" already exists.`);
+    }
+    if (included.length === 0) return setDraftError('Include at least one column.');
+    if (names.some(fieldName => !fieldName)) return setDraftError('Every included column needs a field name.');
+    if (new Set(names).size !== names.length) return setDraftError('Field names must be unique.');
+
+    const fields: FieldDefinition[] = included.map(({ field, optionsText }) => ({
+      ...field,
+      name: field.name.trim(),
+      options: hasOptions(field.type)
+        ? optionsText.split(',').map(option => option.trim()).filter(Boolean)
+        : undefined,
+    }));
+    const missingOptions = fields.find(field => hasOptions(field.type) && field.options.length === 0);
+    if (missingOptions) return setDraftError(`Add options for ${missingOptions.name}.`);
+
+    setDraftType({ ...draftType, name, fields });
+    setMapping(Object.fromEntries(included.map(draft => [draft.field.id, draft.column])));
+    setIdColumn(undefined);
+    setStep('review');
+  };
+
+  const goToMapping = () => {
+    if (isNewType) return goToType();
+    if (!sheet || !itemType) return;
+    setMapping(autoMatchColumns(sheet.headers, itemType.fields));
+    setIdColumn(findIdColumn(sheet.headers));
+    setStep('mapping');
+  };
+
+  const updateMapping = (fieldId: string, column: string) => {
+    const next = { ...mapping };
+    if (column === NOT_IMPORTED) {
+      delete next[fieldId];
+    } else {
+      next[fieldId] = Number(column);
+    }
+    setMapping(next);
+  };
+
+  const handleImport = () => {
+    if (!itemType || validRows.length === 0) return;
+    const numbered = assignAutoNumbers(itemType, createImportedItems(itemType, validRows));
+    onImport({
+      itemType: numbered.itemType,
+      items: numbered.items,
+      updatedItems: applyImportedUpdates(validRows, items),
+      matchedItemIds: validRows.filter(row => row.itemId).map(row => row.itemId),
+      newType: isNewType,
+      projectId: projectId === NO_PROJECT ? undefined : projectId,
+    });
+  };
+
+  const sampleValue = (column: number | undefined) => {
+    if (column === undefined || !sheet) return '';
+    return sheet.rows.find(row => row.cells[column]?.text.trim())?.cells[column].text ?? '';
+  };
+
+  const renderSource = () => (
+    <CardContent className="space-y-6 p-6">
+      <div className="space-y-2">
+        <Label htmlFor="importFile">Spreadsheet</Label>
+        <Input id="importFile" type="file" accept=".xlsx,.xls,.csv,.tsv,.txt" onChange={handleFileChange} />
+        {readError && (
+          <p className="text-sm text-destructive">{fileName} could not be read: {readError}</p>
+        )}
+      </div>
+
+      {workbook && workbook.SheetNames.length > 1 && (
+        <div className="space-y-2">
+          <Label>Sheet</Label>
+          <Select value={sheetName} onValueChange={selectSheet}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {workbook.SheetNames.map(name => (
+                <SelectItem key={name} value={name}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {csvBytes && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 p-4 bg-muted/50 rounded-lg">
+          <div className="space-y-2">
+            <Label>Delimiter</Label>
+            <Select
+              value={csvOptions.delimiter}
+              onValueChange={(value) => setCsvOptions({ ...csvOptions, delimiter: value as CsvImportOptions['delimiter'] })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="auto">Detect automatically</SelectItem>
+                {DELIMITERS.map(delimiter => (
+                  <SelectItem key={delimiter.value} value={delimiter.value}>{delimiter.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Quote Character</Label>
+            <Select
+              value={csvOptions.quote}
+              onValueChange={(value) => setCsvOptions({ ...csvOptions, quote: value as CsvImportOptions['quote'] })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {QUOTES.map(quote => (
+                  <SelectItem key={quote.value} value={quote.value}>{quote.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Encoding</Label>
+            <Select
+              value={csvOptions.encoding}
+              onValueChange={(value) => setCsvOptions({ ...csvOptions, encoding: value as CsvImportOptions['encoding'] })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ENCODINGS.map(encoding => (
+                  <SelectItem key={encoding.value} value={encoding.value}>{encoding.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Date Format</Label>
+            <Select
+              value={csvOptions.dateFormat}
+              onValueChange={(value) => setCsvOptions({ ...csvOptions, dateFormat: value })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DATE_FORMATS.map(dateFormat => (
+                  <SelectItem key={dateFormat} value={dateFormat}>{dateFormat}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      )}
+
+      {sheet && (
+        <p className="text-sm text-muted-foreground">
+          {sheet.rows.length} data row{sheet.rows.length === 1 ? '' : 's'} and {sheet.headers.length} column{sheet.headers.length === 1 ? '' : 's'} found in "{sheet.name}".
+        </p>
+      )}
+
+      <div className="space-y-2">
+        <Label>Import as</Label>
+        <Select value={typeId} onValueChange={setTypeId}>
+          <SelectTrigger>
+            <SelectValue placeholder="Choose an item type" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NEW_TYPE}>New item type from this sheet</SelectItem>
+            {itemTypes.map(type => (
+              <SelectItem key={type.id} value={type.id}>{type.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex space-x-3 pt-4">
+        <Button
+          onClick={goToMapping}
+          disabled={!sheet || sheet.rows.length === 0 || (!isNewType && !itemType)}
+          className="flex-1 bg-gradient-primary hover:shadow-glow transition-all duration-300"
+        >
+          {isNewType ? 'Propose Item Type' : 'Map Columns'}
+          <ArrowRight className="w-4 h-4 ml-2" />
+        </Button>
+        <Button variant="outline" onClick={onBack} className="flex-1">
+          Cancel
+        </Button>
+      </div>
+    </CardContent>
+  );
+
+  const renderType = () => (
+    <CardContent className="space-y-6 p-6">
+      <div className="space-y-2">
+        <Label htmlFor="draftName">Item Type Name</Label>
+        <Input
+          id="draftName"
+          value={draftName}
+          onChange={(e) => setDraftName(e.target.value)}
+          placeholder="e.g., Products, Contacts, Tasks"
+          className="transition-all duration-200 focus:shadow-glow"
+        />
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-10"></TableHead>
+            <TableHead>Column</TableHead>
+            <TableHead>Field Name</TableHead>
+            <TableHead>Field Type</TableHead>
+            <TableHead>Required</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {draftFields.map((draft, index) => (
+            <TableRow key={draft.field.id} className={draft.include ? '' : 'opacity-50'}>
+              <TableCell>
+                <Checkbox
+                  checked={draft.include}
+                  onCheckedChange={(checked) => updateDraftField(index, { include: !!checked })}
+                />
+              </TableCell>
+              <TableCell className="text-sm text-muted-foreground max-w-[10rem]">
+                <p className="truncate">{sheet?.headers[draft.column]}</p>
+                <p className="truncate text-xs">{sampleValue(draft.column)}</p>
+              </TableCell>
+              <TableCell>
+                <Input
+                  value={draft.field.name}
+                  onChange={(e) => updateDraftField(index, { field: { ...draft.field, name: e.target.value } })}
+                  disabled={!draft.include}
+                />
+              </TableCell>
+              <TableCell className="space-y-2 w-56">
+                <Select
+                  value={draft.field.type}
+                  onValueChange={(value) => updateDraftField(index, { field: { ...draft.field, type: value as FieldType } })}
+                  disabled={!draft.include}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {FIELD_TYPES.filter(type => INFERABLE_FIELD_TYPES.includes(type.value)).map(type => (
+                      <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {hasOptions(draft.field.type) && (
+                  <Input
+                    value={draft.optionsText}
+                    onChange={(e) => updateDraftField(index, { optionsText: e.target.value })}
+                    placeholder="Option 1, Option 2"
+                    disabled={!draft.include}
+                  />
+                )}
+              </TableCell>
+              <TableCell>
+                <Checkbox
+                  checked={draft.field.required}
+                  onCheckedChange={(checked) => updateDraftField(index, { field: { ...draft.field, required: !!checked } })}
+                  disabled={!draft.include}
+                />
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <p className="text-sm text-muted-foreground">
+        Field types were guessed from the data in each column. Adjust them before importing; you can refine the type further in the item type editor later.
+      </p>
+      {draftError && <p className="text-sm text-destructive">{draftError}</p>}
+
+      <div className="flex space-x-3 pt-4">
+        <Button
+          onClick={confirmDraftType}
+          className="flex-1 bg-gradient-primary hover:shadow-glow transition-all duration-300"
+        >
+          Review Rows
+          <ArrowRight className="w-4 h-4 ml-2" />
+        </Button>
+        <Button variant="outline" onClick={() => setStep('source')} className="flex-1">
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back
+        </Button>
+      </div>
+    </CardContent>
+  );
+
+  const renderMapping = () => (
+    <CardContent className="space-y-6 p-6">
+      <div className="space-y-2">
+        <Label>Match existing items by</Label>
+        <Select
+          value={idColumn === undefined ? NOT_IMPORTED : String(idColumn)}
+          onValueChange={(value) => setIdColumn(value === NOT_IMPORTED ? undefined : Number(value))}
+        >
+          <SelectTrigger className="w-64">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NOT_IMPORTED}>Always create new items</SelectItem>
+            {sheet?.headers.map((header, index) => (
+              <SelectItem key={index} value={String(index)}>{header}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {idColumn !== undefined && (
+          <p className="text-sm text-muted-foreground">
+            Rows whose ID matches an existing {itemType?.name} update it; other rows create new items.
+          </p>
+        )}
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Field</TableHead>
+            <TableHead>Column</TableHead>
+            <TableHead>Sample</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {importableFields.map(field => (
+            <TableRow key={field.id}>
+              <TableCell>
+                <div className="flex items-center space-x-2">
+                  <span className="font-medium">{field.name}</span>
+                  {field.required && <span className="text-destructive">*</span>}
+                  <Badge variant="outline">{FIELD_TYPES.find(type => type.value === field.type)?.label}</Badge>
+                </div>
+              </TableCell>
+              <TableCell className="w-64">
+                <Select
+                  value={mapping[field.id] === undefined ? NOT_IMPORTED : String(mapping[field.id])}
+                  onValueChange={(value) => updateMapping(field.id, value)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NOT_IMPORTED}>Don't import</SelectItem>
+                    {sheet?.headers.map((header, index) => (
+                      <SelectItem key={index} value={String(index)}>{header}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </TableCell>
+              <TableCell className="text-sm text-muted-foreground max-w-xs truncate">
+                {sampleValue(mapping[field.id])}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <p className="text-sm text-muted-foreground">
+        Columns were matched to fields by header name. Fields that are not imported keep their current value, or get their default value on new items.
+      </p>
+
+      <div className="flex space-x-3 pt-4">
+        <Button
+          onClick={() => setStep('review')}
+          disabled={Object.keys(mapping).length === 0}
+          className="flex-1 bg-gradient-primary hover:shadow-glow transition-all duration-300"
+        >
+          Review Rows
+          <ArrowRight className="w-4 h-4 ml-2" />
+        </Button>
+        <Button variant="outline" onClick={() => setStep('source')} className="flex-1">
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back
+        </Button>
+      </div>
+    </CardContent>
+  );
+
+  const renderReview = () => (
+    <CardContent className="space-y-6 p-6">
+      <div className="flex flex-wrap gap-3">
+        <Badge variant="secondary" className="text-sm">
+          <Plus className="w-4 h-4 mr-1" />
+          {newRows.length} new
+        </Badge>
+        {idColumn !== undefined && (
+          <>
+            <Badge variant="secondary" className="text-sm">
+              <RefreshCw className="w-4 h-4 mr-1" />
+              {changedRows.length} updated
+            </Badge>
+            <Badge variant="outline" className="text-sm">
+              <CheckCircle2 className="w-4 h-4 mr-1" />
+              {unchangedCount} unchanged
+            </Badge>
+          </>
+        )}
+        {invalidRows.length > 0 && (
+          <Badge variant="destructive" className="text-sm">
+            <AlertTriangle className="w-4 h-4 mr-1" />
+            {invalidRows.length} with errors
+          </Badge>
+        )}
+      </div>
+
+      {invalidRows.length > 0 && (
+        <Alert variant="destructive">
+          <AlertDescription>
+            <p className="mb-2">Rows with errors are skipped. Fix them in the spreadsheet and import again to include them.</p>
+            <div className="max-h-64 overflow-y-auto space-y-1">
+              {invalidRows.map(row => (
+                <p key={row.rowNumber}>
+                  <span className="font-medium">Row {row.rowNumber}:</span> {row.errors.join('; ')}
+                </p>
+              ))}
+            </div>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {changedRows.length > 0 && (
+        <div className="space-y-2">
+          <Label>Changes to existing items</Label>
+          <div className="max-h-80 overflow-y-auto border rounded-lg divide-y">
+            {changedRows.map(row => {
+              const item = items.find(existing => existing.id === row.itemId);
+              return (
+                <div key={row.rowNumber} className="p-3 space-y-1">
+                  <p className="text-sm font-medium">
+                    Row {row.rowNumber} · {item ? getItemLabel(item, itemTypes) : row.itemId}
+                  </p>
+                  {row.changes.map(change => (
+                    <p key={change.field.id} className="text-sm">
+                      <span className="text-muted-foreground">{change.field.name}:</span>{' '}
+                      <span className="line-through text-destructive">
+                        {formatFieldValue(change.before, change.field, lookup) || '(empty)'}
+                      </span>{' '}
+                      → <span className="text-success">{formatFieldValue(change.after, change.field, lookup) || '(empty)'}</span>
+                    </p>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {idColumn !== undefined && (
+        <div className="space-y-2">
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="flagMissing"
+              checked={flagMissing}
+              onCheckedChange={(checked) => setFlagMissing(!!checked)}
+            />
+            <Label htmlFor="flagMissing" className="font-normal">
+              Flag {itemType?.name} items {selectedProject ? `in ${selectedProject.name} ` : ''}that are missing from this sheet
+            </Label>
+          </div>
+          {flagMissing && (
+            missingItems.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Every item is present in the sheet.</p>
+            ) : (
+              <Alert>
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  <p className="mb-2">
+                    {missingItems.length} item{missingItems.length === 1 ? ' is' : 's are'} not in the sheet. They are left unchanged.
+                  </p>
+                  <div className="flex flex-wrap gap-2 max-h-32 overflow-y-auto">
+                    {missingItems.map(item => (
+                      <Badge key={item.id} variant="outline">{getItemLabel(item, itemTypes)}</Badge>
+                    ))}
+                  </div>
+                </AlertDescription>
+              </Alert>
+            )
+          )}
+        </div>
+      )}
+
+      {projects.length > 0 && (
+        <div className="space-y-2">
+          <Label>Add imported items to a project</Label>
+          <Select value={projectId} onValueChange={setProjectId}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_PROJECT}>Don't add to a project</SelectItem>
+              {projects.map(project => (
+                <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <div className="flex space-x-3 pt-4">
+        <Button
+          onClick={handleImport}
+          disabled={newRows.length === 0 && changedRows.length === 0}
+          className="flex-1 bg-gradient-primary hover:shadow-glow transition-all duration-300"
+        >
+          <Upload className="w-4 h-4 mr-2" />
+          {changedRows.length > 0
+            ? `Create ${newRows.length}, Update ${changedRows.length}`
+            : `Import ${newRows.length} ${itemType?.name} item${newRows.length === 1 ? '' : 's'}`}
+        </Button>
+        <Button variant="outline" onClick={() => setStep(isNewType ? 'type' : 'mapping')} className="flex-1">
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back
+        </Button>
+      </div>
+    </CardContent>
+  );
+
+  const stepTitles: Record<Step, string> = {
+    source: '1. Choose a spreadsheet',
+    type: '2. Adjust the new item type',
+    mapping: `2. Map columns to ${itemType?.name ?? 'fields'}`,
+    review: '3. Review and import',
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center space-x-4">
+        <Button
+          variant="outline"
+          onClick={onBack}
+          className="transition-all duration-200 hover:shadow-card"
+        >
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back
+        </Button>
+        <h1 className="text-2xl font-bold">Import Items</h1>
+      </div>
+
+      <Card className="shadow-card transition-all duration-300 hover:shadow-elegant">
+        <CardHeader className="bg-gradient-subtle">
+          <CardTitle>{stepTitles[step]}</CardTitle>
+          {step !== 'source' && sheet && (
+            <p className="text-sm text-muted-foreground">{fileName} · {sheet.name}</p>
+          )}
+        </CardHeader>
+        {step === 'source' && renderSource()}
+        {step === 'type' && renderType()}
+        {step === 'mapping' && renderMapping()}
+        {step === 'review' && renderReview()}
+      </Card>
+    </div>
+  );
+}
@@ -1,39 +1,72 @@
-import { useState, useMemo } from 'react';
+import { useState } from 'react';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Badge } from '@/components/ui/badge';
-import { Search, Download, Plus, Trash2 } from 'lucide-react';
-import * as XLSX from 'xlsx';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Plus, Trash2, Pencil, Upload, LayoutList, Table2 } from 'lucide-react';
+import FieldValue from '@/components/FieldValue';
+import ItemGrid from '@/components/ItemGrid';
+import ItemFilterPanel from '@/components/ItemFilterPanel';
+import QuerySearchInput from '@/components/QuerySearchInput';
+import CsvExportDialog from '@/components/CsvExportDialog';
+import ExportDialog, { type ExportRequest } from '@/components/ExportDialog';
+import { isEmptyFieldValue } from '@/lib/fieldTypes';
+import { removeReferencesTo } from '@/lib/references';
+import ExportProgressDialog from '@/components/ExportProgressDialog';
+import { useExportJob } from '@/hooks/useExportJob';
+import { useSearchParam } from '@/hooks/useSearchParam';
+import { useItemFilters } from '@/hooks/useItemFilters';
+import { useListNavigation, useWindowList } from '@/hooks/useVirtualList';
+import type { CsvOptions } from '@/lib/csv';
+import { todayStamp } from '@/lib/download';
+import { computeFormulaValues } from '@/lib/formula';
 import type { ItemInstance, ItemType } from '@/types/ItemType';
 
 interface ItemListProps {
   items: ItemInstance[];
   itemTypes: ItemType[];
   onCreateNew: (typeId: string) => void;
+  onEditItem: (itemId: string) => void;
   onDeleteItems: (itemIds: string[]) => void;
+  onImport: () => void;
+  onUpdateItems: (items: ItemInstance[]) => void;
+  onUpdateItemType: (itemType: ItemType) => void;
 }
 
-export default function ItemList({ items, itemTypes, onCreateNew, onDeleteItems }: ItemListProps) {
-  const [searchTerm, setSearchTerm] = useState('');
+export default function ItemList({
+  items,
+  itemTypes,
+  onCreateNew,
+  onEditItem,
+  onDeleteItems,
+  onImport,
+  onUpdateItems,
+  onUpdateItemType
+}: ItemListProps) {
+  const [searchTerm, setSearchTerm] = useSearchParam('q');
+  const [viewMode, setViewMode] = useSearchParam('view');
+  const [gridTypeId, setGridTypeId] = useSearchParam('type');
   const [selectedItems, setSelectedItems] = useState<Set<string>>(new Set());
+  const lookup = { items, itemTypes };
+  const exportJob = useExportJob();
 
-  const filteredItems = useMemo(() => {
-    if (!searchTerm) return items;
-    
-    return items.filter(item => {
-      const searchString = searchTerm.toLowerCase();
-      
-      // Search in type name
-      if (item.typeName.toLowerCase().includes(searchString)) return true;
-      
-      // Search in item data
-      return Object.values(item.data).some(value => 
-        String(value).toLowerCase().includes(searchString)
-      );
-    });
-  }, [items, searchTerm]);
+  const itemFilters = useItemFilters(items, lookup, searchTerm);
+  const filteredItems = itemFilters.results;
+
+  // Only the cards near the viewport are rendered; selection is kept by item id
+  const { listRef, virtualizer: cardVirtualizer } = useWindowList<HTMLDivElement>(filteredItems.length, {
+    estimateSize: 220,
+    gap: 16,
+  });
+  const { activeIndex, setActiveIndex, handleKeyDown } = useListNavigation({
+    count: filteredItems.length,
+    scrollToIndex: index => cardVirtualizer.scrollToIndex(index),
+    onToggle: index => toggleItemSelection(filteredItems[index].id),
+    onOpen: index => onEditItem(filteredItems[index].id),
+    onSelectAll: () => setSelectedItems(new Set(filteredItems.map(item => item.id))),
+  });
 
   const toggleItemSelection = (itemId: string) => {
     const newSelected = new Set(selectedItems);
@@ -53,59 +86,38 @@ export default function ItemList({ items, itemTypes, onCreateNew, onDeleteItems
     }
   };
 
-  const exportToExcel = () => {
+  const exportItems = ({ format, ...options }: ExportRequest) => {
     if (selectedItems.size === 0) return;
 
-    const selectedItemsData = items.filter(item => selectedItems.has(item.id));
-    
-    // Group by type for better organization
-    const groupedByType = selectedItemsData.reduce((acc, item) => {
-      if (!acc[item.typeName]) {
-        acc[item.typeName] = [];
-      }
-      acc[item.typeName].push(item);
-      return acc;
-    }, {} as Record<string, ItemInstance[]>);
-
-    const workbook = XLSX.utils.book_new();
-
-    Object.entries(groupedByType).forEach(([typeName, typeItems]) => {
-      const itemType = itemTypes.find(type => type.name === typeName);
-      if (!itemType) return;
-
-      // Create headers
-      const headers = ['ID', 'Created At', ...itemType.fields.map(field => field.name)];
-      
-      // Create data rows
-      const rows = typeItems.map(item => [
-        item.id,
-        new Date(item.createdAt).toLocaleDateString(),
-        ...itemType.fields.map(field => item.data[field.id] || '')
-      ]);
-
-      const worksheetData = [headers, ...rows];
-      const worksheet = XLSX.utils.aoa_to_sheet(worksheetData);
-      
-      // Auto-size columns
-      const colWidths = headers.map((header, i) => {
-        const maxLength = Math.max(
-          header.length,
-          ...rows.map(row => String(row[i] || '').length)
-        );
-        return { wch: Math.min(maxLength + 2, 50) };
-      });
-      worksheet['!cols'] = colWidths;
-
-      XLSX.utils.book_append_sheet(workbook, worksheet, typeName.slice(0, 31)); // Excel sheet name limit
+    exportJob.run({
+      kind: 'items',
+      format,
+      items: items.filter(item => selectedItems.has(item.id)),
+      lookup,
+      options,
+      baseName: `items_export_${todayStamp()}`,
     });
+  };
 
-    XLSX.writeFile(workbook, `items_export_${new Date().toISOString().split('T')[0]}.xlsx`);
+  const exportToCsv = (options: CsvOptions) => {
+    exportJob.run({
+      kind: 'csv',
+      items: items.filter(item => selectedItems.has(item.id)),
+      lookup,
+      options,
+      archiveName: `items_export_${todayStamp()}.zip`,
+    });
   };
 
   const handleDeleteSelected = () => {
     if (selectedItems.size === 0) return;
     
-    if (confirm(`Are you sure you want to delete ${selectedItems.size} item(s)?`)) {
+    const referencingCount = removeReferencesTo(items, itemTypes, Array.from(selectedItems)).updatedItemIds.length;
+    const referenceWarning = referencingCount > 0
+      ? ` ${referencingCount} other item(s) reference them and will lose those links.`
+      : '';
+
+    if (confirm(`Are you sure you want to delete ${selectedItems.size} item(s)?${referenceWarning}`)) {
       onDeleteItems(Array.from(selectedItems));
       setSelectedItems(new Set());
     }
@@ -115,18 +127,26 @@ export default function ItemList({ items, itemTypes, onCreateNew, onDeleteItems
     return itemTypes.find(type => type.id === typeId);
   };
 
-  const formatFieldValue = (value: any, field: any) => {
-    if (field.type === 'date' && value) {
-      return new Date(value).toLocaleDateString();
-    }
-    return String(value || '');
-  };
+  // The grid shows one item type at a time; default to the first one with items
+  const isGridView = viewMode === 'grid';
+  const gridType = getItemTypeById(gridTypeId) ??
+    itemTypes.find(type => items.some(item => item.typeId === type.id)) ??
+    itemTypes[0];
 
   return (
     <div className="space-y-6">
+      <ExportProgressDialog progress={exportJob.progress} onCancel={exportJob.cancel} />
       <div className="flex flex-col sm:flex-row gap-4 items-start sm:items-center justify-between">
         <h1 className="text-2xl font-bold">Items</h1>
-        <div className="flex gap-2">
+        <div className="flex flex-wrap gap-2">
+          <Button
+            onClick={onImport}
+            variant="outline"
+            className="transition-all duration-200 hover:shadow-card"
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            Import
+          </Button>
           {itemTypes.map(type => (
             <Button
               key={type.id}
@@ -141,28 +161,45 @@ export default function ItemList({ items, itemTypes, onCreateNew, onDeleteItems
       </div>
 
       {/* Search and Actions */}
-      <div className="flex flex-col sm:flex-row gap-4">
-        <div className="relative flex-1">
-          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
-          <Input
-            placeholder="Search items..."
-            value={searchTerm}
-            onChange={(e) => setSearchTerm(e.target.value)}
-            className="pl-10 transition-all duration-200 focus:shadow-glow"
-          />
-        </div>
+      <div className="flex flex-col sm:flex-row sm:items-start gap-4">
+        <QuerySearchInput
+          placeholder='Search items, or filter like price>100 status:"In stock"'
+          value={searchTerm}
+          onChange={setSearchTerm}
+          columns={itemFilters.queryColumns}
+          itemTypes={itemTypes}
+          errors={itemFilters.queryErrors}
+          className="flex-1"
+          inputClassName="transition-all duration-200 focus:shadow-glow"
+        />
         
         <div className="flex gap-2">
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            value={isGridView ? 'grid' : 'cards'}
+            onValueChange={(value) => value && setViewMode(value === 'grid' ? 'grid' : '')}
+          >
+            <ToggleGroupItem value="cards" aria-label="Card view" title="Card view">
+              <LayoutList className="w-4 h-4" />
+            </ToggleGroupItem>
+            <ToggleGroupItem value="grid" aria-label="Grid view" title="Grid view">
+              <Table2 className="w-4 h-4" />
+            </ToggleGroupItem>
+          </ToggleGroup>
           {selectedItems.size > 0 && (
             <>
-              <Button
-                onClick={exportToExcel}
-                variant="outline"
-                className="transition-all duration-200 hover:shadow-card"
-              >
-                <Download className="w-4 h-4 mr-2" />
-                Export ({selectedItems.size})
-              </Button>
+              <ExportDialog
+                label={`Export (${selectedItems.size})`}
+                itemTypes={itemTypes.filter(type => items.some(item => item.typeId === type.id && selectedItems.has(item.id)))}
+                onExport={exportItems}
+                onUpdateItemType={onUpdateItemType}
+              />
+              <CsvExportDialog
+                label={`CSV (${selectedItems.size})`}
+                typeCount={new Set(items.filter(item => selectedItems.has(item.id)).map(item => item.typeId)).size}
+                onExport={exportToCsv}
+              />
               <Button
                 onClick={handleDeleteSelected}
                 variant="outline"
@@ -176,84 +213,168 @@ export default function ItemList({ items, itemTypes, onCreateNew, onDeleteItems
         </div>
       </div>
 
-      {filteredItems.length > 0 && (
-        <div className="flex items-center space-x-2 text-sm text-muted-foreground">
-          <Checkbox
-            checked={selectedItems.size === filteredItems.length && filteredItems.length > 0}
-            onCheckedChange={toggleSelectAll}
-          />
-          <span>Select all ({filteredItems.length} items)</span>
-        </div>
-      )}
+      <div className="grid gap-6 lg:grid-cols-[16rem_minmax(0,1fr)] items-start">
+        <ItemFilterPanel
+          columns={itemFilters.columns}
+          filters={itemFilters.filters}
+          sort={itemFilters.sort}
+          facets={itemFilters.facets}
+          onFiltersChange={itemFilters.setFilters}
+          onSortChange={itemFilters.setSort}
+        />
 
-      {/* Items Grid */}
-      <div className="grid gap-4">
-        {filteredItems.length === 0 ? (
-          <Card className="shadow-card">
-            <CardContent className="text-center py-12">
-              <p className="text-muted-foreground">
-                {searchTerm ? 'No items found matching your search.' : 'No items created yet.'}
-              </p>
-            </CardContent>
-          </Card>
-        ) : (
-          filteredItems.map(item => {
-            const itemType = getItemTypeById(item.typeId);
-            if (!itemType) return null;
+        <div className="space-y-6 min-w-0">
+          {isGridView && gridType && (
+            <div className="space-y-3">
+              <div className="flex items-center gap-3">
+                <Select value={gridType.id} onValueChange={setGridTypeId}>
+                  <SelectTrigger className="w-64">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-popover border shadow-elegant">
+                    {itemTypes.map(type => (
+                      <SelectItem key={type.id} value={type.id}>
+                        {type.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-sm text-muted-foreground">
+                  Type or press Enter to edit a cell. Drag headers to reorder columns and their edges to resize.
+                </p>
+              </div>
+              <ItemGrid
+                key={gridType.id}
+                itemType={gridType}
+                items={filteredItems.filter(item => item.typeId === gridType.id)}
+                lookup={lookup}
+                onUpdateItems={onUpdateItems}
+                onUpdateItemType={onUpdateItemType}
+                onOpenItem={onEditItem}
+              />
+            </div>
+          )}
 
-            return (
-              <Card 
-                key={item.id} 
-                className={`shadow-card transition-all duration-300 hover:shadow-elegant cursor-pointer ${
-                  selectedItems.has(item.id) ? 'ring-2 ring-primary bg-primary/5' : ''
-                }`}
-                onClick={() => toggleItemSelection(item.id)}
-              >
-                <CardHeader className="pb-3">
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center space-x-3">
-                      <Checkbox
-                        checked={selectedItems.has(item.id)}
-                        onChange={() => toggleItemSelection(item.id)}
-                        onClick={(e) => e.stopPropagation()}
-                      />
-                      <div>
-                        <CardTitle className="text-lg">{item.typeName}</CardTitle>
-                        <p className="text-sm text-muted-foreground">
-                          Created {new Date(item.createdAt).toLocaleDateString()}
-                        </p>
-                      </div>
-                    </div>
-                    <Badge variant="secondary">{item.typeName}</Badge>
-                  </div>
-                </CardHeader>
-                <CardContent>
-                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
-                    {itemType.fields.slice(0, 6).map(field => {
-                      const value = item.data[field.id];
-                      if (!value && value !== 0) return null;
-                      
-                      return (
-                        <div key={field.id} className="space-y-1">
-                          <p className="text-sm font-medium text-muted-foreground">{field.name}</p>
-                          <p className="text-sm truncate">
-                            {formatFieldValue(value, field)}
-                          </p>
-                        </div>
-                      );
-                    })}
+          {!isGridView && filteredItems.length > 0 && (
+            <div className="flex items-center space-x-2 text-sm text-muted-foreground">
+              <Checkbox
+                checked={selectedItems.size === filteredItems.length && filteredItems.length > 0}
+                onCheckedChange={toggleSelectAll}
+              />
+              <span>Select all ({filteredItems.length} items)</span>
+            </div>
+          )}
+
+          {/* Items Grid */}
+          {!(isGridView && gridType) && (filteredItems.length === 0 ? (
+            <Card className="shadow-card">
+              <CardContent className="text-center py-12">
+                <p className="text-muted-foreground">
+                  {items.length > 0 ? 'No items found matching your search and filters.' : 'No items created yet.'}
+                </p>
+              </CardContent>
+            </Card>
+          ) : (
+            <div
+              ref={listRef}
+              role="listbox"
+              aria-label="Items"
+              aria-multiselectable
+              aria-activedescendant={activeIndex === -1 ? undefined : `item-${filteredItems[activeIndex].id}`}
+              tabIndex={0}
+              onKeyDown={handleKeyDown}
+              className="relative rounded-lg outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+              style={{ height: cardVirtualizer.getTotalSize() }}
+            >
+              {cardVirtualizer.getVirtualItems().map(virtualItem => {
+                const item = filteredItems[virtualItem.index];
+                const itemType = getItemTypeById(item.typeId);
+                const data = itemType ? computeFormulaValues(itemType, item.data) : {};
+
+                return (
+                  <div
+                    key={item.id}
+                    data-index={virtualItem.index}
+                    ref={cardVirtualizer.measureElement}
+                    className="absolute left-0 top-0 w-full"
+                    style={{ transform: `translateY(${virtualItem.start - cardVirtualizer.options.scrollMargin}px)` }}
+                  >
+                    {itemType && (
+                      <Card 
+                        id={`item-${item.id}`}
+                        role="option"
+                        aria-selected={selectedItems.has(item.id)}
+                        className={`shadow-card transition-all duration-300 hover:shadow-elegant cursor-pointer ${
+                          selectedItems.has(item.id) ? 'ring-2 ring-primary bg-primary/5' : ''
+                        } ${virtualItem.index === activeIndex ? 'outline outline-2 outline-offset-2 outline-ring' : ''}`}
+                        onClick={() => {
+                          setActiveIndex(virtualItem.index);
+                          toggleItemSelection(item.id);
+                        }}
+                      >
+                        <CardHeader className="pb-3">
+                          <div className="flex items-center justify-between">
+                            <div className="flex items-center space-x-3">
+                              <Checkbox
+                                checked={selectedItems.has(item.id)}
+                                onChange={() => toggleItemSelection(item.id)}
+                                onClick={(e) => e.stopPropagation()}
+                              />
+                              <div>
+                                <CardTitle className="text-lg">{item.typeName}</CardTitle>
+                                <p className="text-sm text-muted-foreground">
+                                  Created {new Date(item.createdAt).toLocaleDateString()}
+                                  {item.updatedAt && ` · Updated ${new Date(item.updatedAt).toLocaleDateString()}`}
+                                </p>
+                              </div>
+                            </div>
+                            <div className="flex items-center space-x-2">
+                              <Badge variant="secondary">{item.typeName}</Badge>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  onEditItem(item.id);
+                                }}
+                                title="Edit item"
+                              >
+                                <Pencil className="w-4 h-4" />
+                              </Button>
+                            </div>
+                          </div>
+                        </CardHeader>
+                        <CardContent>
+                          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+                            {itemType.fields.slice(0, 6).map(field => {
+                              const value = data[field.id];
+                              if (isEmptyFieldValue(value)) return null;
+                          
+                              return (
+                                <div key={field.id} className="space-y-1">
+                                  <p className="text-sm font-medium text-muted-foreground">{field.name}</p>
+                                  <p className="text-sm truncate">
+                                    <FieldValue value={value} field={field} lookup={lookup} onOpenItem={onEditItem} />
+                                  </p>
+                                </div>
+                              );
+                            })}
+                          </div>
+                          {itemType.fields.length > 6 && (
+                            <p className="text-xs text-muted-foreground mt-3">
+                              +{itemType.fields.length - 6} more fields
+                            </p>
+                          )}
+                        </CardContent>
+                      </Card>
+                    )}
                   </div>
-                  {itemType.fields.length > 6 && (
-                    <p className="text-xs text-muted-foreground mt-3">
-                      +{itemType.fields.length - 6} more fields
-                    </p>
-                  )}
-                </CardContent>
-              </Card>
-            );
-          })
-        )}
+                );
+              })}
+            </div>
+          ))}
+        </div>
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { Check, ChevronsUpDown, X } from 'lucide-react';
+import { getItemLabel, toArray } from '@/lib/fieldTypes';
+import type { FieldDefinition, ItemInstance, ItemType } from '@/types/ItemType';
+
+interface ItemReferencePickerProps {
+  field: FieldDefinition;
+  value: unknown;
+  items: ItemInstance[];
+  itemTypes: ItemType[];
+  onChange: (value: string | string[]) => void;
+  hasError?: boolean;
+}
+
+export default function ItemReferencePicker({
+  field,
+  value,
+  items,
+  itemTypes,
+  onChange,
+  hasError
+}: ItemReferencePickerProps) {
+  const [open, setOpen] = useState(false);
+  const multiple = !!field.reference?.multiple;
+  const selectedIds = toArray(value);
+  const targetType = itemTypes.find(type => type.id === field.reference?.typeId);
+  const candidates = items.filter(item => item.typeId === field.reference?.typeId);
+
+  const labelFor = (item: ItemInstance) => getItemLabel(item, itemTypes, field.reference?.displayFieldId);
+
+  const toggle = (itemId: string) => {
+    if (!multiple) {
+      onChange(selectedIds[0] === itemId ? '' : itemId);
+      setOpen(false);
+      return;
+    }
+    onChange(
+      selectedIds.includes(itemId)
+        ? selectedIds.filter(id => id !== itemId)
+        : [...selectedIds, itemId]
+    );
+  };
+
+  const selectedItems = selectedIds
+    .map(id => items.find(item => item.id === id))
+    .filter((item): item is ItemInstance => !!item);
+
+  return (
+    <div className="space-y-2">
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="outline"
+            role="combobox"
+            aria-expanded={open}
+            className={`w-full justify-between font-normal ${hasError ? 'border-destructive' : ''}`}
+          >
+            <span className="truncate">
+              {!multiple && selectedItems[0]
+                ? labelFor(selectedItems[0])
+                : `Select ${targetType?.name ?? 'items'}...`}
+            </span>
+            <ChevronsUpDown className="w-4 h-4 ml-2 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-[--radix-popover-trigger-width] p-0 bg-popover border shadow-elegant" align="start">
+          <Command>
+            <CommandInput placeholder={`Search ${targetType?.name ?? 'items'}...`} />
+            <CommandList>
+              <CommandEmpty>No matching items.</CommandEmpty>
+              <CommandGroup>
+                {candidates.map(item => (
+                  <CommandItem
+                    key={item.id}
+                    value={`${labelFor(item)} ${item.id}`}
+                    onSelect={() => toggle(item.id)}
+                  >
+                    <Check className={`w-4 h-4 mr-2 ${selectedIds.includes(item.id) ? 'opacity-100' : 'opacity-0'}`} />
+                    {labelFor(item)}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+
+      {multiple && selectedItems.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {selectedItems.map(item => (
+            <Badge key={item.id} variant="secondary" className="flex items-center gap-1">
+              {labelFor(item)}
+              <button
+                type="button"
+                onClick={() => toggle(item.id)}
+                className="hover:text-destructive"
+                aria-label={`Remove ${labelFor(item)}`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
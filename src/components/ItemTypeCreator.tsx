@@ -6,65 +6,185 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Badge } from '@/components/ui/badge';
-import { X, Plus, Save } from 'lucide-react';
-import type { ItemType, FieldDefinition } from '@/types/ItemType';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { X, Plus, Save, Pencil, FileSpreadsheet } from 'lucide-react';
+import { FIELD_TYPES, DEFAULT_CURRENCY, hasOptions, isDateField, isNumericField, isTextField } from '@/lib/fieldTypes';
+import { sanitizeFieldRules, validateFieldRules } from '@/lib/itemValidation';
+import { DEFAULT_AUTO_NUMBER, formatAutoNumber, supportsTodayDefault } from '@/lib/fieldDefaults';
+import { FORMULA_FUNCTIONS, checkFormula, findFormulaError, toFormulaIdentifier } from '@/lib/formula';
+import { planItemTypeMigration, type ItemTypeMigrationPlan } from '@/lib/itemTypeMigration';
+import type { ItemType, ItemInstance, FieldDefinition, FieldValidation, FieldDefault } from '@/types/ItemType';
 
 interface ItemTypeCreatorProps {
-  onSave: (itemType: ItemType) => void;
+  itemType?: ItemType; // when set, the creator edits this type instead of creating one
+  items?: ItemInstance[];
+  itemTypes?: ItemType[]; // targets offered to reference fields
+  onSave: (itemType: ItemType, migratedItems?: ItemInstance[]) => void;
   onCancel: () => void;
+  onCreateFromSpreadsheet?: () => void;
 }
 
-export default function ItemTypeCreator({ onSave, onCancel }: ItemTypeCreatorProps) {
-  const [typeName, setTypeName] = useState('');
-  const [fields, setFields] = useState<FieldDefinition[]>([]);
-  const [currentField, setCurrentField] = useState<Partial<FieldDefinition>>({
-    name: '',
-    type: 'text',
-    required: false,
-    options: []
-  });
+const emptyField: Partial<FieldDefinition> = { name: '', type: 'text', required: false, options: [] };
+
+export default function ItemTypeCreator({
+  itemType,
+  items = [],
+  itemTypes = [],
+  onSave,
+  onCancel,
+  onCreateFromSpreadsheet
+}: ItemTypeCreatorProps) {
+  const isEditing = !!itemType;
+  const [typeName, setTypeName] = useState(itemType?.name ?? '');
+  const [fields, setFields] = useState<FieldDefinition[]>(itemType?.fields ?? []);
+  const [currentField, setCurrentField] = useState<Partial<FieldDefinition>>(emptyField);
   const [selectOptions, setSelectOptions] = useState('');
+  const [editingFieldId, setEditingFieldId] = useState<string | null>(null);
+  const [ruleError, setRuleError] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [pendingMigration, setPendingMigration] = useState<{
+    itemType: ItemType;
+    plan: ItemTypeMigrationPlan;
+  } | null>(null);
+
+  const resetFieldForm = () => {
+    setCurrentField(emptyField);
+    setSelectOptions('');
+    setEditingFieldId(null);
+    setRuleError(null);
+  };
 
   const addField = () => {
     if (!currentField.name) return;
 
+    const rulesError = validateFieldRules(currentField);
+    if (rulesError) {
+      setRuleError(rulesError);
+      return;
+    }
+    if (currentField.type === 'reference' && !currentField.reference?.typeId) {
+      setRuleError('Choose which item type this field links to');
+      return;
+    }
+
+    let formula: FieldDefinition['formula'];
+    if (currentField.type === 'formula') {
+      try {
+        const expression = currentField.formula?.expression ?? '';
+        const resultType = checkFormula(
+          expression,
+          fields.filter(field => field.id !== editingFieldId),
+          editingFieldId ?? undefined
+        );
+        formula = { expression, resultType: resultType === 'any' ? 'text' : resultType };
+      } catch (error) {
+        setRuleError(error instanceof Error ? error.message : String(error));
+        return;
+      }
+    }
+
     const newField: FieldDefinition = {
-      id: `field_${Date.now()}`,
+      id: editingFieldId ?? `field_${Date.now()}`,
       name: currentField.name,
       type: currentField.type || 'text',
       required: currentField.required || false,
-      options: currentField.type === 'select' && selectOptions 
+      options: hasOptions(currentField.type) && selectOptions 
         ? selectOptions.split(',').map(opt => opt.trim()).filter(Boolean)
-        : undefined
+        : undefined,
+      currencyCode: currentField.type === 'currency'
+        ? (currentField.currencyCode || DEFAULT_CURRENCY).toUpperCase()
+        : undefined,
+      validation: sanitizeFieldRules(currentField),
+      defaultValue: currentField.type === 'autonumber' || currentField.type === 'formula' ||
+        (currentField.defaultValue?.kind === 'today' && !supportsTodayDefault(currentField))
+        ? undefined
+        : currentField.defaultValue,
+      autoNumber: currentField.type === 'autonumber'
+        ? { ...DEFAULT_AUTO_NUMBER, ...currentField.autoNumber }
+        : undefined,
+      reference: currentField.type === 'reference'
+        ? { multiple: false, ...currentField.reference }
+        : undefined,
+      formula
     };
 
-    setFields([...fields, newField]);
-    setCurrentField({ name: '', type: 'text', required: false, options: [] });
-    setSelectOptions('');
+    if (editingFieldId) {
+      setFields(fields.map(field => field.id === editingFieldId ? newField : field));
+    } else {
+      setFields([...fields, newField]);
+    }
+    resetFieldForm();
+  };
+
+  const editField = (field: FieldDefinition) => {
+    setEditingFieldId(field.id);
+    setCurrentField(field);
+    setSelectOptions(field.options?.join(', ') ?? '');
   };
 
   const removeField = (id: string) => {
     setFields(fields.filter(field => field.id !== id));
+    if (editingFieldId === id) resetFieldForm();
   };
 
   const handleSave = () => {
     if (!typeName || fields.length === 0) return;
 
-    const newItemType: ItemType = {
-      id: `type_${Date.now()}`,
-      name: typeName,
-      fields,
-      createdAt: new Date().toISOString()
-    };
+    const formulaError = findFormulaError(fields);
+    setSaveError(formulaError);
+    if (formulaError) return;
+
+    if (!itemType) {
+      onSave({
+        id: `type_${Date.now()}`,
+        name: typeName,
+        fields,
+        createdAt: new Date().toISOString()
+      });
+      return;
+    }
+
+    const updatedType: ItemType = { ...itemType, name: typeName, fields };
+    const plan = planItemTypeMigration(itemType, updatedType, items);
 
-    onSave(newItemType);
+    if (plan.failures.length > 0 || plan.removedFields.length > 0) {
+      setPendingMigration({ itemType: updatedType, plan });
+      return;
+    }
+
+    onSave(updatedType, plan.items);
+  };
+
+  const applyPendingMigration = () => {
+    if (!pendingMigration) return;
+    onSave(pendingMigration.itemType, pendingMigration.plan.items);
+    setPendingMigration(null);
   };
 
   return (
     <div className="space-y-6">
       <Card className="shadow-card transition-all duration-300 hover:shadow-elegant">
         <CardHeader className="bg-gradient-subtle">
-          <CardTitle className="text-xl font-semibold">Create New Item Type</CardTitle>
+          <div className="flex items-center justify-between gap-4">
+            <CardTitle className="text-xl font-semibold">
+              {isEditing ? `Edit ${itemType.name}` : 'Create New Item Type'}
+            </CardTitle>
+            {!isEditing && onCreateFromSpreadsheet && (
+              <Button variant="outline" size="sm" onClick={onCreateFromSpreadsheet}>
+                <FileSpreadsheet className="w-4 h-4 mr-2" />
+                Create from Spreadsheet
+              </Button>
+            )}
+          </div>
         </CardHeader>
         <CardContent className="space-y-6 p-6">
           <div className="space-y-2">
@@ -79,7 +199,7 @@ export default function ItemTypeCreator({ onSave, onCancel }: ItemTypeCreatorPro
           </div>
 
           <div className="space-y-4">
-            <h3 className="text-lg font-medium">Add Fields</h3>
+            <h3 className="text-lg font-medium">{editingFieldId ? 'Edit Field' : 'Add Fields'}</h3>
             
             <div className="grid gap-4 p-4 bg-muted/50 rounded-lg">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -103,16 +223,17 @@ export default function ItemTypeCreator({ onSave, onCancel }: ItemTypeCreatorPro
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent className="bg-popover border shadow-elegant">
-                      <SelectItem value="text">Text</SelectItem>
-                      <SelectItem value="number">Number</SelectItem>
-                      <SelectItem value="date">Date</SelectItem>
-                      <SelectItem value="select">Select (Dropdown)</SelectItem>
+                      {FIELD_TYPES.map(fieldType => (
+                        <SelectItem key={fieldType.value} value={fieldType.value}>
+                          {fieldType.label}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
               </div>
 
-              {currentField.type === 'select' && (
+              {hasOptions(currentField.type) && (
                 <div className="space-y-2">
                   <Label htmlFor="selectOptions">Options (comma-separated)</Label>
                   <Input
@@ -124,6 +245,19 @@ export default function ItemTypeCreator({ onSave, onCancel }: ItemTypeCreatorPro
                 </div>
               )}
 
+              {currentField.type === 'currency' && (
+                <div className="space-y-2">
+                  <Label htmlFor="currencyCode">Currency Code</Label>
+                  <Input
+                    id="currencyCode"
+                    value={currentField.currencyCode ?? ''}
+                    onChange={(e) => setCurrentField({ ...currentField, currencyCode: e.target.value })}
+                    placeholder={DEFAULT_CURRENCY}
+                    maxLength={3}
+                  />
+                </div>
+              )}
+
               <div className="flex items-center space-x-2">
                 <Checkbox
                   id="required"
@@ -135,14 +269,70 @@ export default function ItemTypeCreator({ onSave, onCancel }: ItemTypeCreatorPro
                 <Label htmlFor="required">Required field</Label>
               </div>
 
-              <Button 
-                onClick={addField} 
-                disabled={!currentField.name}
-                className="w-full bg-gradient-primary hover:shadow-glow transition-all duration-300"
-              >
-                <Plus className="w-4 h-4 mr-2" />
-                Add Field
-              </Button>
+              {currentField.type === 'reference' && (
+                <ReferenceEditor
+                  field={currentField}
+                  itemTypes={itemTypes}
+                  onChange={(reference) => {
+                    setCurrentField({ ...currentField, reference });
+                    setRuleError(null);
+                  }}
+                />
+              )}
+
+              {currentField.type === 'formula' ? (
+                <FormulaEditor
+                  field={currentField}
+                  fields={fields.filter(field => field.id !== editingFieldId)}
+                  selfFieldId={editingFieldId ?? undefined}
+                  onChange={(expression) => {
+                    setCurrentField({ ...currentField, formula: { resultType: 'text', ...currentField.formula, expression } });
+                    setRuleError(null);
+                  }}
+                />
+              ) : currentField.type === 'autonumber' ? (
+                <AutoNumberEditor
+                  field={currentField}
+                  onChange={(autoNumber) => setCurrentField({ ...currentField, autoNumber })}
+                />
+              ) : (
+                <FieldDefaultEditor
+                  field={currentField}
+                  options={selectOptions.split(',').map(opt => opt.trim()).filter(Boolean)}
+                  onChange={(defaultValue) => setCurrentField({ ...currentField, defaultValue })}
+                />
+              )}
+
+              {currentField.type !== 'formula' && (
+                <FieldRulesEditor
+                  field={currentField}
+                  onChange={(validation) => {
+                    setCurrentField({ ...currentField, validation });
+                    setRuleError(null);
+                  }}
+                />
+              )}
+              {ruleError && (
+                <p className="text-sm text-destructive animate-in slide-in-from-left-1 duration-200">
+                  {ruleError}
+                </p>
+              )}
+
+              <div className="flex space-x-3">
+                <Button 
+                  onClick={addField} 
+                  disabled={!currentField.name}
+                  className="flex-1 bg-gradient-primary hover:shadow-glow transition-all duration-300"
+                >
+                  {editingFieldId ? <Save className="w-4 h-4 mr-2" /> : <Plus className="w-4 h-4 mr-2" />}
+                  {editingFieldId ? 'Update Field' : 'Add Field'}
+                </Button>
+                {editingFieldId && (
+                  <Button variant="outline" onClick={resetFieldForm}>
+                    Cancel
+                  </Button>
+                )}
+              </div>
             </div>
           </div>
 
@@ -151,31 +341,67 @@ export default function ItemTypeCreator({ onSave, onCancel }: ItemTypeCreatorPro
               <h3 className="text-lg font-medium">Fields Added</h3>
               <div className="space-y-2">
                 {fields.map((field) => (
-                  <div key={field.id} className="flex items-center justify-between p-3 bg-muted/30 rounded-lg">
+                  <div
+                    key={field.id}
+                    className={`flex items-center justify-between p-3 rounded-lg ${
+                      editingFieldId === field.id ? 'bg-primary/5 ring-2 ring-primary' : 'bg-muted/30'
+                    }`}
+                  >
                     <div className="flex items-center space-x-3">
                       <span className="font-medium">{field.name}</span>
-                      <Badge variant="secondary">{field.type}</Badge>
+                      <Badge variant="secondary">
+                        {FIELD_TYPES.find(fieldType => fieldType.value === field.type)?.label ?? field.type}
+                        {field.currencyCode && ` (${field.currencyCode})`}
+                      </Badge>
                       {field.required && <Badge variant="outline">Required</Badge>}
+                      {field.validation?.unique && <Badge variant="outline">Unique</Badge>}
+                      {field.autoNumber && (
+                        <Badge variant="outline">Next: {formatAutoNumber(field.autoNumber)}</Badge>
+                      )}
+                      {field.defaultValue && <Badge variant="outline">Default</Badge>}
+                      {field.formula && (
+                        <Badge variant="outline" className="font-mono">= {field.formula.expression}</Badge>
+                      )}
+                      {field.reference && (
+                        <Badge variant="outline">
+                          → {itemTypes.find(type => type.id === field.reference.typeId)?.name ?? 'Unknown type'}
+                          {field.reference.multiple && ' (many)'}
+                        </Badge>
+                      )}
+                      {field.validation && Object.keys(field.validation).some(rule => rule !== 'unique') && (
+                        <Badge variant="outline">Rules</Badge>
+                      )}
                       {field.options && (
                         <Badge variant="outline">
                           {field.options.length} options
                         </Badge>
                       )}
                     </div>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => removeField(field.id)}
-                      className="text-destructive hover:text-destructive hover:bg-destructive/10"
-                    >
-                      <X className="w-4 h-4" />
-                    </Button>
+                    <div className="flex space-x-1">
+                      <Button variant="ghost" size="sm" onClick={() => editField(field)}>
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => removeField(field.id)}
+                        className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
                   </div>
                 ))}
               </div>
             </div>
           )}
 
+          {saveError && (
+            <p className="text-sm text-destructive animate-in slide-in-from-left-1 duration-200">
+              {saveError}
+            </p>
+          )}
+
           <div className="flex space-x-3 pt-4">
             <Button
               onClick={handleSave}
@@ -183,7 +409,7 @@ export default function ItemTypeCreator({ onSave, onCancel }: ItemTypeCreatorPro
               className="flex-1 bg-gradient-primary hover:shadow-glow transition-all duration-300"
             >
               <Save className="w-4 h-4 mr-2" />
-              Save Item Type
+              {isEditing ? 'Save Changes' : 'Save Item Type'}
             </Button>
             <Button variant="outline" onClick={onCancel} className="flex-1">
               Cancel
@@ -191,6 +417,452 @@ export default function ItemTypeCreator({ onSave, onCancel }: ItemTypeCreatorPro
           </div>
         </CardContent>
       </Card>
+
+      <AlertDialog open={!!pendingMigration} onOpenChange={(open) => !open && setPendingMigration(null)}>
+        <AlertDialogContent className="max-w-2xl">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Review data migration</AlertDialogTitle>
+            <AlertDialogDescription>
+              Saving these changes will update {pendingMigration?.plan.items.length ?? 0} existing item(s).
+              The values below cannot be kept and will be cleared.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="max-h-80 overflow-y-auto space-y-2">
+            {pendingMigration?.plan.removedFields.map(field => (
+              <div key={field.id} className="p-2 bg-muted/50 rounded text-sm">
+                <span className="font-medium">{field.name}</span>
+                <span className="text-muted-foreground"> was removed; its values will be dropped from every item.</span>
+              </div>
+            ))}
+            {pendingMigration?.plan.failures.map(failure => (
+              <div key={`${failure.itemId}_${failure.fieldId}`} className="p-2 bg-destructive/10 rounded text-sm">
+                <span className="font-medium">{failure.fieldName}</span>
+                <span className="text-muted-foreground"> on {failure.itemId}: </span>
+                <span>{failure.reason}</span>
+              </div>
+            ))}
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep Editing</AlertDialogCancel>
+            <AlertDialogAction onClick={applyPendingMigration}>Apply Changes</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
-}
\ No newline at end of file
+}
+
+// Sub-component for configuring the validation rules that apply to a field's type
+function FieldRulesEditor({
+  field,
+  onChange
+}: {
+  field: Partial<FieldDefinition>;
+  onChange: (validation: FieldValidation) => void;
+}) {
+  const rules = field.validation ?? {};
+
+  const setRule = <K extends keyof FieldValidation>(key: K, value: FieldValidation[K]) => {
+    onChange({ ...rules, [key]: value });
+  };
+
+  const toNumber = (value: string) => (value === '' ? undefined : Number(value));
+
+  return (
+    <div className="space-y-4">
+      {isNumericField(field.type) && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="ruleMin">Minimum value</Label>
+            <Input
+              id="ruleMin"
+              type="number"
+              value={rules.min ?? ''}
+              onChange={(e) => setRule('min', toNumber(e.target.value))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="ruleMax">Maximum value</Label>
+            <Input
+              id="ruleMax"
+              type="number"
+              value={rules.max ?? ''}
+              onChange={(e) => setRule('max', toNumber(e.target.value))}
+            />
+          </div>
+        </div>
+      )}
+
+      {isTextField(field.type) && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="ruleMinLength">Minimum length</Label>
+              <Input
+                id="ruleMinLength"
+                type="number"
+                min={0}
+                value={rules.minLength ?? ''}
+                onChange={(e) => setRule('minLength', toNumber(e.target.value))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ruleMaxLength">Maximum length</Label>
+              <Input
+                id="ruleMaxLength"
+                type="number"
+                min={0}
+                value={rules.maxLength ?? ''}
+                onChange={(e) => setRule('maxLength', toNumber(e.target.value))}
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="rulePattern">Pattern (regular expression)</Label>
+              <Input
+                id="rulePattern"
+                value={rules.pattern ?? ''}
+                onChange={(e) => setRule('pattern', e.target.value || undefined)}
+                placeholder="e.g., ^[A-Z]{3}-\d{4}$"
+                className="font-mono"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rulePatternMessage">Pattern error message</Label>
+              <Input
+                id="rulePatternMessage"
+                value={rules.patternMessage ?? ''}
+                onChange={(e) => setRule('patternMessage', e.target.value || undefined)}
+                placeholder="e.g., Use the format ABC-1234"
+              />
+            </div>
+          </div>
+        </>
+      )}
+
+      {isDateField(field.type) && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="ruleMinDate">Earliest date</Label>
+            <Input
+              id="ruleMinDate"
+              type="date"
+              value={rules.minDate ?? ''}
+              onChange={(e) => setRule('minDate', e.target.value || undefined)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="ruleMaxDate">Latest date</Label>
+            <Input
+              id="ruleMaxDate"
+              type="date"
+              value={rules.maxDate ?? ''}
+              onChange={(e) => setRule('maxDate', e.target.value || undefined)}
+            />
+          </div>
+        </div>
+      )}
+
+      {field.type !== 'boolean' && (
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="ruleUnique"
+            checked={!!rules.unique}
+            onCheckedChange={(checked) => setRule('unique', !!checked || undefined)}
+          />
+          <Label htmlFor="ruleUnique">Unique across all items of this type</Label>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Sub-component for choosing how a new item's field is pre-filled
+function FieldDefaultEditor({
+  field,
+  options,
+  onChange
+}: {
+  field: Partial<FieldDefinition>;
+  options: string[];
+  onChange: (defaultValue: FieldDefault | undefined) => void;
+}) {
+  const fallback = field.defaultValue;
+  const staticValue = fallback?.kind === 'static' ? fallback.value : undefined;
+
+  const setStaticValue = (value: unknown) => onChange({ kind: 'static', value });
+
+  const renderStaticInput = () => {
+    switch (field.type) {
+      case 'boolean':
+        return (
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="defaultStatic"
+              checked={staticValue === true}
+              onCheckedChange={(checked) => setStaticValue(!!checked)}
+            />
+            <Label htmlFor="defaultStatic">Checked by default</Label>
+          </div>
+        );
+
+      case 'select':
+        return (
+          <Select value={String(staticValue ?? '')} onValueChange={setStaticValue}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select default option" />
+            </SelectTrigger>
+            <SelectContent className="bg-popover border shadow-elegant">
+              {options.map(option => (
+                <SelectItem key={option} value={option}>
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+
+      case 'multiselect':
+        return (
+          <Input
+            value={Array.isArray(staticValue) ? staticValue.join(', ') : ''}
+            onChange={(e) => setStaticValue(e.target.value.split(',').map(opt => opt.trim()).filter(Boolean))}
+            placeholder="Option 1, Option 2"
+          />
+        );
+
+      default:
+        return (
+          <Input
+            type={
+              isNumericField(field.type) ? 'number'
+                : field.type === 'date' ? 'date'
+                : field.type === 'datetime' ? 'datetime-local'
+                : 'text'
+            }
+            value={String(staticValue ?? '')}
+            onChange={(e) => setStaticValue(e.target.value)}
+            placeholder="Default value"
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div className="space-y-2">
+        <Label>Default Value</Label>
+        <Select
+          value={fallback?.kind ?? 'none'}
+          onValueChange={(kind) => {
+            if (kind === 'none') onChange(undefined);
+            else if (kind === 'static') onChange({ kind: 'static', value: undefined });
+            else onChange({ kind } as FieldDefault);
+          }}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-popover border shadow-elegant">
+            <SelectItem value="none">No default</SelectItem>
+            {field.type !== 'reference' && <SelectItem value="static">Fixed value</SelectItem>}
+            {supportsTodayDefault(field) && (
+              <SelectItem value="today">{field.type === 'datetime' ? 'Now' : 'Today'}</SelectItem>
+            )}
+            <SelectItem value="lastUsed">Last used value</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      {fallback?.kind === 'static' && (
+        <div className="space-y-2">
+          <Label>Fixed Value</Label>
+          {renderStaticInput()}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Sub-component for configuring an auto-number sequence
+function AutoNumberEditor({
+  field,
+  onChange
+}: {
+  field: Partial<FieldDefinition>;
+  onChange: (autoNumber: FieldDefinition['autoNumber']) => void;
+}) {
+  const config = { ...DEFAULT_AUTO_NUMBER, ...field.autoNumber };
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="autoPrefix">Prefix</Label>
+          <Input
+            id="autoPrefix"
+            value={config.prefix}
+            onChange={(e) => onChange({ ...config, prefix: e.target.value })}
+            placeholder="e.g., INV-"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="autoPadding">Digits</Label>
+          <Input
+            id="autoPadding"
+            type="number"
+            min={1}
+            max={12}
+            value={config.padding}
+            onChange={(e) => onChange({ ...config, padding: Math.max(1, Number(e.target.value) || 1) })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="autoNext">Next number</Label>
+          <Input
+            id="autoNext"
+            type="number"
+            min={1}
+            value={config.nextValue}
+            onChange={(e) => onChange({ ...config, nextValue: Math.max(1, Number(e.target.value) || 1) })}
+          />
+        </div>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Next item will be numbered <span className="font-mono">{formatAutoNumber(config)}</span>
+      </p>
+    </div>
+  );
+}
+
+// Sub-component for choosing the item type a reference field links to
+function ReferenceEditor({
+  field,
+  itemTypes,
+  onChange
+}: {
+  field: Partial<FieldDefinition>;
+  itemTypes: ItemType[];
+  onChange: (reference: FieldDefinition['reference']) => void;
+}) {
+  const reference = { typeId: '', multiple: false, ...field.reference };
+  const targetType = itemTypes.find(type => type.id === reference.typeId);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Links To</Label>
+          <Select
+            value={reference.typeId}
+            onValueChange={(typeId) => onChange({ ...reference, typeId, displayFieldId: undefined })}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Select item type" />
+            </SelectTrigger>
+            <SelectContent className="bg-popover border shadow-elegant">
+              {itemTypes.map(type => (
+                <SelectItem key={type.id} value={type.id}>
+                  {type.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Display Field</Label>
+          <Select
+            value={reference.displayFieldId ?? 'auto'}
+            onValueChange={(displayFieldId) => onChange({
+              ...reference,
+              displayFieldId: displayFieldId === 'auto' ? undefined : displayFieldId
+            })}
+            disabled={!targetType}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-popover border shadow-elegant">
+              <SelectItem value="auto">First text field</SelectItem>
+              {targetType?.fields
+                .filter(targetField => targetField.type !== 'reference')
+                .map(targetField => (
+                  <SelectItem key={targetField.id} value={targetField.id}>
+                    {targetField.name}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          id="referenceMultiple"
+          checked={reference.multiple}
+          onCheckedChange={(checked) => onChange({ ...reference, multiple: !!checked })}
+        />
+        <Label htmlFor="referenceMultiple">Allow linking multiple items</Label>
+      </div>
+    </div>
+  );
+}
+
+// Sub-component for writing a formula, with live type checking against the other fields
+function FormulaEditor({
+  field,
+  fields,
+  selfFieldId,
+  onChange
+}: {
+  field: Partial<FieldDefinition>;
+  fields: FieldDefinition[];
+  selfFieldId?: string;
+  onChange: (expression: string) => void;
+}) {
+  const expression = field.formula?.expression ?? '';
+
+  let status: { ok: boolean; message: string } | null = null;
+  if (expression.trim()) {
+    try {
+      const resultType = checkFormula(expression, fields, selfFieldId);
+      status = { ok: true, message: `Result type: ${resultType === 'any' ? 'text' : resultType}` };
+    } catch (error) {
+      status = { ok: false, message: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="formulaExpression">Formula</Label>
+      <Input
+        id="formulaExpression"
+        value={expression}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder="e.g., quantity * unit_price"
+        className="font-mono"
+      />
+      {status && (
+        <p className={`text-sm ${status.ok ? 'text-muted-foreground' : 'text-destructive'}`}>
+          {status.message}
+        </p>
+      )}
+      {fields.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {fields.map(other => (
+            <Badge
+              key={other.id}
+              variant="outline"
+              className="cursor-pointer font-mono"
+              onClick={() => onChange(`${expression}${expression && !expression.endsWith(' ') ? ' ' : ''}${toFormulaIdentifier(other.name)}`)}
+            >
+              {toFormulaIdentifier(other.name)}
+            </Badge>
+          ))}
+        </div>
+      )}
+      <p className="text-xs text-muted-foreground">
+        Operators: + - * / % &amp; = != &lt; &gt; and or not. Functions: {FORMULA_FUNCTIONS.join(', ')}.
+      </p>
+    </div>
+  );
+}
@@ -1,15 +1,33 @@
-import { useState } from 'react';
+import { useMemo } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Search, Eye, Trash2, Plus } from 'lucide-react';
+import { FacetSection, SortControl } from '@/components/ItemFilterPanel';
+import { useSearchParam } from '@/hooks/useSearchParam';
+import { parseSortOrder, serializeSortOrder, type SortOrder } from '@/lib/itemFilters';
+import {
+  EMPTY_PROJECT_FILTERS,
+  PROJECT_SORT_OPTIONS,
+  createProjectMatcher,
+  isActiveProjectFilters,
+  parseProjectFilters,
+  projectFacets,
+  projectTypeIds,
+  serializeProjectFilters,
+  sortProjects,
+  type ProjectFacets,
+  type ProjectFilters,
+} from '@/lib/projectFilters';
 import type { Project } from '@/types/Project';
-import type { ItemInstance } from '@/types/ItemType';
+import type { ItemInstance, ItemType } from '@/types/ItemType';
 
 interface ProjectListProps {
   projects: Project[];
   items: ItemInstance[];
+  itemTypes: ItemType[];
   onViewProject: (project: Project) => void;
   onCreateNew: () => void;
   onDeleteProject: (projectId: string) => void;
@@ -18,20 +36,31 @@ interface ProjectListProps {
 export default function ProjectList({ 
   projects, 
   items, 
+  itemTypes,
   onViewProject, 
   onCreateNew, 
   onDeleteProject 
 }: ProjectListProps) {
-  const [searchTerm, setSearchTerm] = useState('');
+  const [searchTerm, setSearchTerm] = useSearchParam('q');
+  const [sortText, setSortText] = useSearchParam('sort');
+  const [filterText, setFilterText] = useSearchParam('filter');
+  const sort = useMemo(() => parseSortOrder(sortText), [sortText]);
+  const filters = useMemo(() => parseProjectFilters(filterText), [filterText]);
 
-  const filteredProjects = projects.filter(project => {
+  const { filteredProjects, facets } = useMemo(() => {
     const searchString = searchTerm.toLowerCase();
-    return (
+    const searched = projects.filter(project => (
       project.name.toLowerCase().includes(searchString) ||
       project.description.toLowerCase().includes(searchString) ||
       project.location.toLowerCase().includes(searchString)
-    );
-  });
+    ));
+    const typesByProject = projectTypeIds(projects, items);
+    const matches = createProjectMatcher(filters, typesByProject);
+    return {
+      filteredProjects: sortProjects(searched.filter(project => matches(project)), sort),
+      facets: projectFacets(searched, itemTypes, typesByProject, matches),
+    };
+  }, [projects, items, itemTypes, searchTerm, filters, sort]);
 
   const getProjectItemCount = (project: Project) => {
     return project.itemIds.length;
@@ -67,63 +96,165 @@ export default function ProjectList({
         />
       </div>
 
-      {/* Projects Grid */}
-      <div className="grid gap-4">
-        {filteredProjects.length === 0 ? (
-          <Card className="shadow-card">
-            <CardContent className="text-center py-12">
-              <p className="text-muted-foreground">
-                {searchTerm ? 'No projects found matching your search.' : 'No projects created yet.'}
-              </p>
-            </CardContent>
-          </Card>
-        ) : (
-          filteredProjects.map(project => (
-            <Card 
-              key={project.id} 
-              className="shadow-card transition-all duration-300 hover:shadow-elegant"
-            >
-              <CardHeader>
-                <div className="flex items-start justify-between">
-                  <div className="space-y-2">
-                    <CardTitle className="text-lg">{project.name}</CardTitle>
-                    <p className="text-sm text-muted-foreground">
-                      {project.description || 'No description'}
-                    </p>
-                    <div className="flex items-center space-x-4 text-sm text-muted-foreground">
-                      <span>📍 {project.location}</span>
-                      <span>📅 Created {new Date(project.createdAt).toLocaleDateString()}</span>
+      <div className="grid gap-6 lg:grid-cols-[16rem_minmax(0,1fr)] items-start">
+        <ProjectFilterPanel
+          filters={filters}
+          facets={facets}
+          sort={sort}
+          onFiltersChange={next => setFilterText(serializeProjectFilters(next))}
+          onSortChange={next => setSortText(serializeSortOrder(next))}
+        />
+
+        {/* Projects Grid */}
+        <div className="grid gap-4 content-start">
+          {filteredProjects.length === 0 ? (
+            <Card className="shadow-card">
+              <CardContent className="text-center py-12">
+                <p className="text-muted-foreground">
+                  {projects.length > 0 ? 'No projects found matching your search and filters.' : 'No projects created yet.'}
+                </p>
+              </CardContent>
+            </Card>
+          ) : (
+            filteredProjects.map(project => (
+              <Card 
+                key={project.id} 
+                className="shadow-card transition-all duration-300 hover:shadow-elegant"
+              >
+                <CardHeader>
+                  <div className="flex items-start justify-between">
+                    <div className="space-y-2">
+                      <CardTitle className="text-lg">{project.name}</CardTitle>
+                      <p className="text-sm text-muted-foreground">
+                        {project.description || 'No description'}
+                      </p>
+                      <div className="flex items-center space-x-4 text-sm text-muted-foreground">
+                        <span>📍 {project.location}</span>
+                        <span>📅 Created {new Date(project.createdAt).toLocaleDateString()}</span>
+                      </div>
                     </div>
-                  </div>
-                  <div className="flex flex-col items-end space-y-2">
-                    <Badge variant="secondary">
-                      {getProjectItemCount(project)} items
-                    </Badge>
-                    <div className="flex space-x-2">
-                      <Button
-                        size="sm"
-                        onClick={() => onViewProject(project)}
-                        className="bg-gradient-primary hover:shadow-glow transition-all duration-300"
-                      >
-                        <Eye className="w-4 h-4 mr-1" />
-                        View
-                      </Button>
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        onClick={() => handleDeleteProject(project.id)}
-                        className="text-destructive hover:text-destructive hover:bg-destructive/10"
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </Button>
+                    <div className="flex flex-col items-end space-y-2">
+                      <Badge variant="secondary">
+                        {getProjectItemCount(project)} items
+                      </Badge>
+                      <div className="flex space-x-2">
+                        <Button
+                          size="sm"
+                          onClick={() => onViewProject(project)}
+                          className="bg-gradient-primary hover:shadow-glow transition-all duration-300"
+                        >
+                          <Eye className="w-4 h-4 mr-1" />
+                          View
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleDeleteProject(project.id)}
+                          className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
                     </div>
                   </div>
-                </div>
-              </CardHeader>
-            </Card>
-          ))
-        )}
+                </CardHeader>
+              </Card>
+            ))
+          )}
+        </div>
       </div>
     </div>
   );
+}
+
+function ProjectFilterPanel({
+  filters,
+  facets,
+  sort,
+  onFiltersChange,
+  onSortChange
+}: {
+  filters: ProjectFilters;
+  facets: ProjectFacets;
+  sort: SortOrder;
+  onFiltersChange: (filters: ProjectFilters) => void;
+  onSortChange: (sort: SortOrder) => void;
+}) {
+  const toggle = (values: string[], value: string) =>
+    values.includes(value) ? values.filter(other => other !== value) : [...values, value];
+  const toNumberOrUndefined = (text: string) => (text.trim() === '' || Number.isNaN(Number(text)) ? undefined : Number(text));
+
+  return (
+    <Card className="shadow-card">
+      <CardContent className="p-4 space-y-6">
+        <SortControl options={PROJECT_SORT_OPTIONS} sort={sort} onSortChange={onSortChange} />
+
+        {facets.locations.length > 0 && (
+          <FacetSection
+            title="Location"
+            counts={facets.locations}
+            selected={filters.locations}
+            onToggle={location => onFiltersChange({ ...filters, locations: toggle(filters.locations, location) })}
+          />
+        )}
+
+        {facets.types.length > 0 && (
+          <FacetSection
+            title="Contains item type"
+            counts={facets.types}
+            selected={filters.typeIds}
+            onToggle={typeId => onFiltersChange({ ...filters, typeIds: toggle(filters.typeIds, typeId) })}
+          />
+        )}
+
+        <div className="space-y-2">
+          <Label>Created</Label>
+          <Input
+            type="date"
+            aria-label="Created from"
+            value={filters.createdFrom ?? ''}
+            onChange={(e) => onFiltersChange({ ...filters, createdFrom: e.target.value || undefined })}
+          />
+          <Input
+            type="date"
+            aria-label="Created to"
+            value={filters.createdTo ?? ''}
+            onChange={(e) => onFiltersChange({ ...filters, createdTo: e.target.value || undefined })}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Item count</Label>
+          <div className="flex gap-2">
+            <Input
+              type="number"
+              min={0}
+              placeholder="Min"
+              aria-label="Minimum item count"
+              value={filters.minItems ?? ''}
+              onChange={(e) => onFiltersChange({ ...filters, minItems: toNumberOrUndefined(e.target.value) })}
+            />
+            <Input
+              type="number"
+              min={0}
+              placeholder="Max"
+              aria-label="Maximum item count"
+              value={filters.maxItems ?? ''}
+              onChange={(e) => onFiltersChange({ ...filters, maxItems: toNumberOrUndefined(e.target.value) })}
+            />
+          </div>
+        </div>
+
+        {isActiveProjectFilters(filters) && (
+          <Button
+            variant="outline"
+            onClick={() => onFiltersChange(EMPTY_PROJECT_FILTERS)}
+            className="w-full transition-all duration-200 hover:shadow-card"
+          >
+            Clear filters
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
 }
\ No newline at end of file
@@ -1,6 +1,5 @@
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useRef } from 'react';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Checkbox } from '@/components/ui/checkbox';
@@ -20,8 +19,27 @@ import {
   DialogTitle,
   DialogTrigger,
 } from '@/components/ui/dialog';
-import { ArrowLeft, Search, Plus, Trash2, Download } from 'lucide-react';
-import * as XLSX from 'xlsx';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { ArrowLeft, Plus, Trash2, Pencil, Upload, FileDown, LayoutList, Table2 } from 'lucide-react';
+import FieldValue from '@/components/FieldValue';
+import ItemGrid from '@/components/ItemGrid';
+import ItemFilterPanel from '@/components/ItemFilterPanel';
+import QuerySearchInput from '@/components/QuerySearchInput';
+import CsvExportDialog from '@/components/CsvExportDialog';
+import ExportDialog, { type ExportRequest } from '@/components/ExportDialog';
+import { isEmptyFieldValue, type ItemLookup } from '@/lib/fieldTypes';
+import { computeFormulaValues } from '@/lib/formula';
+import { createDataReader, itemColumns } from '@/lib/itemFilters';
+import { compileQuery } from '@/lib/itemQuery';
+import ExportProgressDialog from '@/components/ExportProgressDialog';
+import { useExportJob } from '@/hooks/useExportJob';
+import { useSearchParam } from '@/hooks/useSearchParam';
+import { useItemFilters } from '@/hooks/useItemFilters';
+import { useVirtualizer } from '@tanstack/react-virtual';
+import { useListNavigation, useWindowList } from '@/hooks/useVirtualList';
+import type { CsvOptions } from '@/lib/csv';
+import { safeFileName, todayStamp } from '@/lib/download';
 import type { Project } from '@/types/Project';
 import type { ItemInstance, ItemType } from '@/types/ItemType';
 
@@ -31,6 +49,10 @@ interface ProjectViewProps {
   itemTypes: ItemType[];
   onBack: () => void;
   onUpdateProject: (updatedProject: Project) => void;
+  onEditItem: (itemId: string) => void;
+  onImportItems: () => void;
+  onUpdateItems: (items: ItemInstance[]) => void;
+  onUpdateItemType: (itemType: ItemType) => void;
 }
 
 export default function ProjectView({ 
@@ -38,33 +60,49 @@ export default function ProjectView({
   allItems, 
   itemTypes, 
   onBack, 
-  onUpdateProject 
+  onUpdateProject,
+  onEditItem,
+  onImportItems,
+  onUpdateItems,
+  onUpdateItemType
 }: ProjectViewProps) {
-  const [searchTerm, setSearchTerm] = useState('');
+  const [searchTerm, setSearchTerm] = useSearchParam('q');
+  const [viewMode, setViewMode] = useSearchParam('view');
+  const [gridTypeId, setGridTypeId] = useSearchParam('type');
   const [selectedItems, setSelectedItems] = useState<Set<string>>(new Set());
   const [isAddingItems, setIsAddingItems] = useState(false);
+  const lookup = { items: allItems, itemTypes };
+  const exportJob = useExportJob();
+
+  // Split all items into the project's and the rest (for adding), in one pass
+  const { projectItems, availableItems } = useMemo(() => {
+    const memberIds = new Set(project.itemIds);
+    return {
+      projectItems: allItems.filter(item => memberIds.has(item.id)),
+      availableItems: allItems.filter(item => !memberIds.has(item.id)),
+    };
+  }, [allItems, project.itemIds]);
 
-  // Get items that belong to this project
-  const projectItems = allItems.filter(item => project.itemIds.includes(item.id));
-  
-  // Get items that are NOT in this project (for adding)
-  const availableItems = allItems.filter(item => !project.itemIds.includes(item.id));
+  const itemFilters = useItemFilters(projectItems, lookup, searchTerm);
+  const filteredProjectItems = itemFilters.results;
 
-  const filteredProjectItems = useMemo(() => {
-    if (!searchTerm) return projectItems;
-    
-    return projectItems.filter(item => {
-      const searchString = searchTerm.toLowerCase();
-      
-      // Search in type name
-      if (item.typeName.toLowerCase().includes(searchString)) return true;
-      
-      // Search in item data
-      return Object.values(item.data).some(value => 
-        String(value).toLowerCase().includes(searchString)
-      );
-    });
-  }, [projectItems, searchTerm]);
+  // Only rows near the viewport are rendered, between spacer rows standing in for the rest
+  const { listRef, virtualizer: rowVirtualizer } = useWindowList<HTMLTableSectionElement>(filteredProjectItems.length, {
+    estimateSize: 73,
+  });
+  const virtualRows = rowVirtualizer.getVirtualItems();
+  const scrollMargin = rowVirtualizer.options.scrollMargin;
+  const paddingTop = virtualRows.length > 0 ? virtualRows[0].start - scrollMargin : 0;
+  const paddingBottom = virtualRows.length > 0
+    ? rowVirtualizer.getTotalSize() - (virtualRows[virtualRows.length - 1].end - scrollMargin)
+    : 0;
+  const { activeIndex, setActiveIndex, handleKeyDown } = useListNavigation({
+    count: filteredProjectItems.length,
+    scrollToIndex: index => rowVirtualizer.scrollToIndex(index),
+    onToggle: index => toggleItemSelection(filteredProjectItems[index].id),
+    onOpen: index => onEditItem(filteredProjectItems[index].id),
+    onSelectAll: () => setSelectedItems(new Set(filteredProjectItems.map(item => item.id))),
+  });
 
   const toggleItemSelection = (itemId: string) => {
     const newSelected = new Set(selectedItems);
@@ -110,76 +148,51 @@ export default function ProjectView({
     setIsAddingItems(false);
   };
 
-  const exportProject = () => {
-    if (projectItems.length === 0) return;
+  const exportProjectCsv = (options: CsvOptions) => {
+    exportJob.run({
+      kind: 'csv',
+      items: projectItems,
+      lookup,
+      options,
+      archiveName: `${safeFileName(project.name)}_export_${todayStamp()}.zip`,
+    });
+  };
 
-    // Group items by type
-    const groupedByType = projectItems.reduce((acc, item) => {
-      if (!acc[item.typeName]) {
-        acc[item.typeName] = [];
-      }
-      acc[item.typeName].push(item);
-      return acc;
-    }, {} as Record<string, ItemInstance[]>);
-
-    const workbook = XLSX.utils.book_new();
-
-    // Add project info sheet
-    const projectInfo = [
-      ['Project Name', project.name],
-      ['Description', project.description],
-      ['Location', project.location],
-      ['Created At', new Date(project.createdAt).toLocaleDateString()],
-      ['Updated At', new Date(project.updatedAt).toLocaleDateString()],
-      ['Total Items', projectItems.length]
-    ];
-    const projectSheet = XLSX.utils.aoa_to_sheet(projectInfo);
-    XLSX.utils.book_append_sheet(workbook, projectSheet, 'Project Info');
-
-    // Add sheets for each item type
-    Object.entries(groupedByType).forEach(([typeName, typeItems]) => {
-      const itemType = itemTypes.find(type => type.name === typeName);
-      if (!itemType) return;
-
-      const headers = ['ID', 'Created At', ...itemType.fields.map(field => field.name)];
-      const rows = typeItems.map(item => [
-        item.id,
-        new Date(item.createdAt).toLocaleDateString(),
-        ...itemType.fields.map(field => item.data[field.id] || '')
-      ]);
-
-      const worksheetData = [headers, ...rows];
-      const worksheet = XLSX.utils.aoa_to_sheet(worksheetData);
-      
-      // Auto-size columns
-      const colWidths = headers.map((header, i) => {
-        const maxLength = Math.max(
-          header.length,
-          ...rows.map(row => String(row[i] || '').length)
-        );
-        return { wch: Math.min(maxLength + 2, 50) };
-      });
-      worksheet['!cols'] = colWidths;
-
-      XLSX.utils.book_append_sheet(workbook, worksheet, typeName.slice(0, 31));
+  const exportProjectPdf = () => {
+    exportJob.run({
+      kind: 'report',
+      project,
+      items: projectItems,
+      lookup,
+      fileName: `${safeFileName(project.name)}_report_${todayStamp()}.pdf`,
     });
+  };
 
-    XLSX.writeFile(workbook, `${project.name.replace(/[^a-zA-Z0-9]/g, '_')}_export_${new Date().toISOString().split('T')[0]}.xlsx`);
+  const exportProject = ({ format, ...options }: ExportRequest) => {
+    if (projectItems.length === 0) return;
+
+    exportJob.run({
+      kind: 'items',
+      format,
+      items: projectItems,
+      lookup,
+      options: { ...options, project },
+      baseName: `${safeFileName(project.name)}_export_${todayStamp()}`,
+    });
   };
 
   const getItemTypeById = (typeId: string) => {
     return itemTypes.find(type => type.id === typeId);
   };
 
-  const formatFieldValue = (value: any, field: any) => {
-    if (field.type === 'date' && value) {
-      return new Date(value).toLocaleDateString();
-    }
-    return String(value || '');
-  };
+  // The grid shows one item type at a time, chosen among the types in the project
+  const projectTypes = itemTypes.filter(type => projectItems.some(item => item.typeId === type.id));
+  const isGridView = viewMode === 'grid';
+  const gridType = projectTypes.find(type => type.id === gridTypeId) ?? projectTypes[0];
 
   return (
     <div className="space-y-6">
+      <ExportProgressDialog progress={exportJob.progress} onCancel={exportJob.cancel} />
       <div className="flex items-center space-x-4">
         <Button 
           variant="outline" 
@@ -222,35 +235,72 @@ export default function ProjectView({
                   <AddItemsDialog 
                     availableItems={availableItems}
                     itemTypes={itemTypes}
+                    lookup={lookup}
                     onAddItems={addItemsToProject}
                   />
                 </DialogContent>
               </Dialog>
-              <Button 
-                onClick={exportProject}
+              <Button
+                onClick={onImportItems}
+                variant="outline"
+                className="transition-all duration-200 hover:shadow-card"
+              >
+                <Upload className="w-4 h-4 mr-2" />
+                Import Items
+              </Button>
+              <ExportDialog
+                label="Export Project"
+                disabled={projectItems.length === 0}
+                itemTypes={itemTypes.filter(type => projectItems.some(item => item.typeId === type.id))}
+                onExport={exportProject}
+                onUpdateItemType={onUpdateItemType}
+              />
+              <Button
+                onClick={exportProjectPdf}
                 variant="outline"
                 disabled={projectItems.length === 0}
                 className="transition-all duration-200 hover:shadow-card"
               >
-                <Download className="w-4 h-4 mr-2" />
-                Export Project
+                <FileDown className="w-4 h-4 mr-2" />
+                Export PDF
               </Button>
+              <CsvExportDialog
+                label="CSV"
+                disabled={projectItems.length === 0}
+                typeCount={new Set(projectItems.map(item => item.typeId)).size}
+                onExport={exportProjectCsv}
+              />
             </div>
           </div>
         </CardHeader>
       </Card>
 
       {/* Search and Actions */}
-      <div className="flex flex-col sm:flex-row gap-4">
-        <div className="relative flex-1">
-          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
-          <Input
-            placeholder="Search items in project..."
-            value={searchTerm}
-            onChange={(e) => setSearchTerm(e.target.value)}
-            className="pl-10 transition-all duration-200 focus:shadow-glow"
-          />
-        </div>
+      <div className="flex flex-col sm:flex-row sm:items-start gap-4">
+        <QuerySearchInput
+          placeholder='Search items in project, or filter like price>100 status:"In stock"'
+          value={searchTerm}
+          onChange={setSearchTerm}
+          columns={itemFilters.queryColumns}
+          itemTypes={itemTypes}
+          errors={itemFilters.queryErrors}
+          className="flex-1"
+          inputClassName="transition-all duration-200 focus:shadow-glow"
+        />
+
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          value={isGridView ? 'grid' : 'table'}
+          onValueChange={(value) => value && setViewMode(value === 'grid' ? 'grid' : '')}
+        >
+          <ToggleGroupItem value="table" aria-label="Table view" title="Table view">
+            <LayoutList className="w-4 h-4" />
+          </ToggleGroupItem>
+          <ToggleGroupItem value="grid" aria-label="Grid view" title="Grid view">
+            <Table2 className="w-4 h-4" />
+          </ToggleGroupItem>
+        </ToggleGroup>
         
         {selectedItems.size > 0 && (
           <Button
@@ -264,82 +314,162 @@ export default function ProjectView({
         )}
       </div>
 
-      {/* Items Table */}
-      <Card className="shadow-card">
-        <CardContent className="p-0">
-          {filteredProjectItems.length === 0 ? (
-            <div className="text-center py-12">
-              <p className="text-muted-foreground">
-                {searchTerm ? 'No items found matching your search.' : 'No items in this project yet.'}
-              </p>
+      <div className="grid gap-6 lg:grid-cols-[16rem_minmax(0,1fr)] items-start">
+        <ItemFilterPanel
+          columns={itemFilters.columns}
+          filters={itemFilters.filters}
+          sort={itemFilters.sort}
+          facets={itemFilters.facets}
+          onFiltersChange={itemFilters.setFilters}
+          onSortChange={itemFilters.setSort}
+        />
+
+        <div className="space-y-6 min-w-0">
+          {isGridView && gridType && (
+            <div className="space-y-3">
+              <Select value={gridType.id} onValueChange={setGridTypeId}>
+                <SelectTrigger className="w-64">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-popover border shadow-elegant">
+                  {projectTypes.map(type => (
+                    <SelectItem key={type.id} value={type.id}>
+                      {type.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <ItemGrid
+                key={gridType.id}
+                itemType={gridType}
+                items={filteredProjectItems.filter(item => item.typeId === gridType.id)}
+                lookup={lookup}
+                onUpdateItems={onUpdateItems}
+                onUpdateItemType={onUpdateItemType}
+                onOpenItem={onEditItem}
+              />
             </div>
-          ) : (
-            <div className="overflow-x-auto">
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    <TableHead className="w-12">
-                      <Checkbox
-                        checked={selectedItems.size === filteredProjectItems.length && filteredProjectItems.length > 0}
-                        onCheckedChange={toggleSelectAll}
-                      />
-                    </TableHead>
-                    <TableHead>Type</TableHead>
-                    <TableHead>Created</TableHead>
-                    <TableHead>Data</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {filteredProjectItems.map(item => {
-                    const itemType = getItemTypeById(item.typeId);
-                    if (!itemType) return null;
-
-                    return (
-                      <TableRow 
-                        key={item.id}
-                        className={selectedItems.has(item.id) ? 'bg-primary/5' : ''}
-                      >
-                        <TableCell>
-                          <Checkbox
-                            checked={selectedItems.has(item.id)}
-                            onCheckedChange={() => toggleItemSelection(item.id)}
-                          />
-                        </TableCell>
-                        <TableCell>
-                          <Badge variant="secondary">{item.typeName}</Badge>
-                        </TableCell>
-                        <TableCell className="text-sm text-muted-foreground">
-                          {new Date(item.createdAt).toLocaleDateString()}
-                        </TableCell>
-                        <TableCell>
-                          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-2 max-w-lg">
-                            {itemType.fields.slice(0, 3).map(field => {
-                              const value = item.data[field.id];
-                              if (!value && value !== 0) return null;
-                              
-                              return (
-                                <div key={field.id} className="text-sm">
-                                  <span className="font-medium text-muted-foreground">{field.name}:</span>
-                                  <span className="ml-1">{formatFieldValue(value, field)}</span>
+          )}
+
+          {/* Items Table */}
+          {!(isGridView && gridType) && (
+            <Card className="shadow-card">
+              <CardContent className="p-0">
+                {filteredProjectItems.length === 0 ? (
+                  <div className="text-center py-12">
+                    <p className="text-muted-foreground">
+                      {projectItems.length > 0 ? 'No items found matching your search and filters.' : 'No items in this project yet.'}
+                    </p>
+                  </div>
+                ) : (
+                  <div
+                    role="grid"
+                    aria-label="Project items"
+                    aria-multiselectable
+                    aria-rowcount={filteredProjectItems.length + 1}
+                    aria-activedescendant={activeIndex === -1 ? undefined : `project-item-${filteredProjectItems[activeIndex].id}`}
+                    tabIndex={0}
+                    onKeyDown={handleKeyDown}
+                    className="overflow-x-auto rounded-lg outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                  >
+                    {/* Fixed column widths, so columns do not shift as different rows scroll into view */}
+                    <Table className="table-fixed min-w-[720px]">
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="w-12">
+                            <Checkbox
+                              checked={selectedItems.size === filteredProjectItems.length && filteredProjectItems.length > 0}
+                              onCheckedChange={toggleSelectAll}
+                            />
+                          </TableHead>
+                          <TableHead className="w-40">Type</TableHead>
+                          <TableHead className="w-32">Created</TableHead>
+                          <TableHead>Data</TableHead>
+                          <TableHead className="w-16" />
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody ref={listRef}>
+                        {paddingTop > 0 && <tr aria-hidden style={{ height: paddingTop }} />}
+                        {virtualRows.map(virtualRow => {
+                          const item = filteredProjectItems[virtualRow.index];
+                          const itemType = getItemTypeById(item.typeId);
+                          if (!itemType) return null;
+                          const data = computeFormulaValues(itemType, item.data);
+
+                          return (
+                            <TableRow 
+                              key={item.id}
+                              id={`project-item-${item.id}`}
+                              aria-rowindex={virtualRow.index + 2}
+                              aria-selected={selectedItems.has(item.id)}
+                              data-index={virtualRow.index}
+                              ref={rowVirtualizer.measureElement}
+                              onClick={() => setActiveIndex(virtualRow.index)}
+                              className={`${selectedItems.has(item.id) ? 'bg-primary/5' : ''} ${
+                                virtualRow.index === activeIndex ? 'outline outline-2 -outline-offset-2 outline-ring' : ''
+                              }`}
+                            >
+                              <TableCell>
+                                <Checkbox
+                                  checked={selectedItems.has(item.id)}
+                                  onCheckedChange={() => toggleItemSelection(item.id)}
+                                />
+                              </TableCell>
+                              <TableCell>
+                                <Badge variant="secondary">{item.typeName}</Badge>
+                              </TableCell>
+                              <TableCell className="text-sm text-muted-foreground">
+                                {new Date(item.createdAt).toLocaleDateString()}
+                              </TableCell>
+                              <TableCell>
+                                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-2 max-w-lg">
+                                  {itemType.fields.slice(0, 3).map(field => {
+                                    const value = data[field.id];
+                                    if (isEmptyFieldValue(value)) return null;
+                                  
+                                    return (
+                                      <div key={field.id} className="text-sm">
+                                        <span className="font-medium text-muted-foreground">{field.name}:</span>
+                                        <FieldValue
+                                          value={value}
+                                          field={field}
+                                          lookup={lookup}
+                                          onOpenItem={onEditItem}
+                                          className="ml-1"
+                                        />
+                                      </div>
+                                    );
+                                  })}
+                                  {itemType.fields.length > 3 && (
+                                    <div className="text-xs text-muted-foreground">
+                                      +{itemType.fields.length - 3} more
+                                    </div>
+                                  )}
                                 </div>
-                              );
-                            })}
-                            {itemType.fields.length > 3 && (
-                              <div className="text-xs text-muted-foreground">
-                                +{itemType.fields.length - 3} more
-                              </div>
-                            )}
-                          </div>
-                        </TableCell>
-                      </TableRow>
-                    );
-                  })}
-                </TableBody>
-              </Table>
-            </div>
+                              </TableCell>
+                              <TableCell>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => onEditItem(item.id)}
+                                  title="Edit item"
+                                >
+                                  <Pencil className="w-4 h-4" />
+                                </Button>
+                              </TableCell>
+                            </TableRow>
+                          );
+                        })}
+                        {paddingBottom > 0 && <tr aria-hidden style={{ height: paddingBottom }} />}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
           )}
-        </CardContent>
-      </Card>
+        </div>
+      </div>
     </div>
   );
 }
@@ -348,23 +478,34 @@ export default function ProjectView({
 function AddItemsDialog({ 
   availableItems, 
   itemTypes, 
+  lookup,
   onAddItems 
 }: {
   availableItems: ItemInstance[];
   itemTypes: ItemType[];
+  lookup: ItemLookup;
   onAddItems: (itemIds: string[]) => void;
 }) {
   const [selectedItems, setSelectedItems] = useState<Set<string>>(new Set());
   const [searchTerm, setSearchTerm] = useState('');
+  const scrollRef = useRef<HTMLDivElement>(null);
 
-  const filteredItems = availableItems.filter(item => {
-    const searchString = searchTerm.toLowerCase();
-    return (
-      item.typeName.toLowerCase().includes(searchString) ||
-      Object.values(item.data).some(value => 
-        String(value).toLowerCase().includes(searchString)
-      )
-    );
+  const queryColumns = useMemo(() => itemColumns(itemTypes), [itemTypes]);
+  const query = useMemo(
+    () => compileQuery(searchTerm, queryColumns, { items: lookup.items, itemTypes }),
+    [searchTerm, queryColumns, lookup.items, itemTypes]
+  );
+  const filteredItems = useMemo(() => {
+    const readData = createDataReader(itemTypes);
+    return availableItems.filter(item => query.matches(item, readData));
+  }, [availableItems, itemTypes, query]);
+
+  const virtualizer = useVirtualizer({
+    count: filteredItems.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => 96,
+    gap: 8,
+    overscan: 8,
   });
 
   const toggleItemSelection = (itemId: string) => {
@@ -377,6 +518,28 @@ function AddItemsDialog({
     setSelectedItems(newSelected);
   };
 
+  const allFilteredSelected = filteredItems.length > 0 && filteredItems.every(item => selectedItems.has(item.id));
+
+  const toggleAllFiltered = () => {
+    const newSelected = new Set(selectedItems);
+    filteredItems.forEach(item => {
+      if (allFilteredSelected) {
+        newSelected.delete(item.id);
+      } else {
+        newSelected.add(item.id);
+      }
+    });
+    setSelectedItems(newSelected);
+  };
+
+  const navigation = useListNavigation({
+    count: filteredItems.length,
+    scrollToIndex: index => virtualizer.scrollToIndex(index),
+    onToggle: index => toggleItemSelection(filteredItems[index].id),
+    onSelectAll: () => setSelectedItems(new Set([...selectedItems, ...filteredItems.map(item => item.id)])),
+  });
+  const activeItem = filteredItems[navigation.activeIndex];
+
   const handleAddItems = () => {
     onAddItems(Array.from(selectedItems));
     setSelectedItems(new Set());
@@ -388,64 +551,97 @@ function AddItemsDialog({
 
   return (
     <div className="space-y-4">
-      <div className="relative">
-        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
-        <Input
-          placeholder="Search available items..."
-          value={searchTerm}
-          onChange={(e) => setSearchTerm(e.target.value)}
-          className="pl-10"
-        />
-      </div>
-
-      <div className="max-h-96 overflow-y-auto space-y-2">
+      <QuerySearchInput
+        placeholder='Search available items, or filter like type:Product status:"In stock"'
+        value={searchTerm}
+        onChange={setSearchTerm}
+        columns={queryColumns}
+        itemTypes={itemTypes}
+        errors={query.errors}
+      />
+
+      {filteredItems.length > 0 && (
+        <label className="flex items-center space-x-2 text-sm text-muted-foreground cursor-pointer">
+          <Checkbox checked={allFilteredSelected} onCheckedChange={toggleAllFiltered} />
+          <span>Select all ({filteredItems.length})</span>
+        </label>
+      )}
+
+      <div
+        ref={scrollRef}
+        role="listbox"
+        aria-multiselectable
+        aria-label="Available items"
+        aria-activedescendant={activeItem ? `available-item-${activeItem.id}` : undefined}
+        tabIndex={filteredItems.length > 0 ? 0 : -1}
+        onKeyDown={navigation.handleKeyDown}
+        className="max-h-96 overflow-y-auto rounded-md focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+      >
         {filteredItems.length === 0 ? (
           <p className="text-center text-muted-foreground py-8">
             {searchTerm ? 'No items found matching your search.' : 'No available items to add.'}
           </p>
         ) : (
-          filteredItems.map(item => {
-            const itemType = getItemTypeById(item.typeId);
-            if (!itemType) return null;
-
-            return (
-              <div 
-                key={item.id}
-                className={`p-3 border rounded-lg cursor-pointer transition-colors ${
-                  selectedItems.has(item.id) ? 'bg-primary/5 border-primary' : 'hover:bg-muted/50'
-                }`}
-                onClick={() => toggleItemSelection(item.id)}
-              >
-                <div className="flex items-center space-x-3">
-                  <Checkbox
-                    checked={selectedItems.has(item.id)}
-                    onChange={() => toggleItemSelection(item.id)}
-                  />
-                  <div className="flex-1">
-                    <div className="flex items-center space-x-2">
-                      <Badge variant="secondary">{item.typeName}</Badge>
-                      <span className="text-sm text-muted-foreground">
-                        {new Date(item.createdAt).toLocaleDateString()}
-                      </span>
-                    </div>
-                    <div className="grid grid-cols-2 gap-2 mt-2">
-                      {itemType.fields.slice(0, 4).map(field => {
-                        const value = item.data[field.id];
-                        if (!value && value !== 0) return null;
-                        
-                        return (
-                          <div key={field.id} className="text-sm">
-                            <span className="font-medium text-muted-foreground">{field.name}:</span>
-                            <span className="ml-1">{String(value)}</span>
-                          </div>
-                        );
-                      })}
+          <div className="relative" style={{ height: virtualizer.getTotalSize() }}>
+            {virtualizer.getVirtualItems().map(row => {
+              const item = filteredItems[row.index];
+              const itemType = getItemTypeById(item.typeId);
+              const data = itemType ? computeFormulaValues(itemType, item.data) : item.data;
+              const isSelected = selectedItems.has(item.id);
+
+              return (
+                <div
+                  key={item.id}
+                  id={`available-item-${item.id}`}
+                  role="option"
+                  aria-selected={isSelected}
+                  data-index={row.index}
+                  ref={virtualizer.measureElement}
+                  className="absolute left-0 top-0 w-full"
+                  style={{ transform: `translateY(${row.start}px)` }}
+                >
+                  <div
+                    className={`p-3 border rounded-lg cursor-pointer transition-colors ${
+                      isSelected ? 'bg-primary/5 border-primary' : 'hover:bg-muted/50'
+                    } ${row.index === navigation.activeIndex ? 'ring-2 ring-ring ring-inset' : ''}`}
+                    onClick={() => {
+                      navigation.setActiveIndex(row.index);
+                      toggleItemSelection(item.id);
+                    }}
+                  >
+                    <div className="flex items-center space-x-3">
+                      <Checkbox
+                        checked={isSelected}
+                        tabIndex={-1}
+                        className="pointer-events-none"
+                      />
+                      <div className="flex-1">
+                        <div className="flex items-center space-x-2">
+                          <Badge variant="secondary">{item.typeName}</Badge>
+                          <span className="text-sm text-muted-foreground">
+                            {new Date(item.createdAt).toLocaleDateString()}
+                          </span>
+                        </div>
+                        <div className="grid grid-cols-2 gap-2 mt-2">
+                          {itemType?.fields.slice(0, 4).map(field => {
+                            const value = data[field.id];
+                            if (isEmptyFieldValue(value)) return null;
+                            
+                            return (
+                              <div key={field.id} className="text-sm">
+                                <span className="font-medium text-muted-foreground">{field.name}:</span>
+                                <FieldValue value={value} field={field} lookup={lookup} className="ml-1" />
+                              </div>
+                            );
+                          })}
+                        </div>
+                      </div>
                     </div>
                   </div>
                 </div>
-              </div>
-            );
-          })
+              );
+            })}
+          </div>
         )}
       </div>
 
@@ -460,4 +656,4 @@ function AddItemsDialog({
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,167 @@
+import { useEffect, useId, useMemo, useRef, useState } from 'react';
+import type { KeyboardEvent, SyntheticEvent } from 'react';
+import { Input } from '@/components/ui/input';
+import { Search } from 'lucide-react';
+import { completeQuery, type QueryError, type QuerySuggestion } from '@/lib/itemQuery';
+import type { ItemColumn } from '@/lib/itemFilters';
+import type { ItemType } from '@/types/ItemType';
+
+interface QuerySearchInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  columns: ItemColumn[]; // fields offered for completion
+  itemTypes: ItemType[];
+  errors: QueryError[];
+  placeholder?: string;
+  className?: string;
+  inputClassName?: string;
+}
+
+// Search box for the item query language, completing field names and options as they
+// are typed and listing what could not be understood underneath
+export default function QuerySearchInput({
+  value,
+  onChange,
+  columns,
+  itemTypes,
+  errors,
+  placeholder,
+  className = '',
+  inputClassName = ''
+}: QuerySearchInputProps) {
+  const [cursor, setCursor] = useState<number | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [isDismissed, setIsDismissed] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+  // Where the caret goes once an accepted suggestion has been rendered into the input
+  const pendingCursor = useRef<number | null>(null);
+  const id = useId();
+  const listId = `${id}-suggestions`;
+  const errorId = `${id}-errors`;
+
+  const completion = useMemo(
+    () => (cursor === null ? null : completeQuery(value, cursor, columns, itemTypes)),
+    [value, cursor, columns, itemTypes]
+  );
+  const suggestions = !isDismissed && completion ? completion.suggestions : [];
+  const isOpen = suggestions.length > 0;
+  const active = Math.min(activeIndex, suggestions.length - 1);
+
+  useEffect(() => {
+    const position = pendingCursor.current;
+    if (position === null || !inputRef.current) return;
+    pendingCursor.current = null;
+    inputRef.current.setSelectionRange(position, position);
+    setCursor(position);
+  }, [value]);
+
+  const trackCursor = (e: SyntheticEvent<HTMLInputElement>) => {
+    const input = e.currentTarget;
+    setCursor(input.selectionStart === input.selectionEnd ? input.selectionStart : null);
+  };
+
+  const accept = (suggestion: QuerySuggestion) => {
+    if (!completion || cursor === null) return;
+    const next = value.slice(0, completion.from) + suggestion.insertText + value.slice(cursor);
+    pendingCursor.current = completion.from + suggestion.insertText.length;
+    setActiveIndex(0);
+    onChange(next);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (!isOpen) return;
+    switch (e.key) {
+      case 'ArrowDown':
+        setActiveIndex((active + 1) % suggestions.length);
+        break;
+      case 'ArrowUp':
+        setActiveIndex((active - 1 + suggestions.length) % suggestions.length);
+        break;
+      case 'Enter':
+      case 'Tab':
+        accept(suggestions[active]);
+        break;
+      case 'Escape':
+        setIsDismissed(true);
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  };
+
+  return (
+    <div className={`relative ${className}`}>
+      <Search className="absolute left-3 top-5 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+      <Input
+        ref={inputRef}
+        role="combobox"
+        aria-expanded={isOpen}
+        aria-controls={listId}
+        aria-autocomplete="list"
+        aria-activedescendant={isOpen ? `${listId}-${active}` : undefined}
+        aria-invalid={errors.length > 0}
+        aria-describedby={errors.length > 0 ? errorId : undefined}
+        spellCheck={false}
+        autoComplete="off"
+        placeholder={placeholder}
+        value={value}
+        onChange={(e) => {
+          setIsDismissed(false);
+          setActiveIndex(0);
+          trackCursor(e);
+          onChange(e.target.value);
+        }}
+        onSelect={trackCursor}
+        onFocus={trackCursor}
+        onBlur={() => setCursor(null)}
+        onKeyDown={handleKeyDown}
+        className={`pl-10 ${errors.length > 0 ? 'border-destructive focus-visible:ring-destructive' : ''} ${inputClassName}`}
+      />
+
+      {isOpen && (
+        <ul
+          id={listId}
+          role="listbox"
+          aria-label="Suggestions"
+          className="absolute left-0 z-50 mt-1 w-full max-w-sm rounded-md border bg-popover py-1 shadow-elegant"
+        >
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={`${suggestion.detail}-${suggestion.label}`}
+              id={`${listId}-${index}`}
+              role="option"
+              aria-selected={index === active}
+              // Keep focus, and so the caret position, in the input
+              onMouseDown={(e) => {
+                e.preventDefault();
+                accept(suggestion);
+              }}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={`flex items-center justify-between gap-4 px-3 py-1.5 text-sm cursor-pointer ${
+                index === active ? 'bg-accent text-accent-foreground' : ''
+              }`}
+            >
+              <span className="truncate">{suggestion.label}</span>
+              <span className="text-xs text-muted-foreground shrink-0">{suggestion.detail}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {errors.length > 0 && (
+        <div id={errorId} className="mt-1 space-y-0.5">
+          {errors.map(error => (
+            <p
+              key={`${error.start}-${error.message}`}
+              className="text-sm text-destructive animate-in slide-in-from-left-1 duration-200"
+            >
+              {error.message}
+              <span className="text-muted-foreground"> in “{value.slice(error.start, error.end)}”</span>
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
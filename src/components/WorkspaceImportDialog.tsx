@@ -0,0 +1,228 @@
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { AlertTriangle, Upload } from 'lucide-react';
+import {
+  BackupError,
+  COLLECTION_LABELS,
+  parseWorkspaceBackup,
+  planWorkspaceImport,
+  type CollisionStrategy,
+  type ImportMode,
+  type ParsedBackup,
+  type WorkspaceImportPlan,
+} from '@/lib/workspaceBackup';
+import type { WorkspaceData } from '@/lib/schemaMigrations';
+
+interface WorkspaceImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  workspace: WorkspaceData;
+  onImport: (plan: WorkspaceImportPlan) => void;
+}
+
+const COLLISION_STRATEGIES: { value: CollisionStrategy; label: string }[] = [
+  { value: 'overwrite', label: 'Overwrite with the imported version' },
+  { value: 'skip', label: 'Keep the existing version' },
+  { value: 'duplicate', label: 'Import as copies with new IDs' },
+];
+
+export default function WorkspaceImportDialog({ open, onOpenChange, workspace, onImport }: WorkspaceImportDialogProps) {
+  const [fileName, setFileName] = useState('');
+  const [backup, setBackup] = useState<ParsedBackup | null>(null);
+  const [error, setError] = useState<BackupError | null>(null);
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [strategy, setStrategy] = useState<CollisionStrategy>('overwrite');
+
+  const plan = useMemo(
+    () => (backup ? planWorkspaceImport(workspace, backup.data, mode, strategy) : null),
+    [backup, workspace, mode, strategy]
+  );
+  const collisionCount = plan ? Object.values(plan.collisions).reduce((sum, count) => sum + count, 0) : 0;
+
+  const reset = () => {
+    setFileName('');
+    setBackup(null);
+    setError(null);
+    setMode('merge');
+    setStrategy('overwrite');
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    setBackup(null);
+    setError(null);
+    try {
+      setBackup(parseWorkspaceBackup(await file.text()));
+    } catch (parseError) {
+      setError(parseError instanceof BackupError ? parseError : new BackupError(String(parseError)));
+    }
+  };
+
+  const handleApply = () => {
+    if (!plan) return;
+    onImport(plan);
+    handleOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Workspace</DialogTitle>
+          <DialogDescription>
+            Restore item types, items and projects from a workspace backup file
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="workspaceFile">Backup file</Label>
+            <Input id="workspaceFile" type="file" accept=".json,application/json" onChange={handleFileChange} />
+          </div>
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>{fileName} cannot be imported</AlertTitle>
+              <AlertDescription>
+                <p>{error.message}</p>
+                {error.issues.length > 0 && (
+                  <ul className="mt-2 list-disc pl-4 space-y-1 max-h-40 overflow-y-auto">
+                    {error.issues.slice(0, 20).map((issue, index) => (
+                      <li key={index}>{issue}</li>
+                    ))}
+                    {error.issues.length > 20 && <li>+{error.issues.length - 20} more problems</li>}
+                  </ul>
+                )}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {backup && plan && (
+            <>
+              <p className="text-sm text-muted-foreground">
+                Exported {new Date(backup.exportedAt).toLocaleString()} · data version {backup.schemaVersion}
+              </p>
+
+              <div className="space-y-2">
+                <Label>Import mode</Label>
+                <RadioGroup value={mode} onValueChange={(value) => setMode(value as ImportMode)}>
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="merge" id="mode-merge" />
+                    <Label htmlFor="mode-merge" className="font-normal">Merge into the current workspace</Label>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="replace" id="mode-replace" />
+                    <Label htmlFor="mode-replace" className="font-normal">Replace the current workspace</Label>
+                  </div>
+                </RadioGroup>
+              </div>
+
+              {mode === 'merge' && collisionCount > 0 && (
+                <div className="space-y-2">
+                  <Label>
+                    {collisionCount} record{collisionCount === 1 ? '' : 's'} in the file already exist here
+                  </Label>
+                  <Select value={strategy} onValueChange={(value) => setStrategy(value as CollisionStrategy)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {COLLISION_STRATEGIES.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead></TableHead>
+                    <TableHead className="text-right">Added</TableHead>
+                    <TableHead className="text-right">Updated</TableHead>
+                    <TableHead className="text-right">Skipped</TableHead>
+                    <TableHead className="text-right">Removed</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {(Object.keys(COLLECTION_LABELS) as (keyof WorkspaceData)[]).map(key => (
+                    <TableRow key={key}>
+                      <TableCell className="font-medium">{COLLECTION_LABELS[key]}</TableCell>
+                      <TableCell className="text-right">{plan.summary[key].added}</TableCell>
+                      <TableCell className="text-right">{plan.summary[key].updated}</TableCell>
+                      <TableCell className="text-right">{plan.summary[key].skipped}</TableCell>
+                      <TableCell className="text-right">{plan.summary[key].removed}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              {backup.rejected.length > 0 && (
+                <Alert>
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertTitle>
+                    {backup.rejected.length} item{backup.rejected.length === 1 ? '' : 's'} will not be imported
+                  </AlertTitle>
+                  <AlertDescription>
+                    <ul className="mt-2 list-disc pl-4 space-y-1 max-h-40 overflow-y-auto">
+                      {backup.rejected.slice(0, 20).map(item => (
+                        <li key={item.id}>
+                          <span className="font-medium">{item.label}</span> ({item.typeName}): {item.problems.join('; ')}
+                        </li>
+                      ))}
+                      {backup.rejected.length > 20 && <li>+{backup.rejected.length - 20} more items</li>}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {mode === 'replace' && (
+                <p className="text-sm text-destructive">
+                  Everything not in the backup will be permanently deleted.
+                </p>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleApply}
+            disabled={!plan}
+            variant={mode === 'replace' ? 'destructive' : 'default'}
+            className={mode === 'replace' ? '' : 'bg-gradient-primary hover:shadow-glow transition-all duration-300'}
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            {mode === 'replace' ? 'Replace Workspace' : 'Import'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
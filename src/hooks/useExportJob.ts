@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { downloadBlob } from '@/lib/download';
+import type { ExportJob, ExportWorkerMessage } from '@/lib/exportJobs';
+
+export interface ExportProgress {
+  completed: number;
+  total: number;
+}
+
+// Builds exports in a web worker so large ones do not freeze the page. Only one export
+// runs at a time; cancelling terminates the worker and nothing is downloaded.
+export function useExportJob() {
+  const workerRef = useRef<Worker | null>(null);
+  const [progress, setProgress] = useState<ExportProgress | null>(null);
+  const { toast } = useToast();
+
+  const cancel = useCallback(() => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setProgress(null);
+  }, []);
+
+  useEffect(() => cancel, [cancel]);
+
+  const run = useCallback((job: ExportJob) => {
+    cancel();
+    const worker = new Worker(new URL('../workers/export.worker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+    setProgress({ completed: 0, total: job.items.length });
+
+    const fail = (message: string) => {
+      cancel();
+      toast({ title: "Export failed", description: message, variant: "destructive" });
+    };
+
+    worker.onmessage = (event: MessageEvent<ExportWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        setProgress({ completed: message.completed, total: message.total });
+      } else if (message.type === 'error') {
+        fail(message.message);
+      } else {
+        cancel();
+        if (message.file) downloadBlob(message.file.blob, message.file.fileName);
+      }
+    };
+    worker.onerror = (event) => {
+      event.preventDefault();
+      fail(event.message || 'The export could not be started.');
+    };
+    worker.postMessage(job);
+  }, [cancel, toast]);
+
+  return { run, cancel, progress };
+}
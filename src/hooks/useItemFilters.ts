@@ -0,0 +1,61 @@
+import { useMemo } from 'react';
+import { useSearchParam } from '@/hooks/useSearchParam';
+import type { ItemLookup } from '@/lib/fieldTypes';
+import {
+  createDataReader,
+  createItemMatcher,
+  itemColumns,
+  itemFacets,
+  parseItemFilters,
+  parseSortOrder,
+  serializeItemFilters,
+  serializeSortOrder,
+  sortItems,
+  type ItemFilters,
+  type SortOrder,
+} from '@/lib/itemFilters';
+import { compileQuery } from '@/lib/itemQuery';
+import type { ItemInstance } from '@/types/ItemType';
+
+// Search query, filters and sort order for a list of items, kept in the query string.
+// Only fields of the types present in the list are offered as filter columns, while
+// the query can name the fields of any type.
+export function useItemFilters(items: ItemInstance[], lookup: ItemLookup, searchTerm: string) {
+  const [sortText, setSortText] = useSearchParam('sort');
+  const [filterText, setFilterText] = useSearchParam('filter');
+  const filters = useMemo(() => parseItemFilters(filterText), [filterText]);
+  const sort = useMemo(() => parseSortOrder(sortText), [sortText]);
+  const { itemTypes } = lookup;
+
+  const columns = useMemo(
+    () => itemColumns(itemTypes.filter(type => items.some(item => item.typeId === type.id))),
+    [items, itemTypes]
+  );
+  const queryColumns = useMemo(() => itemColumns(itemTypes), [itemTypes]);
+  const query = useMemo(
+    () => compileQuery(searchTerm, queryColumns, { items: lookup.items, itemTypes }),
+    [searchTerm, queryColumns, lookup.items, itemTypes]
+  );
+
+  const { results, facets } = useMemo(() => {
+    const readData = createDataReader(itemTypes);
+    const matches = createItemMatcher(columns, filters, readData);
+    const searched = searchTerm ? items.filter(item => query.matches(item, readData)) : items;
+    return {
+      results: sortItems(searched.filter(item => matches(item)), columns, sort, readData),
+      facets: itemFacets(searched, itemTypes, columns, matches, readData),
+    };
+  }, [items, itemTypes, columns, filters, sort, searchTerm, query]);
+
+  return {
+    columns,
+    queryColumns,
+    queryErrors: query.errors,
+    filters,
+    sort,
+    results,
+    facets,
+    setFilters: (next: ItemFilters) => setFilterText(serializeItemFilters(next)),
+    setSort: (next: SortOrder | null) => setSortText(serializeSortOrder(next)),
+  };
+}
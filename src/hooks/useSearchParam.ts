@@ -0,0 +1,23 @@
+import { useCallback } from 'react';
+import { useSearchParams } from 'react-router-dom';
+
+// A query string parameter used as state, so searches and filters survive a reload and
+// can be shared. Updates replace the current history entry instead of adding one per
+// keystroke; an empty value removes the parameter.
+export function useSearchParam(name: string): [string, (value: string) => void] {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const setValue = useCallback((value: string) => {
+    setSearchParams(current => {
+      const next = new URLSearchParams(current);
+      if (value) {
+        next.set(name, value);
+      } else {
+        next.delete(name);
+      }
+      return next;
+    }, { replace: true });
+  }, [name, setSearchParams]);
+
+  return [searchParams.get(name) ?? '', setValue];
+}
@@ -0,0 +1,101 @@
+import { useLayoutEffect, useState } from 'react';
+import type { KeyboardEvent } from 'react';
+import { useWindowVirtualizer } from '@tanstack/react-virtual';
+
+interface WindowListOptions {
+  estimateSize: number; // row height in pixels before it is measured
+  gap?: number;
+  overscan?: number;
+}
+
+interface ListNavigationOptions {
+  count: number;
+  scrollToIndex: (index: number) => void;
+  onToggle: (index: number) => void; // Space
+  onOpen?: (index: number) => void; // Enter
+  onSelectAll?: () => void; // Ctrl+A or Cmd+A
+}
+
+const PAGE_SIZE = 10;
+
+// Renders only the rows near the viewport of a list that scrolls with the page. Attach
+// listRef to the element the rows start in, and virtualizer.measureElement to each row
+// together with data-index, so rows of differing heights are laid out correctly.
+export function useWindowList<T extends HTMLElement>(count: number, { estimateSize, gap, overscan = 8 }: WindowListOptions) {
+  const [element, listRef] = useState<T | null>(null);
+  const [offset, setOffset] = useState(0);
+
+  // Content above the list can grow or shrink, moving where it starts on the page
+  useLayoutEffect(() => {
+    if (!element) return;
+    const measure = () => setOffset(element.getBoundingClientRect().top + window.scrollY);
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(document.body);
+    return () => observer.disconnect();
+  }, [element]);
+
+  const virtualizer = useWindowVirtualizer({
+    count,
+    estimateSize: () => estimateSize,
+    gap,
+    overscan,
+    scrollMargin: offset,
+  });
+
+  return { listRef, virtualizer };
+}
+
+// Keyboard focus for lists whose rows are not all rendered: the list itself keeps focus
+// and tracks the active row by index, scrolling it into view as it moves, so arrows,
+// Home, End and Page Up/Down reach every row.
+export function useListNavigation({ count, scrollToIndex, onToggle, onOpen, onSelectAll }: ListNavigationOptions) {
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const current = Math.min(activeIndex, count - 1);
+
+  const moveTo = (index: number) => {
+    const next = Math.max(0, Math.min(index, count - 1));
+    setActiveIndex(next);
+    scrollToIndex(next);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLElement>) => {
+    // Keys pressed on checkboxes and buttons inside a row are theirs to handle
+    if (e.target !== e.currentTarget || count === 0) return;
+
+    switch (e.key) {
+      case 'ArrowDown':
+        moveTo(current + 1);
+        break;
+      case 'ArrowUp':
+        moveTo(current - 1);
+        break;
+      case 'PageDown':
+        moveTo(current + PAGE_SIZE);
+        break;
+      case 'PageUp':
+        moveTo(current - PAGE_SIZE);
+        break;
+      case 'Home':
+        moveTo(0);
+        break;
+      case 'End':
+        moveTo(count - 1);
+        break;
+      case ' ':
+        if (current === -1) return;
+        onToggle(current);
+        break;
+      case 'Enter':
+        if (current === -1 || !onOpen) return;
+        onOpen(current);
+        break;
+      default:
+        if (!onSelectAll || !(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'a') return;
+        onSelectAll();
+    }
+    e.preventDefault();
+  };
+
+  return { activeIndex: current, setActiveIndex, handleKeyDown };
+}
@@ -0,0 +1,112 @@
+import { useMemo } from 'react';
+import { useQuery, useQueryClient, type QueryClient } from '@tanstack/react-query';
+import { getDatabaseReport } from '@/lib/db';
+import { itemRepository, itemTypeRepository, projectRepository, replaceWorkspace, type Repository } from '@/lib/repository';
+import type { WorkspaceData } from '@/lib/schemaMigrations';
+import type { ItemInstance, ItemType } from '@/types/ItemType';
+import type { Project } from '@/types/Project';
+
+export const workspaceKeys = {
+  itemTypes: ['itemTypes'],
+  items: ['items'],
+  projects: ['projects'],
+  report: ['databaseReport'],
+} as const;
+
+// The database is the only writer, so cached lists never go stale on their own
+const queryOptions = { staleTime: Infinity, gcTime: Infinity } as const;
+
+export function useItemTypes() {
+  return useQuery({ queryKey: workspaceKeys.itemTypes, queryFn: itemTypeRepository.getAll, ...queryOptions });
+}
+
+export function useItems() {
+  return useQuery({ queryKey: workspaceKeys.items, queryFn: itemRepository.getAll, ...queryOptions });
+}
+
+export function useProjects() {
+  return useQuery({ queryKey: workspaceKeys.projects, queryFn: projectRepository.getAll, ...queryOptions });
+}
+
+// Schema upgrades and unreadable legacy data found while opening the database
+export function useDatabaseReport() {
+  return useQuery({ queryKey: workspaceKeys.report, queryFn: getDatabaseReport, ...queryOptions });
+}
+
+// Applies a change to the cached list straight away, then persists it. If the
+// write fails the list is reloaded from the database and the error rethrown.
+async function upsert<T extends { id: string }>(
+  queryClient: QueryClient,
+  queryKey: readonly string[],
+  repository: Repository<T>,
+  entities: T[]
+) {
+  if (entities.length === 0) return;
+  const byId = new Map(entities.map(entity => [entity.id, entity]));
+  queryClient.setQueryData<T[]>(queryKey, (current = []) => {
+    const existing = new Set(current.map(entity => entity.id));
+    return [
+      ...current.map(entity => byId.get(entity.id) ?? entity),
+      ...entities.filter(entity => !existing.has(entity.id)),
+    ];
+  });
+
+  try {
+    await repository.putMany(entities);
+  } catch (error) {
+    await queryClient.invalidateQueries({ queryKey });
+    throw error;
+  }
+}
+
+async function remove<T extends { id: string }>(
+  queryClient: QueryClient,
+  queryKey: readonly string[],
+  repository: Repository<T>,
+  ids: string[]
+) {
+  if (ids.length === 0) return;
+  const removed = new Set(ids);
+  queryClient.setQueryData<T[]>(queryKey, (current = []) => current.filter(entity => !removed.has(entity.id)));
+
+  try {
+    await repository.deleteMany(ids);
+  } catch (error) {
+    await queryClient.invalidateQueries({ queryKey });
+    throw error;
+  }
+}
+
+async function restore(queryClient: QueryClient, data: WorkspaceData) {
+  queryClient.setQueryData(workspaceKeys.itemTypes, data.itemTypes);
+  queryClient.setQueryData(workspaceKeys.items, data.items);
+  queryClient.setQueryData(workspaceKeys.projects, data.projects);
+
+  try {
+    await replaceWorkspace(data);
+  } catch (error) {
+    await Promise.all([workspaceKeys.itemTypes, workspaceKeys.items, workspaceKeys.projects]
+      .map(queryKey => queryClient.invalidateQueries({ queryKey })));
+    throw error;
+  }
+}
+
+export function useWorkspaceMutations() {
+  const queryClient = useQueryClient();
+
+  return useMemo(() => ({
+    saveItemTypes: (itemTypes: ItemType[]) =>
+      upsert(queryClient, workspaceKeys.itemTypes, itemTypeRepository, itemTypes),
+    deleteItemTypes: (ids: string[]) =>
+      remove(queryClient, workspaceKeys.itemTypes, itemTypeRepository, ids),
+    saveItems: (items: ItemInstance[]) =>
+      upsert(queryClient, workspaceKeys.items, itemRepository, items),
+    deleteItems: (ids: string[]) =>
+      remove(queryClient, workspaceKeys.items, itemRepository, ids),
+    saveProjects: (projects: Project[]) =>
+      upsert(queryClient, workspaceKeys.projects, projectRepository, projects),
+    deleteProjects: (ids: string[]) =>
+      remove(queryClient, workspaceKeys.projects, projectRepository, ids),
+    replaceWorkspace: (data: WorkspaceData) => restore(queryClient, data),
+  }), [queryClient]);
+}
@@ -0,0 +1,262 @@
+import * as XLSX from 'xlsx';
+import { format, isValid, parse } from 'date-fns';
+import {
+  formatFieldValue,
+  formulaResultField,
+  isEmptyFieldValue,
+  parseDateValue,
+  type ItemLookup
+} from '@/lib/fieldTypes';
+import { computeFormulaValues } from '@/lib/formula';
+import type { DownloadFile } from '@/lib/download';
+import type { ItemGroup } from '@/lib/itemExport';
+import type { SheetData } from '@/lib/spreadsheetImport';
+import type { FieldDefinition } from '@/types/ItemType';
+
+export type CsvDelimiter = ',' | ';' | '\t' | '|';
+export type CsvQuote = '"' | "'";
+export type CsvEncoding = 'utf-8' | 'windows-1252' | 'utf-16le';
+
+export interface CsvOptions {
+  delimiter: CsvDelimiter;
+  quote: CsvQuote;
+  includeBom: boolean; // lets Excel detect UTF-8 when opening the file
+  dateFormat: string; // date-fns pattern used for date fields
+}
+
+export interface CsvImportOptions {
+  delimiter: CsvDelimiter | 'auto';
+  quote: CsvQuote;
+  encoding: CsvEncoding;
+  dateFormat: string;
+}
+
+export interface CsvFile {
+  name: string;
+  content: string;
+}
+
+export const DELIMITERS: { value: CsvDelimiter; label: string }[] = [
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe (|)' },
+];
+
+export const QUOTES: { value: CsvQuote; label: string }[] = [
+  { value: '"', label: 'Double quote (")' },
+  { value: "'", label: "Single quote (')" },
+];
+
+export const ENCODINGS: { value: CsvEncoding; label: string }[] = [
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'windows-1252', label: 'Windows-1252 (Western)' },
+  { value: 'utf-16le', label: 'UTF-16' },
+];
+
+export const DATE_FORMATS = ['yyyy-MM-dd', 'dd/MM/yyyy', 'MM/dd/yyyy', 'dd.MM.yyyy'];
+
+export const DEFAULT_CSV_OPTIONS: CsvOptions = {
+  delimiter: ',',
+  quote: '"',
+  includeBom: true,
+  dateFormat: 'yyyy-MM-dd',
+};
+
+export const DEFAULT_CSV_IMPORT_OPTIONS: CsvImportOptions = {
+  delimiter: 'auto',
+  quote: '"',
+  encoding: 'utf-8',
+  dateFormat: 'yyyy-MM-dd',
+};
+
+const BOM = '\uFEFF';
+
+export const csvExtension = (delimiter: CsvDelimiter) => (delimiter === '\t' ? 'tsv' : 'csv');
+
+export const isDelimitedFile = (fileName: string) => /\.(csv|tsv|txt)$/i.test(fileName);
+
+// Numbers, dates and booleans are written plainly so other systems can parse them;
+// everything else uses the same text as the rest of the app
+export function toCsvValue(value: unknown, field: FieldDefinition, lookup: ItemLookup, options: CsvOptions): string {
+  if (isEmptyFieldValue(value)) return '';
+
+  switch (field.type) {
+    case 'formula':
+      return toCsvValue(value, formulaResultField(field), lookup, options);
+
+    case 'number':
+    case 'currency':
+    case 'percentage':
+    case 'rating':
+      return String(value);
+
+    case 'boolean':
+      return value === true || value === 'true' ? 'true' : 'false';
+
+    case 'date':
+    case 'datetime': {
+      const date = parseDateValue(value, field.type);
+      if (!date) return String(value);
+      return format(date, field.type === 'date' ? options.dateFormat : `${options.dateFormat} HH:mm`);
+    }
+
+    default:
+      return formatFieldValue(value, field, lookup);
+  }
+}
+
+// Spreadsheets run text starting with these characters as a formula, so exported files
+// prefix it with an apostrophe, as Excel does; numbers such as -5 are written as they are
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const escapeFormulaText = (value: string) =>
+  FORMULA_START.test(value) && Number.isNaN(Number(value)) ? `'${value}` : value;
+
+export function toCsv(rows: string[][], options: CsvOptions): string {
+  const { delimiter, quote } = options;
+  const escape = (value: string) =>
+    value.includes(delimiter) || value.includes(quote) || /[\r\n]/.test(value) || value !== value.trim()
+      ? `${quote}${value.split(quote).join(quote + quote)}${quote}`
+      : value;
+  const body = rows.map(row => row.map(escape).join(delimiter)).join('\r\n');
+  return options.includeBom ? BOM + body : body;
+}
+
+// One file per item type, with the same ID and Created At columns as the XLSX export
+export function buildCsvFiles(
+  groups: ItemGroup[],
+  lookup: ItemLookup,
+  options: CsvOptions,
+  onProgress?: (completedItems: number) => void
+): CsvFile[] {
+  const extension = csvExtension(options.delimiter);
+  const usedNames = new Set<string>();
+  let completed = 0;
+
+  return groups.map(({ itemType, items }) => {
+    const headers = ['ID', 'Created At', ...itemType.fields.map(field => field.name)];
+    const rows = items.map(item => {
+      const data = computeFormulaValues(itemType, item.data);
+      onProgress?.(++completed);
+      return [
+        item.id,
+        format(new Date(item.createdAt), options.dateFormat),
+        ...itemType.fields.map(field => toCsvValue(data[field.id], field, lookup, options)),
+      ];
+    });
+
+    const base = itemType.name.replace(/[\\/:*?"<>|]/g, '_').trim() || 'items';
+    let name = `${base}.${extension}`;
+    for (let n = 2; usedNames.has(name.toLowerCase()); n++) name = `${base} (${n}).${extension}`;
+    usedNames.add(name.toLowerCase());
+
+    const cells = [headers, ...rows].map(row => row.map(escapeFormulaText));
+    return { name, content: toCsv(cells, options) };
+  });
+}
+
+// Packs several files into one zip archive, using the zip writer bundled with SheetJS
+export function zipFiles(files: CsvFile[]): Blob {
+  const archive = XLSX.CFB.utils.cfb_new();
+  const encoder = new TextEncoder();
+  files.forEach(file => XLSX.CFB.utils.cfb_add(archive, file.name, encoder.encode(file.content)));
+  return new Blob([XLSX.CFB.write(archive, { fileType: 'zip', type: 'array', compression: true })], { type: 'application/zip' });
+}
+
+// A single file is saved as is; several are zipped into one download
+export function csvDownloadFile(files: CsvFile[], archiveName: string): DownloadFile | null {
+  if (files.length === 0) return null;
+  if (files.length === 1) {
+    const [file] = files;
+    const type = file.name.endsWith('.tsv') ? 'text/tab-separated-values' : 'text/csv';
+    return { blob: new Blob([file.content], { type: `${type};charset=utf-8` }), fileName: file.name };
+  }
+  return { blob: zipFiles(files), fileName: archiveName };
+}
+
+export function decodeCsv(bytes: ArrayBuffer, encoding: CsvEncoding): string {
+  const text = new TextDecoder(encoding).decode(bytes);
+  return text.startsWith(BOM) ? text.slice(1) : text;
+}
+
+// Picks whichever delimiter splits the first line into the most columns
+export function detectDelimiter(text: string): CsvDelimiter {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  let best: CsvDelimiter = ',';
+  let bestCount = 0;
+  DELIMITERS.forEach(({ value }) => {
+    const count = firstLine.split(value).length - 1;
+    if (count > bestCount) {
+      best = value;
+      bestCount = count;
+    }
+  });
+  return best;
+}
+
+export function parseCsv(text: string, delimiter: CsvDelimiter, quote: CsvQuote): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === quote && text[i + 1] === quote) {
+        value += quote;
+        i++;
+      } else if (char === quote) {
+        inQuotes = false;
+      } else {
+        value += char;
+      }
+    } else if (char === quote && value === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(value);
+      value = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(value);
+      rows.push(row);
+      row = [];
+      value = '';
+    } else {
+      value += char;
+    }
+  }
+  if (value !== '' || row.length > 0) {
+    row.push(value);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// Builds the same sheet structure the spreadsheet import reads. Cells matching the
+// chosen date format become dates, so they import and infer like spreadsheet dates.
+export function readCsvSheet(bytes: ArrayBuffer, name: string, options: CsvImportOptions): SheetData {
+  const text = decodeCsv(bytes, options.encoding);
+  const delimiter = options.delimiter === 'auto' ? detectDelimiter(text) : options.delimiter;
+  const referenceDate = new Date();
+  const toCell = (raw: string) => {
+    const trimmed = raw.trim();
+    if (trimmed && /\d/.test(trimmed)) {
+      const date = parse(trimmed, options.dateFormat, referenceDate);
+      const dateTime = isValid(date) ? date : parse(trimmed, `${options.dateFormat} HH:mm`, referenceDate);
+      if (isValid(dateTime)) return { value: dateTime, text: raw };
+    }
+    return { value: raw, text: raw };
+  };
+
+  const rows = parseCsv(text, delimiter, options.quote)
+    .map((cells, index) => ({ rowNumber: index + 1, cells: cells.map(toCell) }))
+    .filter(row => row.cells.some(cell => cell.text.trim() !== ''));
+
+  const [headerRow, ...dataRows] = rows;
+  const headers = (headerRow?.cells ?? []).map(
+    (cell, index) => cell.text.trim() || `Column ${XLSX.utils.encode_col(index)}`
+  );
+  return { name, headers, rows: dataRows };
+}
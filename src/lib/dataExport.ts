@@ -0,0 +1,357 @@
+import { computeFormulaValues } from '@/lib/formula';
+import { formulaResultField, isEmptyFieldValue, isNumericField, toArray, type ItemLookup } from '@/lib/fieldTypes';
+import { CREATED_AT_COLUMN, ID_COLUMN, findExportTemplate, resolveColumns, type ResolvedColumn } from '@/lib/exportTemplates';
+import { buildItemWorkbook, columnText, groupItemsByType, type WorkbookExportOptions } from '@/lib/itemExport';
+import { writeWorkbook } from '@/lib/xlsxExport';
+import { downloadBlob, type DownloadFile } from '@/lib/download';
+import type { ItemInstance, ItemType } from '@/types/ItemType';
+import type { Project } from '@/types/Project';
+
+export type ExportFormat = 'xlsx' | 'json' | 'xml' | 'markdown' | 'html';
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string; extension: string }[] = [
+  { value: 'xlsx', label: 'Excel workbook (.xlsx)', extension: 'xlsx' },
+  { value: 'json', label: 'JSON (.json)', extension: 'json' },
+  { value: 'xml', label: 'XML (.xml)', extension: 'xml' },
+  { value: 'markdown', label: 'Markdown tables (.md)', extension: 'md' },
+  { value: 'html', label: 'HTML tables (.html)', extension: 'html' },
+];
+
+export const EXPORT_FORMAT_NAME = 'item-scribe-items';
+export const XML_SCHEMA_FILE = `${EXPORT_FORMAT_NAME}.xsd`;
+
+type ExportScalar = string | number | boolean;
+
+interface ExportValue {
+  type: string; // the field type, or text and datetime for the ID and Created At columns
+  value: ExportScalar | string[];
+}
+
+interface ExportSection<Row> {
+  itemType: ItemType;
+  columns: ResolvedColumn[];
+  names: string[]; // column headers, made unique so they can be used as keys
+  rows: Row[];
+}
+
+function uniqueNames(headers: string[]): string[] {
+  const used = new Set<string>();
+  return headers.map(header => {
+    let name = header;
+    for (let n = 2; used.has(name.toLowerCase()); n++) name = `${header} (${n})`;
+    used.add(name.toLowerCase());
+    return name;
+  });
+}
+
+// Items grouped by type with the columns to export, each item rendered by renderRow
+function buildSections<Row>(
+  items: ItemInstance[],
+  lookup: ItemLookup,
+  options: WorkbookExportOptions,
+  renderRow: (columns: ResolvedColumn[], item: ItemInstance, data: Record<string, unknown>, names: string[]) => Row
+): ExportSection<Row>[] {
+  let completed = 0;
+  return groupItemsByType(items, lookup.itemTypes).map(({ itemType, items: typeItems }) => {
+    const columns = resolveColumns(itemType, findExportTemplate(itemType, options.templates?.[itemType.id]));
+    const names = uniqueNames(columns.map(column => column.header));
+    return {
+      itemType,
+      columns,
+      names,
+      rows: typeItems.map(item => {
+        const row = renderRow(columns, item, computeFormulaValues(itemType, item.data), names);
+        options.onProgress?.(++completed);
+        return row;
+      }),
+    };
+  });
+}
+
+const textRow = (lookup: ItemLookup) =>
+  (columns: ResolvedColumn[], item: ItemInstance, data: Record<string, unknown>) =>
+    columns.map(column => columnText(column, item, data, lookup));
+
+// A column's value with its native type: numbers, booleans, lists of choices or item ids,
+// and dates as stored (yyyy-MM-dd, or yyyy-MM-ddTHH:mm with a time). Columns a template
+// formats as text keep that text. Returns null for empty values.
+function exportValue(
+  column: ResolvedColumn,
+  item: ItemInstance,
+  data: Record<string, unknown>,
+  lookup: ItemLookup
+): ExportValue | null {
+  if (column.key === ID_COLUMN) return { type: 'text', value: item.id };
+  if (column.key === CREATED_AT_COLUMN) {
+    return column.format === 'text'
+      ? { type: 'text', value: columnText(column, item, data, lookup) }
+      : { type: 'datetime', value: item.createdAt };
+  }
+
+  const value = data[column.field.id];
+  if (isEmptyFieldValue(value)) return null;
+  if (column.format === 'text') return { type: 'text', value: columnText(column, item, data, lookup) };
+  if (column.format === 'raw') return { type: 'text', value: toArray(value).join(', ') };
+
+  const field = column.field.type === 'formula' ? formulaResultField(column.field) : column.field;
+  if (isNumericField(field.type)) {
+    const number = Number(value);
+    return { type: field.type, value: Number.isFinite(number) ? number : String(value) };
+  }
+  switch (field.type) {
+    case 'boolean':
+      return { type: field.type, value: value === true || value === 'true' };
+    case 'multiselect':
+      return { type: field.type, value: toArray(value) };
+    case 'reference':
+      return { type: field.type, value: field.reference?.multiple ? toArray(value) : String(value) };
+    default:
+      return { type: field.type, value: String(value) };
+  }
+}
+
+const projectDetails = (project: Project) => ({
+  name: project.name,
+  description: project.description,
+  location: project.location,
+  createdAt: project.createdAt,
+  updatedAt: project.updatedAt,
+});
+
+export function toJsonExport(items: ItemInstance[], lookup: ItemLookup, options: WorkbookExportOptions): string {
+  const sections = buildSections(items, lookup, options, (columns, item, data, names) =>
+    Object.fromEntries(columns.map((column, index) =>
+      [names[index], exportValue(column, item, data, lookup)?.value ?? null]
+    ))
+  );
+  return JSON.stringify({
+    format: EXPORT_FORMAT_NAME,
+    exportedAt: new Date().toISOString(),
+    ...(options.project ? { project: projectDetails(options.project) } : {}),
+    itemTypes: sections.map(({ itemType, rows }) => ({ id: itemType.id, name: itemType.name, items: rows })),
+  }, null, 2);
+}
+
+// Control characters other than tab and line breaks are not allowed in XML 1.0
+const isXmlCharacter = (char: string) => char >= ' ' || char === '\t' || char === '\n' || char === '\r';
+
+const escapeXml = (text: string) =>
+  Array.from(text)
+    .filter(isXmlCharacter)
+    .join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const xmlAttributes = (attributes: Record<string, string | undefined>) =>
+  Object.entries(attributes)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => ` ${name}="${escapeXml(value)}"`)
+    .join('');
+
+// Follows XML_SCHEMA: one <itemType> per type, one <item> per item, and a <value> per
+// non-empty column. List values (multiselect and multiple references) use <entry> children.
+export function toXmlExport(items: ItemInstance[], lookup: ItemLookup, options: WorkbookExportOptions): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<items${xmlAttributes({
+      'xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance',
+      'xsi:noNamespaceSchemaLocation': XML_SCHEMA_FILE,
+      exportedAt: new Date().toISOString(),
+    })}>`,
+  ];
+
+  if (options.project) {
+    const { name, description, location, createdAt, updatedAt } = projectDetails(options.project);
+    lines.push(
+      `  <project${xmlAttributes({ name, createdAt, updatedAt })}>`,
+      `    <description>${escapeXml(description)}</description>`,
+      `    <location>${escapeXml(location)}</location>`,
+      '  </project>'
+    );
+  }
+
+  const sections = buildSections(items, lookup, options, (columns, item, data, names) => [
+    `    <item${xmlAttributes({ id: item.id })}>`,
+    ...columns.flatMap((column, index) => {
+      const exported = exportValue(column, item, data, lookup);
+      if (!exported) return [];
+      const attributes = xmlAttributes({ name: names[index], key: column.key, type: exported.type });
+      const content = Array.isArray(exported.value)
+        ? exported.value.map(entry => `<entry>${escapeXml(entry)}</entry>`).join('')
+        : escapeXml(String(exported.value));
+      return [`      <value${attributes}>${content}</value>`];
+    }),
+    '    </item>',
+  ].join('\n'));
+  sections.forEach(({ itemType, rows }) => {
+    lines.push(`  <itemType${xmlAttributes({ id: itemType.id, name: itemType.name })}>`, ...rows, '  </itemType>');
+  });
+
+  lines.push('</items>');
+  return lines.join('\n');
+}
+
+export const XML_SCHEMA = `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema" elementFormDefault="qualified">
+  <xs:annotation>
+    <xs:documentation>
+      Items exported from Item Scribe. Items are grouped by item type. Each item has one
+      value per non-empty exported column. The name attribute is the column header. The
+      key attribute is the field id, or "id" and "createdAt" for the system columns. The
+      type attribute is the field type, or "text" for columns exported as text.
+      Values are written as follows:
+      - numbers (number, currency, percentage, rating) as decimals, percentages as 0-100;
+      - booleans as true or false;
+      - dates as yyyy-MM-dd and date-times as yyyy-MM-ddTHH:mm (ISO 8601 for createdAt);
+      - references as the ids of the referenced items;
+      - multiselect values and multiple references as a list of entry elements.
+    </xs:documentation>
+  </xs:annotation>
+
+  <xs:element name="items">
+    <xs:complexType>
+      <xs:sequence>
+        <xs:element name="project" minOccurs="0">
+          <xs:complexType>
+            <xs:sequence>
+              <xs:element name="description" type="xs:string"/>
+              <xs:element name="location" type="xs:string"/>
+            </xs:sequence>
+            <xs:attribute name="name" type="xs:string" use="required"/>
+            <xs:attribute name="createdAt" type="xs:string" use="required"/>
+            <xs:attribute name="updatedAt" type="xs:string" use="required"/>
+          </xs:complexType>
+        </xs:element>
+        <xs:element name="itemType" minOccurs="0" maxOccurs="unbounded">
+          <xs:complexType>
+            <xs:sequence>
+              <xs:element name="item" minOccurs="0" maxOccurs="unbounded">
+                <xs:complexType>
+                  <xs:sequence>
+                    <xs:element name="value" type="valueType" minOccurs="0" maxOccurs="unbounded"/>
+                  </xs:sequence>
+                  <xs:attribute name="id" type="xs:string" use="required"/>
+                </xs:complexType>
+              </xs:element>
+            </xs:sequence>
+            <xs:attribute name="id" type="xs:string" use="required"/>
+            <xs:attribute name="name" type="xs:string" use="required"/>
+          </xs:complexType>
+        </xs:element>
+      </xs:sequence>
+      <xs:attribute name="exportedAt" type="xs:dateTime" use="required"/>
+    </xs:complexType>
+  </xs:element>
+
+  <xs:complexType name="valueType" mixed="true">
+    <xs:sequence>
+      <xs:element name="entry" type="xs:string" minOccurs="0" maxOccurs="unbounded"/>
+    </xs:sequence>
+    <xs:attribute name="name" type="xs:string" use="required"/>
+    <xs:attribute name="key" type="xs:string" use="required"/>
+    <xs:attribute name="type" type="xs:string" use="required"/>
+  </xs:complexType>
+</xs:schema>
+`;
+
+// Table cells are one line and may not contain pipes; angle brackets would render as HTML
+const escapeMarkdown = (text: string) =>
+  text
+    .replace(/\\/g, '\\\\')
+    .replace(/\|/g, '\\|')
+    .replace(/</g, '&lt;')
+    .replace(/\r?\n/g, '<br>');
+
+export function toMarkdownExport(items: ItemInstance[], lookup: ItemLookup, options: WorkbookExportOptions): string {
+  const blocks: string[] = [];
+  if (options.project) {
+    const { project } = options;
+    blocks.push(`# ${project.name}`);
+    if (project.description) blocks.push(project.description);
+    if (project.location) blocks.push(`**Location:** ${project.location}`);
+  }
+
+  const row = (cells: string[]) => `| ${cells.map(escapeMarkdown).join(' | ')} |`;
+  buildSections(items, lookup, options, textRow(lookup)).forEach(({ itemType, columns, rows }) => {
+    blocks.push(
+      `${options.project ? '##' : '#'} ${itemType.name}`,
+      [
+        row(columns.map(column => column.header)),
+        `| ${columns.map(() => '---').join(' | ')} |`,
+        ...rows.map(row),
+      ].join('\n')
+    );
+  });
+  return blocks.join('\n\n') + '\n';
+}
+
+const escapeHtml = (text: string) => escapeXml(text).replace(/'/g, '&#39;');
+
+export function toHtmlExport(items: ItemInstance[], lookup: ItemLookup, options: WorkbookExportOptions): string {
+  const { project } = options;
+  const title = project ? project.name : 'Items';
+  const body: string[] = [`<h1>${escapeHtml(title)}</h1>`];
+  if (project?.description) body.push(`<p>${escapeHtml(project.description)}</p>`);
+  if (project?.location) body.push(`<p><strong>Location:</strong> ${escapeHtml(project.location)}</p>`);
+
+  buildSections(items, lookup, options, textRow(lookup)).forEach(({ itemType, columns, rows }) => {
+    body.push(
+      `<h2>${escapeHtml(itemType.name)}</h2>`,
+      '<table>',
+      `<thead><tr>${columns.map(column => `<th>${escapeHtml(column.header)}</th>`).join('')}</tr></thead>`,
+      '<tbody>',
+      ...rows.map(cells => `<tr>${cells.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`),
+      '</tbody>',
+      '</table>'
+    );
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 2rem; color: #1f2937; }
+  table { border-collapse: collapse; margin-bottom: 2rem; }
+  th, td { border: 1px solid #d1d5db; padding: 0.25rem 0.5rem; text-align: left; vertical-align: top; white-space: pre-line; }
+  th { background: #f3f4f6; }
+</style>
+</head>
+<body>
+${body.join('\n')}
+</body>
+</html>
+`;
+}
+
+const TEXT_EXPORTERS: Record<Exclude<ExportFormat, 'xlsx'>, { build: typeof toJsonExport; mimeType: string }> = {
+  json: { build: toJsonExport, mimeType: 'application/json' },
+  xml: { build: toXmlExport, mimeType: 'application/xml' },
+  markdown: { build: toMarkdownExport, mimeType: 'text/markdown' },
+  html: { build: toHtmlExport, mimeType: 'text/html' },
+};
+
+// Items in any export format; baseName gets the format's extension
+export function buildItemsFile(
+  exportFormat: ExportFormat,
+  items: ItemInstance[],
+  lookup: ItemLookup,
+  options: WorkbookExportOptions,
+  baseName: string
+): DownloadFile {
+  const { extension } = EXPORT_FORMATS.find(option => option.value === exportFormat);
+  const fileName = `${baseName}.${extension}`;
+  if (exportFormat === 'xlsx') {
+    const { workbook, tables } = buildItemWorkbook(items, lookup, options);
+    return { blob: writeWorkbook(workbook, tables), fileName };
+  }
+  const { build, mimeType } = TEXT_EXPORTERS[exportFormat];
+  return { blob: new Blob([build(items, lookup, options)], { type: `${mimeType};charset=utf-8` }), fileName };
+}
+
+export function downloadXmlSchema() {
+  downloadBlob(new Blob([XML_SCHEMA], { type: 'application/xml;charset=utf-8' }), XML_SCHEMA_FILE);
+}
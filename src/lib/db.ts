@@ -0,0 +1,156 @@
+import type { ItemInstance, ItemType } from '@/types/ItemType';
+import type { Project } from '@/types/Project';
+import { CURRENT_SCHEMA_VERSION, migrateWorkspace } from '@/lib/schemaMigrations';
+
+const DB_NAME = 'item-scribe';
+const DB_VERSION = 1;
+const META_STORE = 'meta';
+const LEGACY_MIGRATION_KEY = 'localStorageMigrated';
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+
+export interface StoreRecords {
+  itemTypes: ItemType;
+  items: ItemInstance;
+  projects: Project;
+}
+
+export type StoreName = keyof StoreRecords;
+
+export const STORE_NAMES: StoreName[] = ['itemTypes', 'items', 'projects'];
+
+// What happened while the database was opened, for the UI to report
+export interface DatabaseReport {
+  upgradedFrom?: number;
+  upgradedTo?: number;
+  warnings: string[];
+}
+
+// Wraps a single IndexedDB request in a promise
+export const promisifyRequest = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Resolves once every request in the transaction has been committed
+export const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+
+function upgrade(db: IDBDatabase) {
+  STORE_NAMES.forEach(name => {
+    if (db.objectStoreNames.contains(name)) return;
+    const store = db.createObjectStore(name, { keyPath: 'id' });
+    if (name === 'items') store.createIndex('typeId', 'typeId');
+  });
+  if (!db.objectStoreNames.contains(META_STORE)) {
+    db.createObjectStore(META_STORE);
+  }
+}
+
+// Returns null when the key holds something unreadable, so it is left in place
+const readLegacyKey = <T>(key: string): T[] | null => {
+  const raw = window.localStorage.getItem(key);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+// Copies data saved by earlier versions (one localStorage key per store) into
+// IndexedDB once. The old keys are removed only after the copy has committed.
+async function migrateFromLocalStorage(db: IDBDatabase, report: DatabaseReport) {
+  const check = db.transaction(META_STORE, 'readonly');
+  const migrated = await promisifyRequest(check.objectStore(META_STORE).get(LEGACY_MIGRATION_KEY));
+  if (migrated) return;
+
+  const copiedKeys: StoreName[] = [];
+  const transaction = db.transaction([...STORE_NAMES, META_STORE], 'readwrite');
+  STORE_NAMES.forEach(name => {
+    const records = readLegacyKey<StoreRecords[typeof name]>(name);
+    if (!records) {
+      report.warnings.push(
+        `Saved ${name === 'itemTypes' ? 'item types' : name} from an earlier version could not be read and were left in browser storage under "${name}".`
+      );
+      return;
+    }
+    const store = transaction.objectStore(name);
+    records.forEach(record => store.put(record));
+    copiedKeys.push(name);
+  });
+  transaction.objectStore(META_STORE).put(new Date().toISOString(), LEGACY_MIGRATION_KEY);
+  await transactionDone(transaction);
+
+  copiedKeys.forEach(name => window.localStorage.removeItem(name));
+}
+
+// Data stored without a version predates versioning, so it is treated as version 1.
+// All stores are rewritten in one transaction, so a failed upgrade leaves them untouched.
+async function upgradeSchema(db: IDBDatabase, report: DatabaseReport) {
+  const check = db.transaction(META_STORE, 'readonly');
+  const storedVersion = await promisifyRequest(check.objectStore(META_STORE).get(SCHEMA_VERSION_KEY));
+  const version = storedVersion === undefined ? 1 : Number(storedVersion);
+  if (version === CURRENT_SCHEMA_VERSION) return;
+
+  const read = db.transaction(STORE_NAMES, 'readonly');
+  const [itemTypes, items, projects] = await Promise.all(
+    STORE_NAMES.map(name => promisifyRequest(read.objectStore(name).getAll()))
+  );
+  const { data } = migrateWorkspace({ itemTypes, items, projects }, version);
+
+  const transaction = db.transaction([...STORE_NAMES, META_STORE], 'readwrite');
+  STORE_NAMES.forEach(name => {
+    const store = transaction.objectStore(name);
+    store.clear();
+    (data[name] as StoreRecords[typeof name][]).forEach(record => store.put(record));
+  });
+  transaction.objectStore(META_STORE).put(CURRENT_SCHEMA_VERSION, SCHEMA_VERSION_KEY);
+  await transactionDone(transaction);
+
+  report.upgradedFrom = version;
+  report.upgradedTo = CURRENT_SCHEMA_VERSION;
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+let databaseReport: DatabaseReport = { warnings: [] };
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => upgrade(request.result);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('Database upgrade is blocked by another open tab'));
+    })
+      .then(async db => {
+        const report: DatabaseReport = { warnings: [] };
+        try {
+          await migrateFromLocalStorage(db, report);
+          await upgradeSchema(db, report);
+        } catch (error) {
+          db.close();
+          throw error;
+        }
+        databaseReport = report;
+        return db;
+      })
+      .catch(error => {
+        // Allow a later call to retry instead of caching the failure
+        databasePromise = null;
+        throw error;
+      });
+  }
+  return databasePromise;
+}
+
+export async function getDatabaseReport(): Promise<DatabaseReport> {
+  await openDatabase();
+  return databaseReport;
+}
@@ -0,0 +1,21 @@
+export interface DownloadFile {
+  blob: Blob;
+  fileName: string;
+}
+
+// Saves a generated file through a temporary link, as XLSX.writeFile does for workbooks
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Some browsers start the download asynchronously, so release the URL afterwards
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export const todayStamp = () => new Date().toISOString().split('T')[0];
+
+export const safeFileName = (name: string) => name.replace(/[^a-zA-Z0-9]/g, '_');
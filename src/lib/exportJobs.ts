@@ -0,0 +1,44 @@
+import { buildCsvFiles, csvDownloadFile, type CsvOptions } from '@/lib/csv';
+import { buildItemsFile, type ExportFormat } from '@/lib/dataExport';
+import { groupItemsByType, type WorkbookExportOptions } from '@/lib/itemExport';
+import { buildProjectReport } from '@/lib/pdfReport';
+import type { DownloadFile } from '@/lib/download';
+import type { ItemLookup } from '@/lib/fieldTypes';
+import type { ItemInstance } from '@/types/ItemType';
+import type { Project } from '@/types/Project';
+
+// Everything an export needs, as plain data that can be posted to the export worker
+export type ExportJob =
+  | {
+      kind: 'items';
+      format: ExportFormat;
+      items: ItemInstance[];
+      lookup: ItemLookup;
+      options: Omit<WorkbookExportOptions, 'onProgress'>;
+      baseName: string;
+    }
+  | { kind: 'csv'; items: ItemInstance[]; lookup: ItemLookup; options: CsvOptions; archiveName: string }
+  | { kind: 'report'; project: Project; items: ItemInstance[]; lookup: ItemLookup; fileName: string };
+
+export type ExportWorkerMessage =
+  | { type: 'progress'; completed: number; total: number }
+  | { type: 'done'; file: DownloadFile | null }
+  | { type: 'error'; message: string };
+
+// Builds the file for a job; onProgress is called with the number of items written so far
+export function buildExportFile(job: ExportJob, onProgress: (completedItems: number) => void): DownloadFile | null {
+  switch (job.kind) {
+    case 'items':
+      return buildItemsFile(job.format, job.items, job.lookup, { ...job.options, onProgress }, job.baseName);
+
+    case 'csv': {
+      const groups = groupItemsByType(job.items, job.lookup.itemTypes);
+      return csvDownloadFile(buildCsvFiles(groups, job.lookup, job.options, onProgress), job.archiveName);
+    }
+
+    case 'report': {
+      const report = buildProjectReport(job.project, job.items, job.lookup, onProgress);
+      return { blob: report.output('blob'), fileName: job.fileName };
+    }
+  }
+}
@@ -0,0 +1,92 @@
+import { formulaResultField, isDateField } from '@/lib/fieldTypes';
+import type {
+  ExportColumn,
+  ExportColumnFormat,
+  ExportTemplate,
+  FieldDefinition,
+  ItemType
+} from '@/types/ItemType';
+
+export const ID_COLUMN = 'id';
+export const CREATED_AT_COLUMN = 'createdAt';
+
+export const SYSTEM_COLUMNS = [
+  { key: ID_COLUMN, name: 'ID' },
+  { key: CREATED_AT_COLUMN, name: 'Created At' },
+];
+
+export const COLUMN_FORMATS: { value: ExportColumnFormat; label: string; numberFormat?: string }[] = [
+  { value: 'auto', label: 'Field default' },
+  { value: 'text', label: 'As displayed' },
+  { value: 'raw', label: 'Stored value' },
+  { value: 'integer', label: 'Whole number (1,235)', numberFormat: '#,##0' },
+  { value: 'decimal', label: 'Two decimals (1,234.50)', numberFormat: '#,##0.00' },
+  { value: 'date', label: 'Date (2026-01-31)', numberFormat: 'yyyy-mm-dd' },
+  { value: 'date-dmy', label: 'Date (31/01/2026)', numberFormat: 'dd/mm/yyyy' },
+  { value: 'date-mdy', label: 'Date (01/31/2026)', numberFormat: 'mm/dd/yyyy' },
+  { value: 'datetime', label: 'Date and time', numberFormat: 'yyyy-mm-dd hh:mm' },
+];
+
+const NUMBER_FORMATS: ExportColumnFormat[] = ['integer', 'decimal'];
+const DATE_FORMATS: ExportColumnFormat[] = ['date', 'date-dmy', 'date-mdy', 'datetime'];
+
+// A template column matched to what it exports; field is unset for system columns
+export interface ResolvedColumn {
+  key: string;
+  header: string;
+  format: ExportColumnFormat;
+  field?: FieldDefinition;
+}
+
+export const columnName = (itemType: ItemType, key: string) =>
+  SYSTEM_COLUMNS.find(column => column.key === key)?.name ??
+  itemType.fields.find(field => field.id === key)?.name;
+
+// Formats that make sense for a column; number formats only apply to numeric cells
+export function columnFormats(itemType: ItemType, key: string): ExportColumnFormat[] {
+  const basic: ExportColumnFormat[] = ['auto', 'text', 'raw'];
+  if (key === CREATED_AT_COLUMN) return [...basic, ...DATE_FORMATS];
+
+  const field = itemType.fields.find(other => other.id === key);
+  if (!field) return basic;
+  const { type } = field.type === 'formula' ? formulaResultField(field) : field;
+  if (isDateField(type)) return [...basic, ...DATE_FORMATS];
+  if (type === 'number' || type === 'currency' || type === 'rating') return [...basic, ...NUMBER_FORMATS];
+  return basic;
+}
+
+// Every system column and field, in the order the export writes them without a template
+export const defaultColumns = (itemType: ItemType): ExportColumn[] =>
+  [...SYSTEM_COLUMNS.map(column => column.key), ...itemType.fields.map(field => field.id)]
+    .map(key => ({ key, header: '', format: 'auto' }));
+
+// Columns of fields deleted since the template was saved are dropped
+export function resolveColumns(itemType: ItemType, template?: ExportTemplate): ResolvedColumn[] {
+  return (template?.columns ?? defaultColumns(itemType)).flatMap(column => {
+    const name = columnName(itemType, column.key);
+    if (name === undefined) return [];
+    return [{
+      ...column,
+      header: column.header.trim() || name,
+      field: itemType.fields.find(field => field.id === column.key),
+    }];
+  });
+}
+
+export const findExportTemplate = (itemType: ItemType, templateId?: string) =>
+  itemType.exportTemplates?.find(template => template.id === templateId);
+
+export function saveExportTemplate(itemType: ItemType, template: ExportTemplate): ItemType {
+  const templates = itemType.exportTemplates ?? [];
+  return {
+    ...itemType,
+    exportTemplates: templates.some(other => other.id === template.id)
+      ? templates.map(other => (other.id === template.id ? template : other))
+      : [...templates, template],
+  };
+}
+
+export const deleteExportTemplate = (itemType: ItemType, templateId: string): ItemType => ({
+  ...itemType,
+  exportTemplates: (itemType.exportTemplates ?? []).filter(template => template.id !== templateId),
+});
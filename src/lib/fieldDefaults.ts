@@ -0,0 +1,64 @@
+import { format } from 'date-fns';
+import { isDateField, isEmptyFieldValue } from '@/lib/fieldTypes';
+import type { AutoNumberConfig, FieldDefinition, ItemInstance, ItemType } from '@/types/ItemType';
+
+export const DEFAULT_AUTO_NUMBER: AutoNumberConfig = { prefix: '', padding: 5, nextValue: 1 };
+
+export const formatAutoNumber = (config: AutoNumberConfig = DEFAULT_AUTO_NUMBER, value = config.nextValue) =>
+  `${config.prefix}${String(value).padStart(config.padding, '0')}`;
+
+export const supportsTodayDefault = (field: Partial<FieldDefinition>) => isDateField(field.type);
+
+export function findLastItemOfType(items: ItemInstance[], typeId: string) {
+  return items
+    .filter(item => item.typeId === typeId)
+    .reduce<ItemInstance | undefined>(
+      (latest, item) => (!latest || item.createdAt > latest.createdAt ? item : latest),
+      undefined
+    );
+}
+
+export function resolveDefaultValue(field: FieldDefinition, lastItem?: ItemInstance): unknown {
+  const fallback = field.defaultValue;
+  if (!fallback || field.type === 'autonumber') return undefined;
+
+  switch (fallback.kind) {
+    case 'static':
+      return fallback.value;
+    case 'today':
+      return format(new Date(), field.type === 'datetime' ? "yyyy-MM-dd'T'HH:mm" : 'yyyy-MM-dd');
+    case 'lastUsed':
+      return lastItem?.data[field.id];
+    default:
+      return undefined;
+  }
+}
+
+// Initial form data for a new item of the given type
+export function resolveDefaultValues(itemType: ItemType, lastItem?: ItemInstance) {
+  return itemType.fields.reduce((acc, field) => {
+    const value = resolveDefaultValue(field, lastItem);
+    if (!isEmptyFieldValue(value)) acc[field.id] = value;
+    return acc;
+  }, {} as Record<string, unknown>);
+}
+
+// Fills empty auto-number fields and advances their sequences. The returned type
+// must be persisted alongside the items so numbers are never handed out twice.
+export function assignAutoNumbers(itemType: ItemType, items: ItemInstance[]) {
+  const fields = itemType.fields.map(field =>
+    field.type === 'autonumber' ? { ...field, autoNumber: { ...DEFAULT_AUTO_NUMBER, ...field.autoNumber } } : field
+  );
+
+  const numberedItems = items.map(item => {
+    const data = { ...item.data };
+    fields.forEach(field => {
+      if (field.type !== 'autonumber' || !isEmptyFieldValue(data[field.id])) return;
+      data[field.id] = formatAutoNumber(field.autoNumber);
+      field.autoNumber.nextValue += 1;
+    });
+    return { ...item, data };
+  });
+
+  return { itemType: { ...itemType, fields }, items: numberedItems };
+}
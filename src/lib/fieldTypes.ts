@@ -0,0 +1,230 @@
+import type { CellObject } from 'xlsx';
+import type { FieldDefinition, FieldType, ItemInstance, ItemType } from '@/types/ItemType';
+
+export const FIELD_TYPES: { value: FieldType; label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'longtext', label: 'Long Text' },
+  { value: 'number', label: 'Number' },
+  { value: 'currency', label: 'Currency' },
+  { value: 'percentage', label: 'Percentage' },
+  { value: 'rating', label: 'Rating' },
+  { value: 'boolean', label: 'Checkbox' },
+  { value: 'email', label: 'Email' },
+  { value: 'url', label: 'URL' },
+  { value: 'phone', label: 'Phone' },
+  { value: 'date', label: 'Date' },
+  { value: 'datetime', label: 'Date & Time' },
+  { value: 'select', label: 'Select (Dropdown)' },
+  { value: 'multiselect', label: 'Multi-select' },
+  { value: 'autonumber', label: 'Auto Number' },
+  { value: 'reference', label: 'Reference (Link to Items)' },
+  { value: 'formula', label: 'Formula' },
+];
+
+// Everything needed to turn stored item ids into readable labels
+export interface ItemLookup {
+  items: ItemInstance[];
+  itemTypes: ItemType[];
+}
+
+export const RATING_MAX = 5;
+export const DEFAULT_CURRENCY = 'USD';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+// Commas only as thousands separators, so "1,5" is never read as 15
+export const NUMBER_TEXT = /^[-+]?(\d{1,3}(,\d{3})+|\d+)(\.\d+)?$/;
+
+export const hasOptions = (type?: FieldType) => type === 'select' || type === 'multiselect';
+
+export const isNumericField = (type?: FieldType) =>
+  type === 'number' || type === 'currency' || type === 'percentage' || type === 'rating';
+
+export const isTextField = (type?: FieldType) =>
+  type === 'text' || type === 'longtext' || type === 'email' || type === 'url' || type === 'phone';
+
+export const isDateField = (type?: FieldType) => type === 'date' || type === 'datetime';
+
+// Formula values are displayed and exported like a plain field of their result type
+export const formulaResultField = (field: FieldDefinition): FieldDefinition => ({
+  ...field,
+  type: field.formula?.resultType ?? 'text'
+});
+
+export const isEmptyFieldValue = (value: unknown) =>
+  value === undefined ||
+  value === null ||
+  value === '' ||
+  (Array.isArray(value) && value.length === 0);
+
+export const isValidEmail = (value: string) => EMAIL_PATTERN.test(value);
+
+export const isValidUrl = (value: string) => {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+export const toArray = (value: unknown): string[] => {
+  if (Array.isArray(value)) return value.map(String);
+  if (isEmptyFieldValue(value)) return [];
+  return String(value).split(',').map(part => part.trim()).filter(Boolean);
+};
+
+const LABEL_FIELD_TYPES: FieldType[] = ['text', 'autonumber', 'email', 'phone', 'select', 'number'];
+
+// Label used wherever an item is referenced: the configured display field, else the
+// first text-like field of its type, else its id
+export function getItemLabel(item: ItemInstance, itemTypes: ItemType[], displayFieldId?: string): string {
+  const itemType = itemTypes.find(type => type.id === item.typeId);
+  const displayField =
+    itemType?.fields.find(field => field.id === displayFieldId) ??
+    itemType?.fields.find(field => LABEL_FIELD_TYPES.includes(field.type) && !isEmptyFieldValue(item.data[field.id]));
+
+  const label = displayField ? formatFieldValue(item.data[displayField.id], displayField) : '';
+  return label || item.id;
+}
+
+// Items by id, indexed once per items array; the arrays are replaced rather than mutated
+const itemIndexes = new WeakMap<ItemInstance[], Map<string, ItemInstance>>();
+
+const findItem = (items: ItemInstance[], id: string) => {
+  let index = itemIndexes.get(items);
+  if (!index) {
+    index = new Map(items.map(item => [item.id, item]));
+    itemIndexes.set(items, index);
+  }
+  return index.get(id);
+};
+
+export function getReferencedItems(value: unknown, lookup: ItemLookup): ItemInstance[] {
+  const ids = Array.isArray(value) ? value.map(String) : isEmptyFieldValue(value) ? [] : [String(value)];
+  return ids
+    .map(id => findItem(lookup.items, id))
+    .filter((item): item is ItemInstance => !!item);
+}
+
+export function formatFieldValue(value: unknown, field: FieldDefinition, lookup?: ItemLookup): string {
+  if (isEmptyFieldValue(value)) return '';
+
+  switch (field.type) {
+    case 'formula':
+      return formatFieldValue(value, formulaResultField(field));
+
+    case 'reference':
+      if (!lookup) return toArray(value).join(', ');
+      return getReferencedItems(value, lookup)
+        .map(item => getItemLabel(item, lookup.itemTypes, field.reference?.displayFieldId))
+        .join(', ');
+
+    case 'boolean':
+      return value === true || value === 'true' ? 'Yes' : 'No';
+
+    case 'date':
+      return new Date(String(value)).toLocaleDateString();
+
+    case 'datetime':
+      return new Date(String(value)).toLocaleString();
+
+    case 'currency':
+      try {
+        return new Intl.NumberFormat(undefined, {
+          style: 'currency',
+          currency: field.currencyCode || DEFAULT_CURRENCY
+        }).format(Number(value));
+      } catch {
+        return `${value} ${field.currencyCode || DEFAULT_CURRENCY}`;
+      }
+
+    case 'percentage':
+      return `${value}%`;
+
+    case 'rating': {
+      const stars = Math.max(0, Math.min(RATING_MAX, Math.round(Number(value))));
+      return '★'.repeat(stars) + '☆'.repeat(RATING_MAX - stars);
+    }
+
+    case 'multiselect':
+      return toArray(value).join(', ');
+
+    default:
+      return String(value);
+  }
+}
+
+// Excel stores dates as days since 1899-12-30, in local wall-clock time
+const toExcelSerial = (date: Date) =>
+  (Date.UTC(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate(),
+    date.getHours(),
+    date.getMinutes(),
+    date.getSeconds()
+  ) - Date.UTC(1899, 11, 30)) / 86400000;
+
+// A real date cell, so Excel can sort and filter it, rather than locale-formatted text
+export const toExcelDate = (date: Date, withTime = false): CellObject => ({
+  t: 'n',
+  v: toExcelSerial(date),
+  z: withTime ? 'yyyy-mm-dd hh:mm' : 'yyyy-mm-dd'
+});
+
+export const parseDateValue = (value: unknown, type: FieldType) => {
+  const raw = String(value);
+  // Plain yyyy-MM-dd strings are parsed as UTC by Date; pin them to local midnight
+  const date = type === 'date' && /^\d{4}-\d{2}-\d{2}$/.test(raw) ? new Date(`${raw}T00:00`) : new Date(raw);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+export function toExcelCell(value: unknown, field: FieldDefinition, lookup?: ItemLookup): CellObject | string {
+  if (isEmptyFieldValue(value)) return '';
+
+  switch (field.type) {
+    case 'reference':
+      return formatFieldValue(value, field, lookup);
+
+    case 'formula':
+      return toExcelCell(value, formulaResultField(field));
+
+    case 'number':
+    case 'rating': {
+      const number = Number(value);
+      return Number.isNaN(number) ? String(value) : { t: 'n', v: number };
+    }
+
+    case 'currency': {
+      const number = Number(value);
+      if (Number.isNaN(number)) return String(value);
+      return { t: 'n', v: number, z: `[$${field.currencyCode || DEFAULT_CURRENCY}] #,##0.00` };
+    }
+
+    case 'percentage': {
+      const number = Number(value);
+      return Number.isNaN(number) ? String(value) : { t: 'n', v: number / 100, z: '0.00%' };
+    }
+
+    case 'boolean':
+      return { t: 'b', v: value === true || value === 'true' };
+
+    case 'date':
+    case 'datetime': {
+      const date = parseDateValue(value, field.type);
+      return date ? toExcelDate(date, field.type === 'datetime') : String(value);
+    }
+
+    case 'url':
+      return { t: 's', v: String(value), l: { Target: String(value) } };
+
+    case 'email':
+      return { t: 's', v: String(value), l: { Target: `mailto:${value}` } };
+
+    case 'multiselect':
+      return { t: 's', v: toArray(value).join(', ') };
+
+    default:
+      return String(value);
+  }
+}
@@ -0,0 +1,691 @@
+import { differenceInCalendarDays, addDays, format, isValid, parseISO } from 'date-fns';
+import { isEmptyFieldValue, toArray } from '@/lib/fieldTypes';
+import type { CellObject } from 'xlsx';
+import type { FieldDefinition, FormulaResultType, ItemType } from '@/types/ItemType';
+
+// A small expression language for formula fields. Expressions are tokenized and parsed
+// into an AST, type checked against the item type, then interpreted; nothing is eval'd.
+//
+//   quantity * unit_price
+//   concat(first, ' ', last)
+//   if({Due Date} < today(), 'Overdue', 'On time')
+//
+// Fields are referenced by name with spaces replaced by underscores (case-insensitive),
+// or by their exact name wrapped in braces.
+
+export class FormulaError extends Error {
+  constructor(message: string, public position?: number) {
+    super(message);
+    this.name = 'FormulaError';
+  }
+}
+
+type ValueType = FormulaResultType | 'any';
+
+type FormulaNode =
+  | { kind: 'number'; value: number }
+  | { kind: 'string'; value: string }
+  | { kind: 'boolean'; value: boolean }
+  | { kind: 'field'; name: string; position: number }
+  | { kind: 'unary'; operator: '-' | '!'; operand: FormulaNode }
+  | { kind: 'binary'; operator: string; left: FormulaNode; right: FormulaNode }
+  | { kind: 'call'; name: string; args: FormulaNode[]; position: number };
+
+interface Token {
+  type: 'number' | 'string' | 'identifier' | 'field' | 'operator' | 'paren' | 'comma' | 'end';
+  value: string;
+  position: number;
+}
+
+const OPERATORS = ['&&', '||', '==', '!=', '<>', '<=', '>=', '<', '>', '=', '+', '-', '*', '/', '%', '&', '!'];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    if (/[0-9.]/.test(char)) {
+      const match = /^\d*\.?\d+(?:[eE][-+]?\d+)?/.exec(source.slice(index));
+      if (!match) throw new FormulaError(`Unexpected "${char}"`, index);
+      tokens.push({ type: 'number', value: match[0], position: index });
+      index += match[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = '';
+      let end = index + 1;
+      while (end < source.length && source[end] !== char) {
+        if (source[end] === '\\' && end + 1 < source.length) end++;
+        value += source[end];
+        end++;
+      }
+      if (end >= source.length) throw new FormulaError('Unterminated string', index);
+      tokens.push({ type: 'string', value, position: index });
+      index = end + 1;
+      continue;
+    }
+
+    if (char === '{') {
+      const end = source.indexOf('}', index);
+      if (end === -1) throw new FormulaError('Missing closing "}"', index);
+      tokens.push({ type: 'field', value: source.slice(index + 1, end).trim(), position: index });
+      index = end + 1;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(index));
+      tokens.push({ type: 'identifier', value: match[0], position: index });
+      index += match[0].length;
+      continue;
+    }
+
+    if (char === '(' || char === ')') {
+      tokens.push({ type: 'paren', value: char, position: index });
+      index++;
+      continue;
+    }
+
+    if (char === ',') {
+      tokens.push({ type: 'comma', value: char, position: index });
+      index++;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, index));
+    if (!operator) throw new FormulaError(`Unexpected "${char}"`, index);
+    tokens.push({ type: 'operator', value: operator, position: index });
+    index += operator.length;
+  }
+
+  tokens.push({ type: 'end', value: '', position: source.length });
+  return tokens;
+}
+
+// Binding power of each binary operator, lowest first
+const PRECEDENCE: Record<string, number> = {
+  '||': 1, or: 1,
+  '&&': 2, and: 2,
+  '==': 3, '=': 3, '!=': 3, '<>': 3,
+  '<': 4, '<=': 4, '>': 4, '>=': 4,
+  '&': 5,
+  '+': 6, '-': 6,
+  '*': 7, '/': 7, '%': 7,
+};
+
+const normalizeOperator = (operator: string) =>
+  ({ '=': '==', '<>': '!=', and: '&&', or: '||' } as Record<string, string>)[operator] ?? operator;
+
+export function parseFormula(source: string): FormulaNode {
+  const tokens = tokenize(source);
+  let current = 0;
+
+  const peek = () => tokens[current];
+  const next = () => tokens[current++];
+
+  const binaryOperator = () => {
+    const token = peek();
+    if (token.type === 'operator' && token.value in PRECEDENCE) return token.value;
+    if (token.type === 'identifier' && ['and', 'or'].includes(token.value.toLowerCase())) {
+      return token.value.toLowerCase();
+    }
+    return null;
+  };
+
+  const parsePrimary = (): FormulaNode => {
+    const token = next();
+
+    switch (token.type) {
+      case 'number':
+        return { kind: 'number', value: Number(token.value) };
+      case 'string':
+        return { kind: 'string', value: token.value };
+      case 'field':
+        return { kind: 'field', name: token.value, position: token.position };
+      case 'identifier': {
+        const lower = token.value.toLowerCase();
+        if (lower === 'true' || lower === 'false') return { kind: 'boolean', value: lower === 'true' };
+        if (lower === 'not') return { kind: 'unary', operator: '!', operand: parseExpression(8) };
+        if (peek().type === 'paren' && peek().value === '(') {
+          next();
+          const args: FormulaNode[] = [];
+          if (!(peek().type === 'paren' && peek().value === ')')) {
+            args.push(parseExpression(0));
+            while (peek().type === 'comma') {
+              next();
+              args.push(parseExpression(0));
+            }
+          }
+          const closing = next();
+          if (closing.type !== 'paren' || closing.value !== ')') {
+            throw new FormulaError(`Expected ")" to close ${token.value}(`, closing.position);
+          }
+          return { kind: 'call', name: lower, args, position: token.position };
+        }
+        return { kind: 'field', name: token.value, position: token.position };
+      }
+      case 'operator':
+        if (token.value === '-' || token.value === '!') {
+          return { kind: 'unary', operator: token.value, operand: parseExpression(8) };
+        }
+        break;
+      case 'paren':
+        if (token.value === '(') {
+          const expression = parseExpression(0);
+          const closing = next();
+          if (closing.type !== 'paren' || closing.value !== ')') {
+            throw new FormulaError('Expected ")"', closing.position);
+          }
+          return expression;
+        }
+        break;
+    }
+
+    throw new FormulaError(
+      token.type === 'end' ? 'Unexpected end of formula' : `Unexpected "${token.value}"`,
+      token.position
+    );
+  };
+
+  const parseExpression = (minPrecedence: number): FormulaNode => {
+    let left = parsePrimary();
+    let operator = binaryOperator();
+
+    while (operator && PRECEDENCE[operator] > minPrecedence) {
+      next();
+      const right = parseExpression(PRECEDENCE[operator]);
+      left = { kind: 'binary', operator: normalizeOperator(operator), left, right };
+      operator = binaryOperator();
+    }
+
+    return left;
+  };
+
+  if (!source.trim()) throw new FormulaError('Formula is empty', 0);
+  const ast = parseExpression(0);
+  const trailing = peek();
+  if (trailing.type !== 'end') throw new FormulaError(`Unexpected "${trailing.value}"`, trailing.position);
+  return ast;
+}
+
+export const toFormulaIdentifier = (name: string) => name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_');
+
+export function findFieldByReference(fields: FieldDefinition[], name: string) {
+  return (
+    fields.find(field => field.name === name) ??
+    fields.find(field => toFormulaIdentifier(field.name) === toFormulaIdentifier(name))
+  );
+}
+
+export function formulaValueType(field: FieldDefinition): ValueType {
+  switch (field.type) {
+    case 'number':
+    case 'currency':
+    case 'percentage':
+    case 'rating':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'date':
+    case 'datetime':
+      return 'date';
+    case 'formula':
+      return field.formula?.resultType ?? 'any';
+    default:
+      return 'text';
+  }
+}
+
+interface FunctionSignature {
+  args: ValueType[];
+  variadic?: boolean; // the last argument type may repeat
+  optional?: number; // how many trailing arguments may be omitted
+  returns: ValueType | ((args: ValueType[]) => ValueType);
+}
+
+const FUNCTIONS: Record<string, FunctionSignature> = {
+  concat: { args: ['any'], variadic: true, returns: 'text' },
+  upper: { args: ['text'], returns: 'text' },
+  lower: { args: ['text'], returns: 'text' },
+  trim: { args: ['text'], returns: 'text' },
+  len: { args: ['text'], returns: 'number' },
+  round: { args: ['number', 'number'], optional: 1, returns: 'number' },
+  floor: { args: ['number'], returns: 'number' },
+  ceil: { args: ['number'], returns: 'number' },
+  abs: { args: ['number'], returns: 'number' },
+  min: { args: ['number'], variadic: true, returns: 'number' },
+  max: { args: ['number'], variadic: true, returns: 'number' },
+  today: { args: [], returns: 'date' },
+  days_between: { args: ['date', 'date'], returns: 'number' },
+  add_days: { args: ['date', 'number'], returns: 'date' },
+  date: { args: ['text'], returns: 'date' },
+  if: {
+    args: ['boolean', 'any', 'any'],
+    returns: ([, whenTrue, whenFalse]) => (whenTrue === whenFalse ? whenTrue : 'any'),
+  },
+};
+
+export const FORMULA_FUNCTIONS = Object.keys(FUNCTIONS);
+
+const isCompatible = (actual: ValueType, expected: ValueType) =>
+  actual === 'any' || expected === 'any' || actual === expected;
+
+// Infers the result type of a formula, throwing a FormulaError for unknown fields,
+// wrong argument types or formulas that depend on themselves
+export function checkFormula(
+  source: string,
+  fields: FieldDefinition[],
+  selfFieldId?: string
+): FormulaResultType | 'any' {
+  const ast = parseFormula(source);
+
+  const check = (node: FormulaNode, visiting: Set<string>): ValueType => {
+    switch (node.kind) {
+      case 'number':
+        return 'number';
+      case 'string':
+        return 'text';
+      case 'boolean':
+        return 'boolean';
+
+      case 'field': {
+        const field = findFieldByReference(fields, node.name);
+        if (!field) throw new FormulaError(`Unknown field "${node.name}"`, node.position);
+        if (field.id === selfFieldId || visiting.has(field.id)) {
+          throw new FormulaError(`"${field.name}" refers back to itself`, node.position);
+        }
+        if (field.type === 'formula' && field.formula?.expression) {
+          const nested = new Set(visiting).add(field.id);
+          return check(parseFormula(field.formula.expression), nested);
+        }
+        return formulaValueType(field);
+      }
+
+      case 'unary': {
+        const operand = check(node.operand, visiting);
+        const expected = node.operator === '-' ? 'number' : 'boolean';
+        if (!isCompatible(operand, expected)) {
+          throw new FormulaError(`"${node.operator}" expects a ${expected}, got ${operand}`);
+        }
+        return expected;
+      }
+
+      case 'binary': {
+        const left = check(node.left, visiting);
+        const right = check(node.right, visiting);
+        switch (node.operator) {
+          case '&':
+            return 'text';
+          case '&&':
+          case '||':
+            if (!isCompatible(left, 'boolean') || !isCompatible(right, 'boolean')) {
+              throw new FormulaError(`"${node.operator}" expects yes/no values`);
+            }
+            return 'boolean';
+          case '==':
+          case '!=':
+            return 'boolean';
+          case '<':
+          case '<=':
+          case '>':
+          case '>=':
+            if (!isCompatible(left, right)) {
+              throw new FormulaError(`Cannot compare ${left} with ${right}`);
+            }
+            return 'boolean';
+          default:
+            if (!isCompatible(left, 'number') || !isCompatible(right, 'number')) {
+              throw new FormulaError(
+                `"${node.operator}" expects numbers, got ${left} and ${right}` +
+                (node.operator === '+' ? ' (use & or concat() to join text)' : '')
+              );
+            }
+            return 'number';
+        }
+      }
+
+      case 'call': {
+        const signature = FUNCTIONS[node.name];
+        if (!signature) throw new FormulaError(`Unknown function "${node.name}"`, node.position);
+
+        const minArgs = signature.args.length - (signature.optional ?? 0);
+        const tooFew = node.args.length < minArgs;
+        const tooMany = !signature.variadic && node.args.length > signature.args.length;
+        if (tooFew || tooMany) {
+          const expected = signature.variadic
+            ? `at least ${minArgs}`
+            : minArgs === signature.args.length ? `${minArgs}` : `${minArgs}-${signature.args.length}`;
+          throw new FormulaError(`${node.name}() expects ${expected} argument(s)`, node.position);
+        }
+
+        const argTypes = node.args.map((arg, index) => {
+          const actual = check(arg, visiting);
+          const expected = signature.args[Math.min(index, signature.args.length - 1)];
+          if (!isCompatible(actual, expected)) {
+            throw new FormulaError(
+              `Argument ${index + 1} of ${node.name}() must be a ${expected}, got ${actual}`,
+              node.position
+            );
+          }
+          return actual;
+        });
+
+        return typeof signature.returns === 'function' ? signature.returns(argTypes) : signature.returns;
+      }
+    }
+  };
+
+  return check(ast, new Set());
+}
+
+// First problem among a type's formula fields, e.g. after a referenced field was renamed
+export function findFormulaError(fields: FieldDefinition[]): string | null {
+  for (const field of fields) {
+    if (field.type !== 'formula') continue;
+    try {
+      checkFormula(field.formula?.expression ?? '', fields, field.id);
+    } catch (error) {
+      return `${field.name}: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+  return null;
+}
+
+type FormulaValue = number | string | boolean | Date | null;
+
+const toNumber = (value: FormulaValue) => {
+  if (value === null || value === '') return null;
+  if (value instanceof Date) return value.getTime();
+  const number = Number(value);
+  return Number.isNaN(number) ? null : number;
+};
+
+const toDate = (value: FormulaValue) => {
+  if (value === null || value === '') return null;
+  if (value instanceof Date) return value;
+  const date = parseISO(String(value));
+  return isValid(date) ? date : null;
+};
+
+const toText = (value: FormulaValue) => {
+  if (value === null) return '';
+  if (value instanceof Date) return format(value, 'yyyy-MM-dd');
+  return String(value);
+};
+
+const toFieldValue = (value: unknown, field: FieldDefinition): FormulaValue => {
+  if (isEmptyFieldValue(value)) return null;
+  switch (formulaValueType(field)) {
+    case 'number':
+      return toNumber(value as FormulaValue);
+    case 'boolean':
+      return value === true || value === 'true';
+    case 'date':
+      return toDate(value as FormulaValue);
+    default:
+      return Array.isArray(value) ? toArray(value).join(', ') : (value as FormulaValue);
+  }
+};
+
+// Storage form of a formula result: numbers and booleans as-is, dates as yyyy-MM-dd
+const toStoredValue = (value: FormulaValue) => {
+  if (value instanceof Date) return format(value, 'yyyy-MM-dd');
+  if (typeof value === 'number' && !Number.isFinite(value)) return null;
+  return value;
+};
+
+function evaluateNode(node: FormulaNode, resolve: (name: string) => FormulaValue): FormulaValue {
+  const evaluate = (child: FormulaNode) => evaluateNode(child, resolve);
+
+  switch (node.kind) {
+    case 'number':
+    case 'string':
+    case 'boolean':
+      return node.value;
+
+    case 'field':
+      return resolve(node.name);
+
+    case 'unary': {
+      const operand = evaluate(node.operand);
+      if (node.operator === '!') return !operand;
+      const number = toNumber(operand);
+      return number === null ? null : -number;
+    }
+
+    case 'binary': {
+      const left = evaluate(node.left);
+      const right = evaluate(node.right);
+
+      switch (node.operator) {
+        case '&':
+          return toText(left) + toText(right);
+        case '&&':
+          return !!left && !!right;
+        case '||':
+          return !!left || !!right;
+        case '==':
+          return toText(left) === toText(right);
+        case '!=':
+          return toText(left) !== toText(right);
+      }
+
+      const a = left instanceof Date ? left.getTime() : toNumber(left);
+      const b = right instanceof Date ? right.getTime() : toNumber(right);
+      if (a === null || b === null) return null;
+
+      switch (node.operator) {
+        case '<': return a < b;
+        case '<=': return a <= b;
+        case '>': return a > b;
+        case '>=': return a >= b;
+        case '+': return a + b;
+        case '-': return a - b;
+        case '*': return a * b;
+        case '/': return b === 0 ? null : a / b;
+        case '%': return b === 0 ? null : a % b;
+        default: return null;
+      }
+    }
+
+    case 'call': {
+      if (node.name === 'if') {
+        return evaluate(node.args[0]) ? evaluate(node.args[1]) : evaluate(node.args[2]);
+      }
+
+      const args = node.args.map(evaluate);
+      const numbers = args.map(toNumber);
+
+      switch (node.name) {
+        case 'concat':
+          return args.map(toText).join('');
+        case 'upper':
+          return toText(args[0]).toUpperCase();
+        case 'lower':
+          return toText(args[0]).toLowerCase();
+        case 'trim':
+          return toText(args[0]).trim();
+        case 'len':
+          return toText(args[0]).length;
+        case 'round': {
+          if (numbers[0] === null) return null;
+          const factor = 10 ** (numbers[1] ?? 0);
+          return Math.round(numbers[0] * factor) / factor;
+        }
+        case 'floor':
+          return numbers[0] === null ? null : Math.floor(numbers[0]);
+        case 'ceil':
+          return numbers[0] === null ? null : Math.ceil(numbers[0]);
+        case 'abs':
+          return numbers[0] === null ? null : Math.abs(numbers[0]);
+        case 'min':
+        case 'max': {
+          const present = numbers.filter((number): number is number => number !== null);
+          if (present.length === 0) return null;
+          return node.name === 'min' ? Math.min(...present) : Math.max(...present);
+        }
+        case 'today':
+          return new Date(new Date().setHours(0, 0, 0, 0));
+        case 'days_between': {
+          const [start, end] = args.map(toDate);
+          return start && end ? differenceInCalendarDays(end, start) : null;
+        }
+        case 'add_days': {
+          const date = toDate(args[0]);
+          return date && numbers[1] !== null ? addDays(date, numbers[1]) : null;
+        }
+        case 'date':
+          return toDate(args[0]);
+        default:
+          return null;
+      }
+    }
+  }
+}
+
+// Parsed expressions by source text. Every item of a type shares its formulas, so lists
+// and exports parse each expression once rather than once per item. The least recently
+// used entries are dropped, so expressions typed in the field editor do not pile up.
+const parsedFormulas = new Map<string, FormulaNode | FormulaError>();
+const MAX_PARSED_FORMULAS = 200;
+
+function parseCachedFormula(source: string): FormulaNode {
+  let parsed = parsedFormulas.get(source);
+  if (parsed) {
+    // Maps keep insertion order, so moving the entry to the end marks it as recent
+    parsedFormulas.delete(source);
+  } else {
+    try {
+      parsed = parseFormula(source);
+    } catch (error) {
+      parsed = error instanceof FormulaError ? error : new FormulaError(String(error));
+    }
+    if (parsedFormulas.size >= MAX_PARSED_FORMULAS) parsedFormulas.delete(parsedFormulas.keys().next().value);
+  }
+  parsedFormulas.set(source, parsed);
+  if (parsed instanceof FormulaError) throw parsed;
+  return parsed;
+}
+
+// Returns the item data with every formula field filled in. Values are recomputed
+// on each call, so they always reflect the item's current inputs.
+export function computeFormulaValues(itemType: ItemType, data: Record<string, unknown>) {
+  const formulaFields = itemType.fields.filter(field => field.type === 'formula');
+  if (formulaFields.length === 0) return data;
+
+  const computed: Record<string, unknown> = { ...data };
+  const cache = new Map<string, FormulaValue>();
+  const visiting = new Set<string>();
+
+  const valueOf = (field: FieldDefinition): FormulaValue => {
+    if (field.type !== 'formula') return toFieldValue(data[field.id], field);
+    if (cache.has(field.id)) return cache.get(field.id);
+    if (visiting.has(field.id) || !field.formula?.expression) return null;
+
+    visiting.add(field.id);
+    let result: FormulaValue = null;
+    try {
+      result = evaluateNode(parseCachedFormula(field.formula.expression), name => {
+        const referenced = findFieldByReference(itemType.fields, name);
+        return referenced ? valueOf(referenced) : null;
+      });
+    } catch {
+      result = null;
+    }
+    visiting.delete(field.id);
+    cache.set(field.id, result);
+    return result;
+  };
+
+  formulaFields.forEach(field => {
+    computed[field.id] = toStoredValue(valueOf(field));
+  });
+
+  return computed;
+}
+
+const excelString = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+// Translates a formula into an Excel formula for one worksheet row. Returns null when
+// a referenced field has no column in the sheet, so the caller can fall back to values.
+export function toExcelFormula(
+  source: string,
+  fields: FieldDefinition[],
+  cellFor: (fieldId: string) => string | null
+): string | null {
+  let ast: FormulaNode;
+  try {
+    ast = parseCachedFormula(source);
+  } catch {
+    return null;
+  }
+
+  const translate = (node: FormulaNode): string => {
+    switch (node.kind) {
+      case 'number':
+        return String(node.value);
+      case 'string':
+        return excelString(node.value);
+      case 'boolean':
+        return node.value ? 'TRUE' : 'FALSE';
+
+      case 'field': {
+        const field = findFieldByReference(fields, node.name);
+        const cell = field ? cellFor(field.id) : null;
+        if (!cell) throw new FormulaError(`No column for "${node.name}"`);
+        return cell;
+      }
+
+      case 'unary':
+        return node.operator === '-' ? `-(${translate(node.operand)})` : `NOT(${translate(node.operand)})`;
+
+      case 'binary': {
+        const left = translate(node.left);
+        const right = translate(node.right);
+        switch (node.operator) {
+          case '&&': return `AND(${left},${right})`;
+          case '||': return `OR(${left},${right})`;
+          case '%': return `MOD(${left},${right})`;
+          case '==': return `(${left}=${right})`;
+          case '!=': return `(${left}<>${right})`;
+          default: return `(${left}${node.operator}${right})`;
+        }
+      }
+
+      case 'call': {
+        const args = node.args.map(translate);
+        switch (node.name) {
+          case 'concat': return `CONCATENATE(${args.join(',')})`;
+          case 'round': return `ROUND(${args[0]},${args[1] ?? 0})`;
+          case 'floor': return `INT(${args[0]})`;
+          case 'ceil': return `-INT(-(${args[0]}))`;
+          case 'days_between': return `(INT(${args[1]})-INT(${args[0]}))`;
+          case 'add_days': return `(${args[0]}+${args[1]})`;
+          case 'today': return 'TODAY()';
+          case 'date': return `DATEVALUE(${args[0]})`;
+          default: return `${node.name.toUpperCase()}(${args.join(',')})`;
+        }
+      }
+    }
+  };
+
+  try {
+    return translate(ast);
+  } catch {
+    return null;
+  }
+}
+
+// Attaches an Excel formula to an exported cell; the computed value stays as its cached result
+export function withExcelFormula(cell: CellObject | string, formula: string): CellObject {
+  const base: CellObject = typeof cell === 'string' ? { t: 's', v: cell } : cell;
+  return { ...base, f: formula };
+}
@@ -0,0 +1,182 @@
+import * as XLSX from 'xlsx';
+import { format } from 'date-fns';
+import {
+  formatFieldValue,
+  isEmptyFieldValue,
+  toArray,
+  toExcelCell,
+  toExcelDate,
+  type ItemLookup
+} from '@/lib/fieldTypes';
+import {
+  COLUMN_FORMATS,
+  CREATED_AT_COLUMN,
+  ID_COLUMN,
+  findExportTemplate,
+  resolveColumns,
+  type ResolvedColumn
+} from '@/lib/exportTemplates';
+import { computeFormulaValues, toExcelFormula, withExcelFormula } from '@/lib/formula';
+import { selectValidations, type TableSheet } from '@/lib/xlsxExport';
+import type { ItemInstance, ItemType } from '@/types/ItemType';
+import type { Project } from '@/types/Project';
+
+export interface ItemGroup {
+  itemType: ItemType;
+  items: ItemInstance[];
+}
+
+export interface WorkbookExportOptions {
+  formulas: boolean; // write formula fields as live Excel formulas instead of values
+  dropdowns: boolean; // restrict select columns to their options
+  project?: Project; // adds a Project Info sheet in front of the item sheets
+  templates?: Record<string, string>; // item type id to the export template used for its sheet
+  onProgress?: (completedItems: number) => void;
+}
+
+export interface ItemWorkbook {
+  workbook: XLSX.WorkBook;
+  tables: TableSheet[];
+}
+
+const MAX_SHEET_NAME = 31;
+const MAX_COLUMN_WIDTH = 50;
+
+// Items grouped under their type, in item type order; items of unknown types are left out
+export function groupItemsByType(items: ItemInstance[], itemTypes: ItemType[]): ItemGroup[] {
+  return itemTypes
+    .map(itemType => ({ itemType, items: items.filter(item => item.typeId === itemType.id) }))
+    .filter(group => group.items.length > 0);
+}
+
+// Excel rejects sheet names that are longer than 31 characters, contain any of []:*?/\,
+// start or end with an apostrophe, or match another sheet ignoring case
+export function toSheetName(name: string, usedNames: Set<string>): string {
+  const base = name.replace(/[[\]:*?/\\]/g, '_').replace(/^'+|'+$/g, '').trim() || 'Sheet';
+  let sheetName = base.slice(0, MAX_SHEET_NAME).trim();
+  for (let n = 2; usedNames.has(sheetName.toLowerCase()); n++) {
+    const suffix = ` (${n})`;
+    sheetName = base.slice(0, MAX_SHEET_NAME - suffix.length).trim() + suffix;
+  }
+  usedNames.add(sheetName.toLowerCase());
+  return sheetName;
+}
+
+function projectInfoSheet(project: Project, itemCount: number): XLSX.WorkSheet {
+  const worksheet = XLSX.utils.aoa_to_sheet([
+    ['Project Name', project.name],
+    ['Description', project.description],
+    ['Location', project.location],
+    ['Created At', toExcelDate(new Date(project.createdAt), true)],
+    ['Updated At', toExcelDate(new Date(project.updatedAt), true)],
+    ['Total Items', itemCount],
+  ]);
+  worksheet['!cols'] = [{ wch: 14 }, { wch: Math.min(Math.max(project.name.length, project.location.length, 16) + 2, MAX_COLUMN_WIDTH) }];
+  return worksheet;
+}
+
+// A column's value for an item as the app displays it
+export function columnText(
+  { key, field }: ResolvedColumn,
+  item: ItemInstance,
+  data: Record<string, unknown>,
+  lookup: ItemLookup
+): string {
+  if (key === ID_COLUMN) return item.id;
+  if (key === CREATED_AT_COLUMN) return format(new Date(item.createdAt), 'yyyy-MM-dd HH:mm');
+  return formatFieldValue(data[field.id], field, lookup);
+}
+
+// Cell for one column of an item, honouring the column's format
+function exportCell(
+  column: ResolvedColumn,
+  item: ItemInstance,
+  data: Record<string, unknown>,
+  lookup: ItemLookup
+): { cell: XLSX.CellObject | string; text: string } {
+  const { key, field } = column;
+  const value = field ? data[field.id] : undefined;
+  const text = columnText(column, item, data, lookup);
+
+  if (column.format === 'text') return { cell: text, text };
+  if (column.format === 'raw') {
+    const raw = key === ID_COLUMN
+      ? item.id
+      : key === CREATED_AT_COLUMN
+        ? item.createdAt
+        : isEmptyFieldValue(value) ? '' : toArray(value).map(String).join(', ');
+    return { cell: raw, text: raw };
+  }
+
+  const cell = key === ID_COLUMN
+    ? item.id
+    : key === CREATED_AT_COLUMN
+      ? toExcelDate(new Date(item.createdAt), true)
+      : toExcelCell(value, field, lookup);
+  const numberFormat = COLUMN_FORMATS.find(option => option.value === column.format)?.numberFormat;
+  if (numberFormat && typeof cell === 'object' && cell.t === 'n') return { cell: { ...cell, z: numberFormat }, text };
+  return { cell, text };
+}
+
+// Column widths are fitted to the longest displayed value while the rows are built,
+// so large sheets are only scanned once
+function itemSheet(
+  { itemType, items }: ItemGroup,
+  lookup: ItemLookup,
+  options: WorkbookExportOptions,
+  onRow: () => void
+) {
+  const columns = resolveColumns(itemType, findExportTemplate(itemType, options.templates?.[itemType.id]));
+  const headers = columns.map(column => column.header);
+  const widths = headers.map(header => header.length);
+
+  const rows = items.map((item, index) => {
+    const data = computeFormulaValues(itemType, item.data);
+    const row = columns.map((column, columnIndex) => {
+      const { cell, text } = exportCell(column, item, data, lookup);
+      widths[columnIndex] = Math.max(widths[columnIndex], text.length);
+      const { field } = column;
+      if (!options.formulas || field?.type !== 'formula' || column.format !== 'auto' || typeof cell !== 'object') {
+        return cell;
+      }
+
+      // Data rows start below the header; fields the template leaves out cannot be referenced
+      const formula = toExcelFormula(field.formula?.expression ?? '', itemType.fields, fieldId => {
+        const referenced = columns.findIndex(other => other.key === fieldId);
+        return referenced === -1 ? null : XLSX.utils.encode_cell({ r: index + 1, c: referenced });
+      });
+      return formula ? withExcelFormula(cell, formula) : cell;
+    });
+    onRow();
+    return row;
+  });
+
+  const worksheet = XLSX.utils.aoa_to_sheet([headers, ...rows]);
+  worksheet['!cols'] = widths.map(width => ({ wch: Math.min(width + 2, MAX_COLUMN_WIDTH) }));
+  return { worksheet, fields: columns.map(column => column.field) };
+}
+
+// One sheet per item type, keyed by type ID so renamed types keep their items, with
+// the columns of the template chosen for the type, or every field when there is none.
+// The lookup resolves references and should cover all items, not only the exported ones.
+export function buildItemWorkbook(items: ItemInstance[], lookup: ItemLookup, options: WorkbookExportOptions): ItemWorkbook {
+  const workbook = XLSX.utils.book_new();
+  const tables: TableSheet[] = [];
+  const usedNames = new Set<string>();
+  let completed = 0;
+
+  if (options.project) {
+    const name = toSheetName('Project Info', usedNames);
+    XLSX.utils.book_append_sheet(workbook, projectInfoSheet(options.project, items.length), name);
+  }
+
+  groupItemsByType(items, lookup.itemTypes).forEach(group => {
+    const name = toSheetName(group.itemType.name, usedNames);
+    const { worksheet, fields } = itemSheet(group, lookup, options, () => options.onProgress?.(++completed));
+    XLSX.utils.book_append_sheet(workbook, worksheet, name);
+    tables.push({ name, validations: options.dropdowns ? selectValidations(fields) : [] });
+  });
+
+  return { workbook, tables };
+}
+
@@ -0,0 +1,329 @@
+import { format } from 'date-fns';
+import { hasOptions, isDateField, isEmptyFieldValue, isNumericField, parseDateValue, toArray } from '@/lib/fieldTypes';
+import { computeFormulaValues } from '@/lib/formula';
+import type { FieldDefinition, ItemInstance, ItemType } from '@/types/ItemType';
+
+export type ColumnKind = 'number' | 'date' | 'option' | 'boolean' | 'text';
+
+export type SortDirection = 'asc' | 'desc';
+
+// A field, or a property every item has, that items can be sorted and filtered by.
+// Fields are matched by name across item types, so a "Price" filter applies to the
+// Price field of every type that has one.
+export interface ItemColumn {
+  key: string; // the lowercased field name, or 'created' and 'updated'
+  label: string;
+  kind: ColumnKind;
+  options: string[]; // choices of select fields, across all types; Yes and No for checkboxes
+  fields: Map<string, FieldDefinition>; // by item type id; empty for created and updated
+}
+
+export interface SortOrder {
+  key: string;
+  direction: SortDirection;
+}
+
+export interface FieldFilter {
+  key: string;
+  presence?: 'empty' | 'filled';
+  min?: number; // number columns
+  max?: number;
+  from?: string; // date columns, yyyy-MM-dd, inclusive
+  to?: string;
+  values?: string[]; // option and boolean columns: any of these
+}
+
+export interface ItemFilters {
+  typeIds: string[]; // empty for all types
+  fields: FieldFilter[];
+}
+
+export interface FacetCount {
+  value: string;
+  label: string;
+  count: number;
+}
+
+export interface ItemFacets {
+  types: FacetCount[];
+  options: { column: ItemColumn; counts: FacetCount[] }[];
+}
+
+export const EMPTY_FILTERS: ItemFilters = { typeIds: [], fields: [] };
+
+export const YES = 'Yes';
+export const NO = 'No';
+
+const SYSTEM_COLUMNS: { key: string; label: string; property: 'createdAt' | 'updatedAt' }[] = [
+  { key: 'created', label: 'Created', property: 'createdAt' },
+  { key: 'updated', label: 'Updated', property: 'updatedAt' },
+];
+
+export const columnKey = (name: string) => name.trim().toLowerCase();
+
+function columnKind(field: FieldDefinition): ColumnKind {
+  const type = field.type === 'formula' ? field.formula?.resultType ?? 'text' : field.type;
+  if (isNumericField(type)) return 'number';
+  if (isDateField(type)) return 'date';
+  if (hasOptions(type)) return 'option';
+  if (type === 'boolean') return 'boolean';
+  return 'text';
+}
+
+// One column per distinct field name, in the order the fields first appear. A field
+// whose kind differs from the first field of that name is left out, since a single
+// filter cannot be both a range and a list of options.
+export function itemColumns(itemTypes: ItemType[]): ItemColumn[] {
+  const columns = new Map<string, ItemColumn>();
+
+  itemTypes.forEach(itemType => itemType.fields.forEach(field => {
+    const key = columnKey(field.name);
+    const kind = columnKind(field);
+    const column = columns.get(key) ?? { key, label: field.name.trim(), kind, options: [], fields: new Map() };
+    if (column.kind !== kind) return;
+
+    column.fields.set(itemType.id, field);
+    if (kind === 'option') {
+      (field.options ?? []).forEach(option => {
+        if (!column.options.includes(option)) column.options.push(option);
+      });
+    }
+    if (kind === 'boolean') column.options = [YES, NO];
+    columns.set(key, column);
+  }));
+
+  // A field named Created or Updated takes precedence over the item's own timestamp
+  const system = SYSTEM_COLUMNS
+    .filter(({ key }) => !columns.has(key))
+    .map(({ key, label }) => ({ key, label, kind: 'date' as const, options: [], fields: new Map() }));
+  return [...system, ...columns.values()];
+}
+
+// Formula values are computed once per item and reused by every filter and sort
+export function createDataReader(itemTypes: ItemType[]) {
+  const typesById = new Map(itemTypes.map(type => [type.id, type]));
+  const cache = new WeakMap<ItemInstance, Record<string, unknown>>();
+
+  return (item: ItemInstance) => {
+    let data = cache.get(item);
+    if (!data) {
+      const itemType = typesById.get(item.typeId);
+      data = itemType ? computeFormulaValues(itemType, item.data) : item.data;
+      cache.set(item, data);
+    }
+    return data;
+  };
+}
+
+export type DataReader = ReturnType<typeof createDataReader>;
+
+export function columnValue(column: ItemColumn, item: ItemInstance, readData: DataReader): unknown {
+  const system = SYSTEM_COLUMNS.find(({ key }) => key === column.key);
+  if (system && column.fields.size === 0) return item[system.property];
+
+  const field = column.fields.get(item.typeId);
+  return field ? readData(item)[field.id] : undefined;
+}
+
+// Dates compare as local calendar days, so timestamps stored in UTC land on the day the user saw
+export function toDateKey(value: unknown): string | null {
+  if (isEmptyFieldValue(value)) return null;
+  const raw = String(value);
+  if (/^\d{4}-\d{2}-\d{2}$/.test(raw)) return raw;
+  const date = parseDateValue(raw, 'datetime');
+  return date ? format(date, 'yyyy-MM-dd') : null;
+}
+
+export const toNumber = (value: unknown) => {
+  if (isEmptyFieldValue(value) || typeof value === 'boolean') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+};
+
+export function optionValues(column: ItemColumn, value: unknown): string[] {
+  if (column.kind === 'boolean') return [value === true || value === 'true' ? YES : NO];
+  return toArray(value);
+}
+
+export const isActiveFilter = (filter: FieldFilter) =>
+  !!filter.presence ||
+  filter.min !== undefined ||
+  filter.max !== undefined ||
+  !!filter.from ||
+  !!filter.to ||
+  (filter.values?.length ?? 0) > 0;
+
+export function matchesFilter(column: ItemColumn, filter: FieldFilter, value: unknown): boolean {
+  const empty = isEmptyFieldValue(value);
+  if (filter.presence === 'empty' && !empty) return false;
+  if (filter.presence === 'filled' && empty) return false;
+
+  if (filter.min !== undefined || filter.max !== undefined) {
+    const number = toNumber(value);
+    if (number === null) return false;
+    if (filter.min !== undefined && number < filter.min) return false;
+    if (filter.max !== undefined && number > filter.max) return false;
+  }
+
+  if (filter.from || filter.to) {
+    const day = toDateKey(value);
+    if (!day) return false;
+    if (filter.from && day < filter.from) return false;
+    if (filter.to && day > filter.to) return false;
+  }
+
+  if (filter.values?.length) {
+    // Unchecked checkboxes are stored as missing values, which read as No
+    if (column.kind !== 'boolean' && empty) return false;
+    const values = optionValues(column, value);
+    if (!values.some(option => filter.values.includes(option))) return false;
+  }
+
+  return true;
+}
+
+// Free text search over the type name and the stored values, for query words without a field
+export function matchesSearchText(item: ItemInstance, searchTerm: string) {
+  const searchString = searchTerm.toLowerCase();
+  if (!searchString) return true;
+  if (item.typeName.toLowerCase().includes(searchString)) return true;
+  return Object.values(item.data).some(value =>
+    String(value).toLowerCase().includes(searchString)
+  );
+}
+
+interface MatchOptions {
+  ignoreTypes?: boolean;
+  ignoreValuesOf?: string; // a column key whose option checkboxes are left out
+}
+
+// Builds a predicate for the combined filters: item types are alternatives, and every
+// field filter must hold, so items of a type without that field are filtered out.
+// Facet counts leave out their own selection, so each count says how many results
+// checking that box would add.
+export function createItemMatcher(columns: ItemColumn[], filters: ItemFilters, readData: DataReader) {
+  const active = filters.fields
+    .filter(isActiveFilter)
+    .flatMap(filter => {
+      const column = columns.find(other => other.key === filter.key);
+      return column ? [{ column, filter }] : [];
+    });
+
+  return (item: ItemInstance, { ignoreTypes, ignoreValuesOf }: MatchOptions = {}) => {
+    if (!ignoreTypes && filters.typeIds.length > 0 && !filters.typeIds.includes(item.typeId)) return false;
+    return active.every(({ column, filter }) => {
+      if (column.fields.size > 0 && !column.fields.has(item.typeId)) return false;
+      const effective = column.key === ignoreValuesOf ? { ...filter, values: undefined } : filter;
+      return matchesFilter(column, effective, columnValue(column, item, readData));
+    });
+  };
+}
+
+export function itemFacets(
+  items: ItemInstance[],
+  itemTypes: ItemType[],
+  columns: ItemColumn[],
+  matches: ReturnType<typeof createItemMatcher>,
+  readData: DataReader
+): ItemFacets {
+  const typeCounts = new Map<string, number>();
+  items.forEach(item => {
+    if (matches(item, { ignoreTypes: true })) typeCounts.set(item.typeId, (typeCounts.get(item.typeId) ?? 0) + 1);
+  });
+  const types = itemTypes
+    .filter(type => items.some(item => item.typeId === type.id))
+    .map(type => ({ value: type.id, label: type.name, count: typeCounts.get(type.id) ?? 0 }));
+
+  const options = columns
+    .filter(column => (column.kind === 'option' || column.kind === 'boolean') && column.options.length > 0)
+    .map(column => {
+      const counts = new Map<string, number>();
+      items.forEach(item => {
+        if (!column.fields.has(item.typeId) || !matches(item, { ignoreValuesOf: column.key })) return;
+        const value = columnValue(column, item, readData);
+        if (column.kind !== 'boolean' && isEmptyFieldValue(value)) return;
+        new Set(optionValues(column, value)).forEach(option => counts.set(option, (counts.get(option) ?? 0) + 1));
+      });
+      return {
+        column,
+        counts: column.options.map(option => ({ value: option, label: option, count: counts.get(option) ?? 0 })),
+      };
+    })
+    .filter(({ column }) => items.some(item => column.fields.has(item.typeId)));
+
+  return { types, options };
+}
+
+function compareValues(kind: ColumnKind, a: unknown, b: unknown) {
+  switch (kind) {
+    case 'number':
+      return toNumber(a) - toNumber(b);
+    case 'date':
+      return String(a).localeCompare(String(b));
+    case 'boolean':
+      return Number(a === true || a === 'true') - Number(b === true || b === 'true');
+    default:
+      return toArray(a).join(', ').localeCompare(toArray(b).join(', '), undefined, { numeric: true, sensitivity: 'base' });
+  }
+}
+
+// Items without a value always sort last, whichever the direction
+export function sortItems(items: ItemInstance[], columns: ItemColumn[], sort: SortOrder | null, readData: DataReader) {
+  const column = sort && columns.find(other => other.key === sort.key);
+  if (!column) return items;
+  const sign = sort.direction === 'desc' ? -1 : 1;
+
+  const isMissing = (value: unknown) =>
+    isEmptyFieldValue(value) || (column.kind === 'number' && toNumber(value) === null);
+
+  return items
+    .map(item => ({ item, value: columnValue(column, item, readData) }))
+    .sort((a, b) => {
+      const missingA = column.kind !== 'boolean' && isMissing(a.value);
+      const missingB = column.kind !== 'boolean' && isMissing(b.value);
+      if (missingA || missingB) return Number(missingA) - Number(missingB);
+      return sign * compareValues(column.kind, a.value, b.value);
+    })
+    .map(({ item }) => item);
+}
+
+// Filters and sort order are kept in the query string; anything malformed reads as unset
+export function parseSortOrder(text: string): SortOrder | null {
+  if (!text) return null;
+  return text.startsWith('-')
+    ? { key: text.slice(1), direction: 'desc' }
+    : { key: text, direction: 'asc' };
+}
+
+export const serializeSortOrder = (sort: SortOrder | null) =>
+  sort ? `${sort.direction === 'desc' ? '-' : ''}${sort.key}` : '';
+
+export function parseItemFilters(text: string): ItemFilters {
+  if (!text) return EMPTY_FILTERS;
+  try {
+    const parsed = JSON.parse(text);
+    const number = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : undefined);
+    const date = (value: unknown) => (typeof value === 'string' && value ? value : undefined);
+    const fields: FieldFilter[] = (Array.isArray(parsed.fields) ? parsed.fields : [])
+      .filter(filter => typeof filter?.key === 'string')
+      .map(filter => ({
+        key: filter.key,
+        presence: filter.presence === 'empty' || filter.presence === 'filled' ? filter.presence : undefined,
+        min: number(filter.min),
+        max: number(filter.max),
+        from: date(filter.from),
+        to: date(filter.to),
+        values: Array.isArray(filter.values) ? filter.values.map(String) : undefined,
+      }));
+    return {
+      typeIds: Array.isArray(parsed.typeIds) ? parsed.typeIds.map(String) : [],
+      fields,
+    };
+  } catch {
+    return EMPTY_FILTERS;
+  }
+}
+
+// Filters added but not yet filled in are kept, so their inputs stay on screen
+export const serializeItemFilters = (filters: ItemFilters) =>
+  filters.typeIds.length === 0 && filters.fields.length === 0 ? '' : JSON.stringify(filters);
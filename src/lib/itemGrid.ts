@@ -0,0 +1,113 @@
+import { DEFAULT_CSV_OPTIONS, parseCsv, toCsv, toCsvValue, type CsvOptions } from '@/lib/csv';
+import { coerceCell } from '@/lib/spreadsheetImport';
+import { createItemValidator } from '@/lib/itemValidation';
+import type { ItemLookup } from '@/lib/fieldTypes';
+import type { ConversionResult } from '@/lib/itemTypeMigration';
+import type { FieldDefinition, ItemInstance, ItemType } from '@/types/ItemType';
+
+export const DEFAULT_COLUMN_WIDTH = 180;
+export const MIN_COLUMN_WIDTH = 60;
+
+export interface ResolvedGridColumn {
+  field: FieldDefinition;
+  width: number;
+}
+
+export interface CellEdit {
+  itemId: string;
+  fieldId: string;
+  value: unknown;
+}
+
+export interface CellEditResult {
+  items: ItemInstance[]; // the edited items, with updatedAt set
+  errors: string[]; // one message per rejected edit
+}
+
+// Tab-separated like Excel and Google Sheets, so ranges paste between them and the grid
+const CLIPBOARD_OPTIONS: CsvOptions = { ...DEFAULT_CSV_OPTIONS, delimiter: '\t', includeBom: false };
+
+// Formula and auto-number values are never typed in
+export const isEditableField = (field: FieldDefinition) => field.type !== 'formula' && field.type !== 'autonumber';
+
+// The saved column layout applied to the type's current fields: columns of deleted
+// fields are dropped and fields added since are appended at the default width
+export function gridColumns(itemType: ItemType): ResolvedGridColumn[] {
+  const saved = (itemType.gridColumns ?? []).flatMap(column => {
+    const field = itemType.fields.find(other => other.id === column.fieldId);
+    return field ? [{ field, width: column.width }] : [];
+  });
+  const added = itemType.fields
+    .filter(field => !saved.some(column => column.field.id === field.id))
+    .map(field => ({ field, width: DEFAULT_COLUMN_WIDTH }));
+  return [...saved, ...added];
+}
+
+const withLayout = (itemType: ItemType, columns: ResolvedGridColumn[]): ItemType => ({
+  ...itemType,
+  gridColumns: columns.map(({ field, width }) => ({ fieldId: field.id, width })),
+});
+
+export function moveGridColumn(itemType: ItemType, fieldId: string, toIndex: number): ItemType {
+  const columns = gridColumns(itemType);
+  const from = columns.findIndex(column => column.field.id === fieldId);
+  if (from === -1 || from === toIndex) return itemType;
+  const [moved] = columns.splice(from, 1);
+  columns.splice(toIndex, 0, moved);
+  return withLayout(itemType, columns);
+}
+
+export function resizeGridColumn(itemType: ItemType, fieldId: string, width: number): ItemType {
+  return withLayout(itemType, gridColumns(itemType).map(column =>
+    column.field.id === fieldId ? { ...column, width: Math.max(MIN_COLUMN_WIDTH, Math.round(width)) } : column
+  ));
+}
+
+// Plain values that paste back into the grid or into another spreadsheet
+export const cellClipboardText = (value: unknown, field: FieldDefinition, lookup: ItemLookup) =>
+  toCsvValue(value, field, lookup, CLIPBOARD_OPTIONS);
+
+export const toClipboardText = (rows: string[][]) => toCsv(rows, CLIPBOARD_OPTIONS);
+
+export const parseClipboardText = (text: string) => parseCsv(text, '\t', '"');
+
+// Typed or pasted text read the same way as an imported spreadsheet cell, so select
+// options match case-insensitively and references match item labels
+export const parseCellText = (text: string, field: FieldDefinition, lookup: ItemLookup): ConversionResult =>
+  coerceCell({ value: text, text }, field, lookup);
+
+// Applies the edits item by item and validates only the edited fields, so existing
+// problems elsewhere in an item do not block an unrelated change. Unique checks see
+// the edits accepted before them, including those in the same batch.
+export function applyCellEdits(itemType: ItemType, lookup: ItemLookup, edits: CellEdit[]): CellEditResult {
+  const itemsById = new Map(lookup.items.map(item => [item.id, item]));
+  const fieldsById = new Map(itemType.fields.map(field => [field.id, field]));
+  const validator = createItemValidator(itemType, lookup.items);
+  const edited = new Map<string, ItemInstance>();
+  const errors: string[] = [];
+  const updatedAt = new Date().toISOString();
+
+  edits.forEach(({ itemId, fieldId, value }) => {
+    const item = edited.get(itemId) ?? itemsById.get(itemId);
+    const field = fieldsById.get(fieldId);
+    if (!item || !field || !isEditableField(field)) return;
+
+    const data = { ...item.data };
+    if (value === undefined) {
+      delete data[fieldId];
+    } else {
+      data[fieldId] = value;
+    }
+    const error = validator.validate(data, itemId)[fieldId];
+    if (error) {
+      errors.push(error);
+      return;
+    }
+
+    const updated = { ...item, typeName: itemType.name, data, updatedAt };
+    edited.set(itemId, updated);
+    validator.accept(updated);
+  });
+
+  return { items: Array.from(edited.values()), errors };
+}
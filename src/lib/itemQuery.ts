@@ -0,0 +1,341 @@
+import { formatFieldValue, isEmptyFieldValue, type ItemLookup } from '@/lib/fieldTypes';
+import {
+  YES,
+  NO,
+  columnKey,
+  columnValue,
+  matchesSearchText,
+  optionValues,
+  toDateKey,
+  toNumber,
+  type DataReader,
+  type ItemColumn,
+} from '@/lib/itemFilters';
+import type { ItemInstance, ItemType } from '@/types/ItemType';
+
+// A small query language for the item search box. Terms are separated by spaces and
+// must all match; a leading - negates a term.
+//
+//   type:Product price>100 status:"In stock" created:>2026-01-01 -tag:legacy
+//
+// Fields are referenced by name, case-insensitively, and quoted when the name has
+// spaces. A field term compares with : (contains, or equals for numbers and options),
+// =, >, >=, < or <=; several values separated by commas are alternatives, and * means
+// any value. type: matches the item type by name, and created: and updated: the item's
+// timestamps. Dates are yyyy-MM-dd and may be shortened to a month or a year. Words
+// without a field are searched for in every value.
+
+export type QueryOperator = ':' | '=' | '>' | '>=' | '<' | '<=';
+
+export interface QueryTerm {
+  negated: boolean;
+  field?: string; // undefined for free text
+  operator?: QueryOperator;
+  values: string[];
+  start: number; // position in the query, for error messages
+  end: number;
+}
+
+export interface QueryError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+export interface ParsedQuery {
+  terms: QueryTerm[];
+  errors: QueryError[];
+}
+
+export interface CompiledQuery {
+  errors: QueryError[];
+  matches: (item: ItemInstance, readData: DataReader) => boolean;
+}
+
+export interface QuerySuggestion {
+  label: string;
+  insertText: string;
+  detail: string;
+}
+
+export interface QueryCompletion {
+  from: number; // the text between from and the cursor is replaced by the suggestion
+  suggestions: QuerySuggestion[];
+}
+
+type TermPredicate = (item: ItemInstance, readData: DataReader) => boolean;
+
+export const TYPE_KEY = 'type';
+const ANY_VALUE = '*';
+const MAX_SUGGESTIONS = 8;
+
+const OPERATOR_PATTERN = /^(?::(?:[<>]=?|=)?|[<>]=?|=)/;
+const DATE_PATTERN = /^\d{4}(?:-\d{2}(?:-\d{2})?)?$/;
+const BOOLEAN_WORDS: Record<string, string> = { yes: YES, true: YES, no: NO, false: NO };
+
+const isSpace = (char: string) => /\s/.test(char);
+
+// Quotes words containing spaces or query syntax, so a suggestion reads back as typed
+export const quoteQueryText = (text: string) =>
+  /[\s:<>=,"]/.test(text) || text === '' ? `"${text.replace(/(["\\])/g, '\\$1')}"` : text;
+
+export function parseQuery(source: string): ParsedQuery {
+  const terms: QueryTerm[] = [];
+  const errors: QueryError[] = [];
+  let index = 0;
+
+  // Reads a quoted string, or bare text up to whitespace or one of the stop characters
+  const readText = (stops: string) => {
+    if (source[index] === '"') {
+      const start = index++;
+      let text = '';
+      while (index < source.length && source[index] !== '"') {
+        if (source[index] === '\\' && index + 1 < source.length) index++;
+        text += source[index++];
+      }
+      if (index >= source.length) {
+        errors.push({ message: 'Missing closing quote', start, end: index });
+        return null;
+      }
+      index++;
+      return { text, quoted: true };
+    }
+    const start = index;
+    while (index < source.length && !isSpace(source[index]) && !stops.includes(source[index])) index++;
+    return { text: source.slice(start, index), quoted: false };
+  };
+
+  while (index < source.length) {
+    if (isSpace(source[index])) {
+      index++;
+      continue;
+    }
+
+    const start = index;
+    const negated = source[index] === '-' && index + 1 < source.length && !isSpace(source[index + 1]);
+    if (negated) index++;
+
+    const head = readText(':<>=');
+    if (!head) break;
+
+    const operator = OPERATOR_PATTERN.exec(source.slice(index))?.[0];
+    if (!operator) {
+      if (head.text) terms.push({ negated, values: [head.text], start, end: index });
+      continue;
+    }
+    index += operator.length;
+
+    if (!head.text) {
+      errors.push({ message: `Missing field name before "${operator}"`, start, end: index });
+      readText('');
+      continue;
+    }
+
+    const values: string[] = [];
+    let complete = true;
+    for (;;) {
+      const value = readText(',');
+      if (!value) {
+        complete = false;
+        break;
+      }
+      if (value.text || value.quoted) values.push(value.text);
+      if (source[index] !== ',') break;
+      index++;
+    }
+    if (!complete) break;
+
+    if (values.length === 0) {
+      errors.push({ message: `Missing value after "${source.slice(start, index)}"`, start, end: index });
+      continue;
+    }
+
+    // A colon followed by a comparison, as in created:>2026-01-01, is the comparison
+    const normalized = (operator.length > 1 && operator.startsWith(':') ? operator.slice(1) : operator) as QueryOperator;
+    terms.push({ negated, field: head.text, operator: normalized, values, start, end: index });
+  }
+
+  return { terms, errors };
+}
+
+const isComparison = (operator: QueryOperator) => operator !== ':' && operator !== '=';
+
+function compare(operator: QueryOperator, actual: string | number, expected: string | number) {
+  switch (operator) {
+    case '>':
+      return actual > expected;
+    case '>=':
+      return actual >= expected;
+    case '<':
+      return actual < expected;
+    case '<=':
+      return actual <= expected;
+    default:
+      return actual === expected;
+  }
+}
+
+// Turns one field term into a predicate, or an error message when it cannot apply
+function compileFieldTerm(term: QueryTerm, columns: ItemColumn[], lookup: ItemLookup): TermPredicate | string {
+  const { field, operator, values } = term;
+  const key = columnKey(field);
+
+  if (key === TYPE_KEY) {
+    if (isComparison(operator)) return `type: cannot be compared with ${operator}`;
+    const names = values.map(value => value.toLowerCase());
+    const unknown = values.find(value => !lookup.itemTypes.some(type => type.name.toLowerCase() === value.toLowerCase()));
+    if (unknown) return `No item type is named "${unknown}"`;
+    return item => names.includes(item.typeName.toLowerCase());
+  }
+
+  const column = columns.find(other => other.key === key);
+  if (!column) return `Unknown field "${field}"`;
+
+  // Items of types without the field never match it, so negating the term keeps them
+  const has = (item: ItemInstance) => column.fields.size === 0 || column.fields.has(item.typeId);
+  const read = (item: ItemInstance, readData: DataReader) => columnValue(column, item, readData);
+
+  if (values.includes(ANY_VALUE)) {
+    if (values.length > 1 || operator !== ':') return `${ANY_VALUE} matches any value and is used alone, as ${field}:${ANY_VALUE}`;
+    return (item, readData) => has(item) && !isEmptyFieldValue(read(item, readData));
+  }
+
+  if (isComparison(operator)) {
+    if (values.length > 1) return `${operator} compares with a single value`;
+    if (column.kind !== 'number' && column.kind !== 'date') {
+      return `${column.label} cannot be compared with ${operator}; only number and date fields can`;
+    }
+  }
+
+  switch (column.kind) {
+    case 'number': {
+      const numbers = values.map(Number);
+      const invalid = values.find((_, i) => Number.isNaN(numbers[i]) || values[i].trim() === '');
+      if (invalid !== undefined) return `"${invalid}" is not a number`;
+      return (item, readData) => {
+        const number = has(item) ? toNumber(read(item, readData)) : null;
+        return number !== null && numbers.some(expected => compare(operator === ':' ? '=' : operator, number, expected));
+      };
+    }
+
+    case 'date': {
+      const invalid = values.find(value => !DATE_PATTERN.test(value));
+      if (invalid !== undefined) return `"${invalid}" is not a date; use yyyy-MM-dd, yyyy-MM or yyyy`;
+      return (item, readData) => {
+        const day = has(item) ? toDateKey(read(item, readData)) : null;
+        // Shortened dates compare with the same part of the value, so 2026-01 is all of January
+        return !!day && values.some(value => compare(operator === ':' ? '=' : operator, day.slice(0, value.length), value));
+      };
+    }
+
+    case 'option':
+    case 'boolean': {
+      const expected = values.map(value =>
+        column.kind === 'boolean'
+          ? BOOLEAN_WORDS[value.toLowerCase()]
+          : column.options.find(option => option.toLowerCase() === value.toLowerCase())
+      );
+      const invalid = values.find((_, i) => !expected[i]);
+      if (invalid !== undefined) {
+        return column.kind === 'boolean'
+          ? `${column.label} is yes or no, not "${invalid}"`
+          : `"${invalid}" is not an option of ${column.label}`;
+      }
+      return (item, readData) =>
+        has(item) && optionValues(column, read(item, readData)).some(option => expected.includes(option));
+    }
+
+    default: {
+      const expected = values.map(value => value.toLowerCase());
+      return (item, readData) => {
+        if (!has(item)) return false;
+        const definition = column.fields.get(item.typeId);
+        const value = read(item, readData);
+        const text = (definition ? formatFieldValue(value, definition, lookup) : String(value ?? '')).toLowerCase();
+        return expected.some(part => (operator === '=' ? text === part : text.includes(part)));
+      };
+    }
+  }
+}
+
+// Parses the query and resolves its fields. Terms with errors are left out, so the
+// rest of the query still filters while the user fixes them.
+export function compileQuery(source: string, columns: ItemColumn[], lookup: ItemLookup): CompiledQuery {
+  const { terms, errors } = parseQuery(source);
+  const predicates: TermPredicate[] = [];
+
+  terms.forEach(term => {
+    const predicate: TermPredicate | string = term.field === undefined
+      ? item => matchesSearchText(item, term.values[0])
+      : compileFieldTerm(term, columns, lookup);
+
+    if (typeof predicate === 'string') {
+      errors.push({ message: predicate, start: term.start, end: term.end });
+      return;
+    }
+    predicates.push(term.negated ? (item, readData) => !predicate(item, readData) : predicate);
+  });
+
+  errors.sort((a, b) => a.start - b.start);
+  return {
+    errors,
+    matches: (item, readData) => predicates.every(predicate => predicate(item, readData)),
+  };
+}
+
+// Suggestions for the word being typed at the cursor: field names, then the options of
+// select and checkbox fields and the names of item types once a field is entered.
+export function completeQuery(source: string, cursor: number, columns: ItemColumn[], itemTypes: ItemType[]): QueryCompletion {
+  // The current word starts after the last space outside quotes
+  let wordStart = 0;
+  let quoted = false;
+  for (let i = 0; i < cursor; i++) {
+    if (source[i] === '"' && source[i - 1] !== '\\') quoted = !quoted;
+    else if (!quoted && isSpace(source[i])) wordStart = i + 1;
+  }
+  const start = source[wordStart] === '-' ? wordStart + 1 : wordStart;
+  const word = source.slice(start, cursor);
+
+  const operatorAt = (() => {
+    let inQuotes = false;
+    for (let i = 0; i < word.length; i++) {
+      if (word[i] === '"' && word[i - 1] !== '\\') inQuotes = !inQuotes;
+      else if (!inQuotes && ':<>='.includes(word[i])) return i;
+    }
+    return -1;
+  })();
+
+  const unquote = (text: string) => text.replace(/^"/, '').replace(/\\(.)/g, '$1').toLowerCase();
+  const limit = (suggestions: QuerySuggestion[], prefix: string) =>
+    suggestions
+      .filter(suggestion => suggestion.label.toLowerCase().startsWith(prefix) && suggestion.label.toLowerCase() !== prefix)
+      .slice(0, MAX_SUGGESTIONS);
+
+  if (operatorAt === -1) {
+    const fields: QuerySuggestion[] = [
+      { label: TYPE_KEY, insertText: `${TYPE_KEY}:`, detail: 'Item type' },
+      ...columns.map(column => ({
+        label: column.label,
+        insertText: `${quoteQueryText(column.label)}:`,
+        detail: column.fields.size === 0 ? 'Date' : `${column.kind[0].toUpperCase()}${column.kind.slice(1)} field`,
+      })),
+    ];
+    return { from: start, suggestions: limit(fields, unquote(word)) };
+  }
+
+  const field = unquote(word.slice(0, operatorAt).replace(/"$/, ''));
+  const valueText = word.slice(operatorAt).replace(/^:?[<>]?=?/, '');
+  const valueStart = cursor - valueText.length + valueText.lastIndexOf(',') + 1;
+  const prefix = unquote(source.slice(valueStart, cursor));
+
+  const column = columns.find(other => other.key === field);
+  const values = field === TYPE_KEY
+    ? itemTypes.map(type => type.name)
+    : column && (column.kind === 'option' || column.kind === 'boolean') ? column.options : [];
+  const detail = field === TYPE_KEY ? 'Item type' : column?.label ?? '';
+
+  return {
+    from: valueStart,
+    suggestions: limit(values.map(value => ({ label: value, insertText: `${quoteQueryText(value)} `, detail })), prefix),
+  };
+}
@@ -0,0 +1,173 @@
+import { format, isValid, parseISO } from 'date-fns';
+import {
+  NUMBER_TEXT,
+  RATING_MAX,
+  isEmptyFieldValue,
+  isValidEmail,
+  isValidUrl,
+  toArray
+} from '@/lib/fieldTypes';
+import type { FieldDefinition, ItemInstance, ItemType } from '@/types/ItemType';
+
+export interface MigrationFailure {
+  itemId: string;
+  fieldId: string;
+  fieldName: string;
+  value: unknown;
+  reason: string;
+}
+
+export interface ItemTypeMigrationPlan {
+  items: ItemInstance[];
+  failures: MigrationFailure[];
+  removedFields: FieldDefinition[];
+}
+
+export type ConversionResult = { ok: true; value: unknown } | { ok: false; reason: string };
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1', 'x'];
+const FALSE_VALUES = ['false', 'no', 'n', '0'];
+
+const parseDate = (value: unknown) => {
+  const raw = String(value).trim();
+  const parsed = parseISO(raw);
+  return isValid(parsed) ? parsed : new Date(raw);
+};
+
+export function convertFieldValue(value: unknown, from: FieldDefinition, to: FieldDefinition): ConversionResult {
+  if (isEmptyFieldValue(value)) return { ok: true, value };
+
+  switch (to.type) {
+    case 'text':
+    case 'longtext':
+    case 'phone':
+      // The stored value, not its display form, so converting back to the old type still works
+      return { ok: true, value: Array.isArray(value) ? toArray(value).join(', ') : String(value) };
+
+    case 'email': {
+      const email = String(value).trim();
+      return isValidEmail(email) ? { ok: true, value: email } : { ok: false, reason: `"${email}" is not an email address` };
+    }
+
+    case 'url': {
+      const url = String(value).trim();
+      return isValidUrl(url) ? { ok: true, value: url } : { ok: false, reason: `"${url}" is not a valid URL` };
+    }
+
+    case 'number':
+    case 'currency':
+    case 'percentage':
+    case 'rating': {
+      // A trailing percent sign is allowed; anything else must be a plain decimal number
+      const text = String(value).trim().replace(/\s?%$/, '');
+      const parsed = typeof value === 'number' ? value : NUMBER_TEXT.test(text) ? Number(text.replace(/,/g, '')) : NaN;
+      if (!Number.isFinite(parsed)) {
+        return { ok: false, reason: `"${value}" is not a number` };
+      }
+      if (to.type === 'rating' && (parsed < 0 || parsed > RATING_MAX)) {
+        return { ok: false, reason: `${parsed} is outside the 0-${RATING_MAX} rating scale` };
+      }
+      return { ok: true, value: String(to.type === 'rating' ? Math.round(parsed) : parsed) };
+    }
+
+    case 'boolean': {
+      if (typeof value === 'boolean') return { ok: true, value };
+      const normalized = String(value).trim().toLowerCase();
+      if (TRUE_VALUES.includes(normalized)) return { ok: true, value: true };
+      if (FALSE_VALUES.includes(normalized)) return { ok: true, value: false };
+      return { ok: false, reason: `"${value}" is not a yes/no value` };
+    }
+
+    case 'date':
+    case 'datetime': {
+      if (from.type === to.type) return { ok: true, value };
+      const parsed = parseDate(value);
+      if (!isValid(parsed)) {
+        return { ok: false, reason: `"${value}" is not a recognisable date` };
+      }
+      return { ok: true, value: format(parsed, to.type === 'date' ? 'yyyy-MM-dd' : "yyyy-MM-dd'T'HH:mm") };
+    }
+
+    case 'select': {
+      if (Array.isArray(value) && value.length > 1) {
+        return { ok: false, reason: `${value.length} values cannot fit a single-choice field` };
+      }
+      const option = Array.isArray(value) ? String(value[0]) : String(value);
+      if (!to.options?.includes(option)) {
+        return { ok: false, reason: `"${option}" is not one of the available options` };
+      }
+      return { ok: true, value: option };
+    }
+
+    case 'multiselect': {
+      const values = from.type === 'select' ? [String(value)] : toArray(value);
+      const invalid = values.filter(option => !to.options?.includes(option));
+      if (invalid.length > 0) {
+        return { ok: false, reason: `"${invalid.join('", "')}" not in the available options` };
+      }
+      return { ok: true, value: values };
+    }
+
+    case 'formula':
+      // Formula values are computed from the other fields and never stored
+      return { ok: true, value: undefined };
+
+    case 'reference': {
+      if (from.type !== 'reference' || from.reference?.typeId !== to.reference?.typeId) {
+        return { ok: false, reason: 'values cannot be converted into links to other items' };
+      }
+      const ids = toArray(value);
+      if (to.reference?.multiple) return { ok: true, value: ids };
+      if (ids.length > 1) {
+        return { ok: false, reason: `${ids.length} linked items cannot fit a single reference` };
+      }
+      return { ok: true, value: ids[0] };
+    }
+
+    default:
+      return { ok: true, value };
+  }
+}
+
+// Fields are matched by id, so renaming a field never touches stored data.
+export function planItemTypeMigration(
+  previousType: ItemType,
+  nextType: ItemType,
+  items: ItemInstance[]
+): ItemTypeMigrationPlan {
+  const failures: MigrationFailure[] = [];
+  const removedFields = previousType.fields.filter(
+    field => !nextType.fields.some(next => next.id === field.id)
+  );
+
+  const migratedItems = items
+    .filter(item => item.typeId === previousType.id)
+    .map(item => {
+      const data: Record<string, unknown> = {};
+
+      nextType.fields.forEach(field => {
+        const previousField = previousType.fields.find(prev => prev.id === field.id);
+        if (!previousField) return;
+
+        const value = item.data[field.id];
+        const result = convertFieldValue(value, previousField, field);
+        if (result.ok === false) {
+          failures.push({
+            itemId: item.id,
+            fieldId: field.id,
+            fieldName: field.name,
+            value,
+            reason: result.reason
+          });
+          return;
+        }
+        if (!isEmptyFieldValue(result.value)) {
+          data[field.id] = result.value;
+        }
+      });
+
+      return { ...item, typeName: nextType.name, data };
+    });
+
+  return { items: migratedItems, failures, removedFields };
+}
@@ -0,0 +1,250 @@
+import { z } from 'zod';
+import {
+  RATING_MAX,
+  isDateField,
+  isEmptyFieldValue,
+  isNumericField,
+  isTextField,
+  isValidEmail,
+  isValidUrl,
+  toArray
+} from '@/lib/fieldTypes';
+import type { FieldDefinition, FieldValidation, ItemInstance, ItemType } from '@/types/ItemType';
+
+export interface ItemValidationContext {
+  items?: ItemInstance[]; // existing items, used for uniqueness checks
+  itemId?: string; // the item being edited, excluded from uniqueness checks
+}
+
+// Existing items looked up by id, and for each unique field the items holding each
+// value, so checking one item does not scan the whole workspace
+interface ItemIndex {
+  typeOfItem: Map<string, string>;
+  uniqueValues: Map<string, { owners: Map<string, Set<string>>; keyOf: Map<string, string> }>;
+}
+
+export interface ItemValidator {
+  validate: (data: Record<string, unknown>, itemId?: string) => Record<string, string>;
+  accept: (item: ItemInstance) => void; // counts the item in later reference and unique checks
+}
+
+const uniqueKey = (value: unknown) =>
+  Array.isArray(value)
+    ? value.map(String).sort().join('\u0000')
+    : String(value).trim().toLowerCase();
+
+function addToIndex(index: ItemIndex, itemType: ItemType, item: ItemInstance) {
+  index.typeOfItem.set(item.id, item.typeId);
+  if (item.typeId !== itemType.id) return;
+
+  index.uniqueValues.forEach(({ owners, keyOf }, fieldId) => {
+    const previous = keyOf.get(item.id);
+    if (previous !== undefined) {
+      owners.get(previous)?.delete(item.id);
+      keyOf.delete(item.id);
+    }
+    const value = item.data[fieldId];
+    if (isEmptyFieldValue(value)) return;
+    const key = uniqueKey(value);
+    keyOf.set(item.id, key);
+    if (!owners.has(key)) owners.set(key, new Set());
+    owners.get(key).add(item.id);
+  });
+}
+
+function indexItems(itemType: ItemType, items: ItemInstance[]): ItemIndex {
+  const index: ItemIndex = { typeOfItem: new Map(), uniqueValues: new Map() };
+  itemType.fields
+    .filter(field => field.validation?.unique)
+    .forEach(field => index.uniqueValues.set(field.id, { owners: new Map(), keyOf: new Map() }));
+  items.forEach(item => addToIndex(index, itemType, item));
+  return index;
+}
+
+function checkFieldValue(
+  value: unknown,
+  field: FieldDefinition,
+  itemType: ItemType,
+  index: ItemIndex | null,
+  itemId: string | undefined,
+  ctx: z.RefinementCtx
+) {
+  const fail = (message: string) => ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+  const rules = field.validation ?? {};
+
+  // Auto numbers are assigned on save and formulas computed, so neither is entered by hand
+  if (field.type === 'autonumber' || field.type === 'formula') return;
+
+  if (isEmptyFieldValue(value)) {
+    if (field.required) fail(`${field.name} is required`);
+    return;
+  }
+
+  if (isNumericField(field.type)) {
+    const number = Number(value);
+    if (Number.isNaN(number)) return fail(`${field.name} must be a number`);
+    if (field.type === 'rating' && (number < 0 || number > RATING_MAX)) {
+      return fail(`${field.name} must be between 0 and ${RATING_MAX}`);
+    }
+    if (rules.min !== undefined && number < rules.min) return fail(`${field.name} must be at least ${rules.min}`);
+    if (rules.max !== undefined && number > rules.max) return fail(`${field.name} must be at most ${rules.max}`);
+  }
+
+  if (isTextField(field.type)) {
+    const text = String(value);
+    if (field.type === 'email' && !isValidEmail(text)) {
+      return fail(`${field.name} must be a valid email address`);
+    }
+    if (field.type === 'url' && !isValidUrl(text)) {
+      return fail(`${field.name} must be a valid URL starting with http:// or https://`);
+    }
+    if (rules.minLength !== undefined && text.length < rules.minLength) {
+      return fail(`${field.name} must be at least ${rules.minLength} characters`);
+    }
+    if (rules.maxLength !== undefined && text.length > rules.maxLength) {
+      return fail(`${field.name} must be at most ${rules.maxLength} characters`);
+    }
+    if (rules.pattern) {
+      let pattern: RegExp | null = null;
+      try {
+        pattern = new RegExp(rules.pattern);
+      } catch {
+        // An invalid pattern is rejected when the type is saved; ignore it here
+      }
+      if (pattern && !pattern.test(text)) {
+        return fail(rules.patternMessage || `${field.name} does not match the expected format`);
+      }
+    }
+  }
+
+  if (isDateField(field.type)) {
+    const date = String(value);
+    if (Number.isNaN(new Date(date).getTime())) return fail(`${field.name} must be a valid date`);
+    // ISO strings compare correctly as plain text
+    const day = date.slice(0, 10);
+    if (rules.minDate && day < rules.minDate) return fail(`${field.name} must be on or after ${rules.minDate}`);
+    if (rules.maxDate && day > rules.maxDate) return fail(`${field.name} must be on or before ${rules.maxDate}`);
+  }
+
+  if (field.type === 'select' && !field.options?.includes(String(value))) {
+    return fail(`"${value}" is not a valid option for ${field.name}`);
+  }
+
+  if (field.type === 'multiselect' && toArray(value).some(option => !field.options?.includes(option))) {
+    return fail(`${field.name} contains options that are not available`);
+  }
+
+  if (field.type === 'reference') {
+    const ids = toArray(value);
+    if (!field.reference?.multiple && ids.length > 1) return fail(`${field.name} accepts a single item`);
+    if (index) {
+      const missing = ids.filter(id => index.typeOfItem.get(id) !== field.reference?.typeId);
+      if (missing.length > 0) return fail(`${field.name} points at ${missing.length} item(s) that no longer exist`);
+    }
+  }
+
+  const owners = rules.unique && index?.uniqueValues.get(field.id)?.owners.get(uniqueKey(value));
+  if (owners && Array.from(owners).some(ownerId => ownerId !== itemId)) {
+    fail(`Another ${itemType.name} already uses this ${field.name}`);
+  }
+}
+
+function createSchema(itemType: ItemType, index: ItemIndex | null, currentItemId: () => string | undefined) {
+  const shape = itemType.fields.reduce((acc, field) => {
+    acc[field.id] = z.unknown().superRefine((value, ctx) =>
+      checkFieldValue(value, field, itemType, index, currentItemId(), ctx)
+    );
+    return acc;
+  }, {} as Record<string, z.ZodTypeAny>);
+
+  return z.object(shape).passthrough();
+}
+
+export function buildItemSchema(itemType: ItemType, context: ItemValidationContext = {}) {
+  const index = context.items ? indexItems(itemType, context.items) : null;
+  return createSchema(itemType, index, () => context.itemId);
+}
+
+// Validates many items of one type against the same workspace, as imports and pasted
+// ranges do. The schema is built and the items indexed once; accepted items update
+// the index, so later items are checked against them too.
+export function createItemValidator(itemType: ItemType, items: ItemInstance[]): ItemValidator {
+  const index = indexItems(itemType, items);
+  let itemId: string | undefined;
+  const schema = createSchema(itemType, index, () => itemId);
+
+  return {
+    validate: (data, id) => {
+      itemId = id;
+      return collectErrors(schema.safeParse(data));
+    },
+    accept: item => addToIndex(index, itemType, item),
+  };
+}
+
+// Returns the first error message for each invalid field, keyed by field id
+export function validateItemData(
+  itemType: ItemType,
+  data: Record<string, unknown>,
+  context: ItemValidationContext = {}
+): Record<string, string> {
+  return collectErrors(buildItemSchema(itemType, context).safeParse(data));
+}
+
+function collectErrors(result: z.SafeParseReturnType<unknown, unknown>): Record<string, string> {
+  if (result.success) return {};
+
+  return result.error.issues.reduce((acc, issue) => {
+    const fieldId = String(issue.path[0]);
+    if (!acc[fieldId]) acc[fieldId] = issue.message;
+    return acc;
+  }, {} as Record<string, string>);
+}
+
+// Checks the rules themselves, so a type cannot be saved with rules no value could satisfy
+export function validateFieldRules(field: Partial<FieldDefinition>): string | null {
+  const rules = field.validation ?? {};
+  if (rules.min !== undefined && rules.max !== undefined && rules.min > rules.max) {
+    return 'Minimum cannot be greater than maximum';
+  }
+  if (rules.minLength !== undefined && rules.maxLength !== undefined && rules.minLength > rules.maxLength) {
+    return 'Minimum length cannot be greater than maximum length';
+  }
+  if (rules.minDate && rules.maxDate && rules.minDate > rules.maxDate) {
+    return 'Earliest date cannot be after latest date';
+  }
+  if (rules.pattern) {
+    try {
+      new RegExp(rules.pattern);
+    } catch {
+      return 'Pattern is not a valid regular expression';
+    }
+  }
+  return null;
+}
+
+// Drops rules that do not apply to the field type, e.g. after the type was changed
+export function sanitizeFieldRules(field: Partial<FieldDefinition>): FieldValidation | undefined {
+  const rules = field.validation ?? {};
+  const sanitized: FieldValidation = {};
+
+  if (isNumericField(field.type)) {
+    if (rules.min !== undefined) sanitized.min = rules.min;
+    if (rules.max !== undefined) sanitized.max = rules.max;
+  }
+  if (isTextField(field.type)) {
+    if (rules.minLength !== undefined) sanitized.minLength = rules.minLength;
+    if (rules.maxLength !== undefined) sanitized.maxLength = rules.maxLength;
+    if (rules.pattern) {
+      sanitized.pattern = rules.pattern;
+      if (rules.patternMessage) sanitized.patternMessage = rules.patternMessage;
+    }
+  }
+  if (isDateField(field.type)) {
+    if (rules.minDate) sanitized.minDate = rules.minDate;
+    if (rules.maxDate) sanitized.maxDate = rules.maxDate;
+  }
+  if (rules.unique && field.type !== 'boolean') sanitized.unique = true;
+
+  return Object.keys(sanitized).length > 0 ? sanitized : undefined;
+}
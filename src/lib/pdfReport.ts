@@ -0,0 +1,160 @@
+import { jsPDF } from 'jspdf';
+import { autoTable } from 'jspdf-autotable';
+import { format } from 'date-fns';
+import { computeFormulaValues } from '@/lib/formula';
+import { columnText, groupItemsByType } from '@/lib/itemExport';
+import { resolveColumns, type ResolvedColumn } from '@/lib/exportTemplates';
+import { RATING_MAX, isEmptyFieldValue, type ItemLookup } from '@/lib/fieldTypes';
+import type { ItemInstance } from '@/types/ItemType';
+import type { Project } from '@/types/Project';
+
+// autoTable records where the last table ended on the document
+type ReportDocument = jsPDF & { lastAutoTable?: { finalY: number } };
+
+const MARGIN = 14;
+const FOOTER_HEIGHT = 12;
+// --primary and --muted-foreground from index.css
+const PRIMARY: [number, number, number] = [80, 72, 229];
+const MUTED: [number, number, number] = [113, 113, 122];
+
+// The built-in PDF fonts cover Windows-1252 only: Latin-1 plus these characters
+const WIN_ANSI_EXTRAS = new Set('€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ');
+// Letters whose base letter Unicode normalization does not split off
+const BASE_LETTERS: Record<string, string> = { Ł: 'L', ł: 'l', Đ: 'D', đ: 'd', Ħ: 'H', ħ: 'h', ı: 'i' };
+
+const displayDate = (value: string) => format(new Date(value), 'PP');
+
+// Accented letters outside the fonts lose their accents; anything else that cannot be
+// drawn becomes a question mark rather than garbage
+const toPdfText = (text: string) =>
+  Array.from(text, char => {
+    if (char.charCodeAt(0) <= 0xff || WIN_ANSI_EXTRAS.has(char)) return char;
+    if (BASE_LETTERS[char]) return BASE_LETTERS[char];
+    const folded = char.normalize('NFKD').replace(/[\u0300-\u036f]/g, '');
+    return folded && Array.from(folded).every(part => part.charCodeAt(0) <= 0xff) ? folded : '?';
+  }).join('');
+
+// Ratings read as 4/5, since the fonts have no star glyphs
+function cellText(column: ResolvedColumn, item: ItemInstance, data: Record<string, unknown>, lookup: ItemLookup) {
+  const value = column.field ? data[column.field.id] : undefined;
+  if (column.field?.type === 'rating' && !isEmptyFieldValue(value)) {
+    return `${Math.max(0, Math.min(RATING_MAX, Math.round(Number(value))))}/${RATING_MAX}`;
+  }
+  return toPdfText(columnText(column, item, data, lookup));
+}
+
+function drawCover(doc: ReportDocument, project: Project): number {
+  const width = doc.internal.pageSize.getWidth() - MARGIN * 2;
+  let y = MARGIN + 10;
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(22);
+  doc.setTextColor(...PRIMARY);
+  const title = doc.splitTextToSize(toPdfText(project.name), width);
+  doc.text(title, MARGIN, y);
+  y += title.length * 9;
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(11);
+  doc.setTextColor(...MUTED);
+  doc.text(`Project report generated ${format(new Date(), 'PPp')}`, MARGIN, y);
+  y += 10;
+
+  if (project.description) {
+    doc.setTextColor(0);
+    const description = doc.splitTextToSize(toPdfText(project.description), width);
+    doc.text(description, MARGIN, y);
+    y += description.length * 5 + 4;
+  }
+
+  autoTable(doc, {
+    startY: y,
+    theme: 'plain',
+    margin: { left: MARGIN, right: MARGIN },
+    styles: { fontSize: 10, cellPadding: 1.5 },
+    columnStyles: { 0: { fontStyle: 'bold', cellWidth: 35 } },
+    body: [
+      ['Location', toPdfText(project.location) || '—'],
+      ['Created', displayDate(project.createdAt)],
+      ['Last updated', displayDate(project.updatedAt)],
+    ],
+  });
+  return doc.lastAutoTable.finalY + 10;
+}
+
+function drawHeading(doc: ReportDocument, text: string, y: number) {
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(14);
+  doc.setTextColor(...PRIMARY);
+  doc.text(toPdfText(text), MARGIN, y);
+}
+
+// Footer on every page, drawn once the page count is known
+function drawPageNumbers(doc: ReportDocument, project: Project) {
+  const pageCount = doc.getNumberOfPages();
+  const width = doc.internal.pageSize.getWidth();
+  const y = doc.internal.pageSize.getHeight() - FOOTER_HEIGHT / 2;
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  doc.setTextColor(...MUTED);
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.text(toPdfText(project.name), MARGIN, y);
+    doc.text(`Page ${page} of ${pageCount}`, width - MARGIN, y, { align: 'right' });
+  }
+}
+
+// A landscape A4 report: a cover with the project details and item counts, then one
+// table per item type starting on a new page. Tables split across pages by row and
+// repeat their header row on each page.
+export function buildProjectReport(
+  project: Project,
+  items: ItemInstance[],
+  lookup: ItemLookup,
+  onProgress?: (completedItems: number) => void
+): jsPDF {
+  const doc: ReportDocument = new jsPDF({ orientation: 'landscape', unit: 'mm', format: 'a4' });
+  const groups = groupItemsByType(items, lookup.itemTypes);
+  const margin = { top: MARGIN, left: MARGIN, right: MARGIN, bottom: MARGIN + FOOTER_HEIGHT };
+
+  let completed = 0;
+
+  const summaryY = drawCover(doc, project);
+  drawHeading(doc, 'Summary', summaryY);
+  autoTable(doc, {
+    startY: summaryY + 4,
+    margin,
+    head: [['Item type', 'Items']],
+    body: groups.map(({ itemType, items: typeItems }) => [toPdfText(itemType.name), typeItems.length]),
+    foot: [['Total', items.length]],
+    headStyles: { fillColor: PRIMARY },
+    footStyles: { fillColor: [241, 245, 249], textColor: 0 },
+    columnStyles: { 1: { halign: 'right', cellWidth: 30 } },
+    tableWidth: 120,
+  });
+
+  groups.forEach(({ itemType, items: typeItems }) => {
+    doc.addPage();
+    drawHeading(doc, `${itemType.name} (${typeItems.length})`, MARGIN + 6);
+
+    const columns = resolveColumns(itemType);
+    autoTable(doc, {
+      startY: MARGIN + 10,
+      margin,
+      showHead: 'everyPage',
+      rowPageBreak: 'avoid',
+      head: [columns.map(column => toPdfText(column.header))],
+      body: typeItems.map(item => {
+        const data = computeFormulaValues(itemType, item.data);
+        onProgress?.(++completed);
+        return columns.map(column => cellText(column, item, data, lookup));
+      }),
+      styles: { fontSize: 8, cellPadding: 1.5, overflow: 'linebreak' },
+      headStyles: { fillColor: PRIMARY },
+      alternateRowStyles: { fillColor: [248, 250, 252] },
+    });
+  });
+
+  drawPageNumbers(doc, project);
+  return doc;
+}
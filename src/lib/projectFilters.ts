@@ -0,0 +1,137 @@
+import { matchesFilter, toDateKey, type FacetCount, type ItemColumn, type SortOrder } from '@/lib/itemFilters';
+import type { Project } from '@/types/Project';
+import type { ItemInstance, ItemType } from '@/types/ItemType';
+
+export interface ProjectFilters {
+  locations: string[]; // empty for all locations
+  typeIds: string[]; // projects holding at least one item of any of these types
+  createdFrom?: string; // yyyy-MM-dd, inclusive
+  createdTo?: string;
+  minItems?: number;
+  maxItems?: number;
+}
+
+export interface ProjectFacets {
+  locations: FacetCount[];
+  types: FacetCount[];
+}
+
+export const EMPTY_PROJECT_FILTERS: ProjectFilters = { locations: [], typeIds: [] };
+
+export const PROJECT_SORT_OPTIONS = [
+  { value: 'name', label: 'Name' },
+  { value: 'location', label: 'Location' },
+  { value: 'created', label: 'Created' },
+  { value: 'updated', label: 'Updated' },
+  { value: 'items', label: 'Item count' },
+];
+
+const TEXT_ORDER: Intl.CollatorOptions = { numeric: true, sensitivity: 'base' };
+
+const COUNT_COLUMN: ItemColumn = { key: 'items', label: 'Item count', kind: 'number', options: [], fields: new Map() };
+
+interface MatchOptions {
+  ignoreLocations?: boolean;
+  ignoreTypes?: boolean;
+}
+
+// The item types each project holds, looked up once for every filter and facet
+export function projectTypeIds(projects: Project[], items: ItemInstance[]) {
+  const typeOfItem = new Map(items.map(item => [item.id, item.typeId]));
+  return new Map(projects.map(project => [
+    project.id,
+    new Set(project.itemIds.map(id => typeOfItem.get(id)).filter(Boolean)),
+  ]));
+}
+
+export function createProjectMatcher(filters: ProjectFilters, typesByProject: Map<string, Set<string>>) {
+  return (project: Project, { ignoreLocations, ignoreTypes }: MatchOptions = {}) => {
+    if (!ignoreLocations && filters.locations.length > 0 && !filters.locations.includes(project.location)) return false;
+    if (!ignoreTypes && filters.typeIds.length > 0) {
+      const typeIds = typesByProject.get(project.id);
+      if (!filters.typeIds.some(typeId => typeIds?.has(typeId))) return false;
+    }
+    const created = toDateKey(project.createdAt);
+    if (filters.createdFrom && (!created || created < filters.createdFrom)) return false;
+    if (filters.createdTo && (!created || created > filters.createdTo)) return false;
+    return matchesFilter(COUNT_COLUMN, { key: 'items', min: filters.minItems, max: filters.maxItems }, project.itemIds.length);
+  };
+}
+
+export function projectFacets(
+  projects: Project[],
+  itemTypes: ItemType[],
+  typesByProject: Map<string, Set<string>>,
+  matches: ReturnType<typeof createProjectMatcher>
+): ProjectFacets {
+  const locationCounts = new Map<string, number>();
+  projects.forEach(project => {
+    if (!project.location.trim() || !matches(project, { ignoreLocations: true })) return;
+    locationCounts.set(project.location, (locationCounts.get(project.location) ?? 0) + 1);
+  });
+  const locations = Array.from(new Set(projects.map(project => project.location).filter(location => location.trim())))
+    .sort((a, b) => a.localeCompare(b))
+    .map(location => ({ value: location, label: location, count: locationCounts.get(location) ?? 0 }));
+
+  const typeCounts = new Map<string, number>();
+  projects.forEach(project => {
+    if (!matches(project, { ignoreTypes: true })) return;
+    typesByProject.get(project.id)?.forEach(typeId => typeCounts.set(typeId, (typeCounts.get(typeId) ?? 0) + 1));
+  });
+  const types = itemTypes
+    .filter(type => projects.some(project => typesByProject.get(project.id)?.has(type.id)))
+    .map(type => ({ value: type.id, label: type.name, count: typeCounts.get(type.id) ?? 0 }));
+
+  return { locations, types };
+}
+
+export function sortProjects(projects: Project[], sort: SortOrder | null) {
+  if (!sort || !PROJECT_SORT_OPTIONS.some(option => option.value === sort.key)) return projects;
+  const sign = sort.direction === 'desc' ? -1 : 1;
+
+  const compare = (a: Project, b: Project) => {
+    switch (sort.key) {
+      case 'created':
+        return a.createdAt.localeCompare(b.createdAt);
+      case 'updated':
+        return a.updatedAt.localeCompare(b.updatedAt);
+      case 'items':
+        return a.itemIds.length - b.itemIds.length;
+      case 'location':
+        return a.location.localeCompare(b.location, undefined, TEXT_ORDER);
+      default:
+        return a.name.localeCompare(b.name, undefined, TEXT_ORDER);
+    }
+  };
+  return [...projects].sort((a, b) => sign * compare(a, b));
+}
+
+export function parseProjectFilters(text: string): ProjectFilters {
+  if (!text) return EMPTY_PROJECT_FILTERS;
+  try {
+    const parsed = JSON.parse(text);
+    const number = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : undefined);
+    const date = (value: unknown) => (typeof value === 'string' && value ? value : undefined);
+    return {
+      locations: Array.isArray(parsed.locations) ? parsed.locations.map(String) : [],
+      typeIds: Array.isArray(parsed.typeIds) ? parsed.typeIds.map(String) : [],
+      createdFrom: date(parsed.createdFrom),
+      createdTo: date(parsed.createdTo),
+      minItems: number(parsed.minItems),
+      maxItems: number(parsed.maxItems),
+    };
+  } catch {
+    return EMPTY_PROJECT_FILTERS;
+  }
+}
+
+export const isActiveProjectFilters = (filters: ProjectFilters) =>
+  filters.locations.length > 0 ||
+  filters.typeIds.length > 0 ||
+  !!filters.createdFrom ||
+  !!filters.createdTo ||
+  filters.minItems !== undefined ||
+  filters.maxItems !== undefined;
+
+export const serializeProjectFilters = (filters: ProjectFilters) =>
+  isActiveProjectFilters(filters) ? JSON.stringify(filters) : '';
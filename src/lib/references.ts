@@ -0,0 +1,46 @@
+import type { ItemInstance, ItemType } from '@/types/ItemType';
+
+export interface ReferenceCleanup {
+  items: ItemInstance[];
+  updatedItemIds: string[];
+}
+
+// Strips ids of deleted items from every reference field that still points at them
+export function removeReferencesTo(
+  items: ItemInstance[],
+  itemTypes: ItemType[],
+  deletedIds: string[]
+): ReferenceCleanup {
+  const deleted = new Set(deletedIds);
+  const updatedItemIds: string[] = [];
+
+  const cleanedItems = items.map(item => {
+    if (deleted.has(item.id)) return item;
+
+    const referenceFields = itemTypes
+      .find(type => type.id === item.typeId)
+      ?.fields.filter(field => field.type === 'reference') ?? [];
+
+    let changed = false;
+    const data = { ...item.data };
+    referenceFields.forEach(field => {
+      const value = data[field.id];
+      if (Array.isArray(value)) {
+        const remaining = value.filter(id => !deleted.has(id));
+        if (remaining.length !== value.length) {
+          data[field.id] = remaining;
+          changed = true;
+        }
+      } else if (deleted.has(value)) {
+        delete data[field.id];
+        changed = true;
+      }
+    });
+
+    if (!changed) return item;
+    updatedItemIds.push(item.id);
+    return { ...item, data, updatedAt: new Date().toISOString() };
+  });
+
+  return { items: cleanedItems, updatedItemIds };
+}
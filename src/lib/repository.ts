@@ -0,0 +1,63 @@
+import { STORE_NAMES, openDatabase, promisifyRequest, transactionDone, type StoreName, type StoreRecords } from '@/lib/db';
+import type { WorkspaceData } from '@/lib/schemaMigrations';
+import type { ItemInstance } from '@/types/ItemType';
+
+export interface Repository<T extends { id: string }> {
+  getAll(): Promise<T[]>;
+  get(id: string): Promise<T | undefined>;
+  put(entity: T): Promise<void>;
+  putMany(entities: T[]): Promise<void>;
+  delete(id: string): Promise<void>;
+  deleteMany(ids: string[]): Promise<void>;
+}
+
+function createRepository<S extends StoreName>(storeName: S): Repository<StoreRecords[S]> {
+  type Entity = StoreRecords[S];
+
+  const read = async <R>(run: (store: IDBObjectStore) => IDBRequest<R>) => {
+    const db = await openDatabase();
+    return promisifyRequest(run(db.transaction(storeName, 'readonly').objectStore(storeName)));
+  };
+
+  const write = async (run: (store: IDBObjectStore) => void) => {
+    const db = await openDatabase();
+    const transaction = db.transaction(storeName, 'readwrite');
+    run(transaction.objectStore(storeName));
+    await transactionDone(transaction);
+  };
+
+  return {
+    getAll: () => read<Entity[]>(store => store.getAll()),
+    get: (id) => read<Entity | undefined>(store => store.get(id)),
+    put: (entity) => write(store => store.put(entity)),
+    putMany: (entities) => write(store => entities.forEach(entity => store.put(entity))),
+    delete: (id) => write(store => store.delete(id)),
+    deleteMany: (ids) => write(store => ids.forEach(id => store.delete(id))),
+  };
+}
+
+export const itemTypeRepository = createRepository('itemTypes');
+
+export const projectRepository = createRepository('projects');
+
+export const itemRepository = {
+  ...createRepository('items'),
+
+  async getByType(typeId: string): Promise<ItemInstance[]> {
+    const db = await openDatabase();
+    const index = db.transaction('items', 'readonly').objectStore('items').index('typeId');
+    return promisifyRequest(index.getAll(typeId));
+  },
+};
+
+// Swaps the entire workspace in one transaction, so a failed restore changes nothing
+export async function replaceWorkspace(data: WorkspaceData): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORE_NAMES, 'readwrite');
+  STORE_NAMES.forEach(name => {
+    const store = transaction.objectStore(name);
+    store.clear();
+    (data[name] as StoreRecords[typeof name][]).forEach(record => store.put(record));
+  });
+  await transactionDone(transaction);
+}
@@ -0,0 +1,121 @@
+import type { ItemInstance, ItemType } from '@/types/ItemType';
+import type { Project } from '@/types/Project';
+
+// Bump this and register a migration below whenever a persisted shape changes.
+// Version 1 is the unversioned data written by the localStorage releases.
+export const CURRENT_SCHEMA_VERSION = 2;
+
+export interface WorkspaceData {
+  itemTypes: ItemType[];
+  items: ItemInstance[];
+  projects: Project[];
+}
+
+export interface SchemaMigration {
+  // The version the payload is at once this step has run
+  version: number;
+  description: string;
+  migrate: (data: unknown) => unknown;
+}
+
+export class SchemaMigrationError extends Error {
+  constructor(message: string, public fromVersion: number, public toVersion: number) {
+    super(message);
+    this.name = 'SchemaMigrationError';
+  }
+}
+
+type StoredRecord = { id: string } & Record<string, unknown>;
+
+const requireArray = (data: unknown, key: string): StoredRecord[] => {
+  const value = (data as Record<string, unknown> | null)?.[key];
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) throw new Error(`"${key}" is not a list`);
+  value.forEach((record, index) => {
+    if (!record || typeof record !== 'object' || typeof record.id !== 'string') {
+      throw new Error(`Entry ${index + 1} of "${key}" has no ID`);
+    }
+  });
+  return value as StoredRecord[];
+};
+
+const migrations: SchemaMigration[] = [
+  {
+    version: 2,
+    description: 'Normalize records written before data was versioned',
+    migrate: (data) => {
+      const now = new Date().toISOString();
+
+      const itemTypes = requireArray(data, 'itemTypes').map(type => ({
+        ...type,
+        name: String(type.name ?? ''),
+        fields: (Array.isArray(type.fields) ? type.fields : []).map(field => ({
+          ...field,
+          required: Boolean(field.required),
+        })),
+        createdAt: type.createdAt ?? now,
+      }));
+      const typeNames = new Map(itemTypes.map(type => [type.id, type.name]));
+
+      // Item type names are copied onto items, and could drift before types were editable
+      const items = requireArray(data, 'items').map(item => ({
+        ...item,
+        typeName: typeNames.get(String(item.typeId)) ?? item.typeName ?? '',
+        data: item.data && typeof item.data === 'object' ? item.data : {},
+        createdAt: item.createdAt ?? now,
+      }));
+      const itemIds = new Set(items.map(item => item.id));
+
+      const projects = requireArray(data, 'projects').map(project => ({
+        ...project,
+        description: project.description ?? '',
+        location: project.location ?? '',
+        itemIds: [...new Set<string>(Array.isArray(project.itemIds) ? project.itemIds : [])]
+          .filter(id => itemIds.has(id)),
+        createdAt: project.createdAt ?? now,
+        updatedAt: project.updatedAt ?? project.createdAt ?? now,
+      }));
+
+      return { itemTypes, items, projects };
+    },
+  },
+];
+
+// Runs every registered step between fromVersion and the current version, in order
+export function migrateWorkspace(
+  data: unknown,
+  fromVersion: number
+): { data: WorkspaceData; applied: SchemaMigration[] } {
+  if (!Number.isInteger(fromVersion) || fromVersion < 1) {
+    throw new SchemaMigrationError(`Unknown data version "${fromVersion}"`, fromVersion, CURRENT_SCHEMA_VERSION);
+  }
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new SchemaMigrationError(
+      `This data was saved by a newer version of the app (version ${fromVersion}, this app reads up to ${CURRENT_SCHEMA_VERSION}). Please update the app.`,
+      fromVersion,
+      CURRENT_SCHEMA_VERSION
+    );
+  }
+
+  const applied: SchemaMigration[] = [];
+  let current = data;
+  for (let version = fromVersion + 1; version <= CURRENT_SCHEMA_VERSION; version++) {
+    const step = migrations.find(migration => migration.version === version);
+    if (!step) {
+      throw new SchemaMigrationError(`No migration registered to reach version ${version}`, fromVersion, version);
+    }
+    try {
+      current = step.migrate(current);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new SchemaMigrationError(
+        `Upgrading data to version ${version} (${step.description.toLowerCase()}) failed: ${reason}`,
+        fromVersion,
+        version
+      );
+    }
+    applied.push(step);
+  }
+
+  return { data: current as WorkspaceData, applied };
+}
@@ -0,0 +1,338 @@
+import * as XLSX from 'xlsx';
+import { format, isValid } from 'date-fns';
+import { getItemLabel, isEmptyFieldValue, isNumericField, type ItemLookup } from '@/lib/fieldTypes';
+import { convertFieldValue, type ConversionResult } from '@/lib/itemTypeMigration';
+import { findLastItemOfType, resolveDefaultValues } from '@/lib/fieldDefaults';
+import { createItemValidator } from '@/lib/itemValidation';
+import type { FieldDefinition, ItemInstance, ItemType } from '@/types/ItemType';
+
+export interface ImportCell {
+  value: unknown; // raw cell value; dates arrive as Date objects
+  text: string; // the value as displayed in the spreadsheet
+  format?: string;
+}
+
+export interface SheetRow {
+  rowNumber: number; // as shown in the spreadsheet, starting at 1
+  cells: ImportCell[];
+}
+
+export interface SheetData {
+  name: string;
+  headers: string[];
+  rows: SheetRow[];
+}
+
+// Field id → index of the column it is read from
+export type ColumnMapping = Record<string, number>;
+
+export interface ImportRow {
+  rowNumber: number;
+  data: Record<string, unknown>;
+  errors: string[];
+  itemId?: string; // the existing item this row updates
+  changes?: FieldChange[]; // set for rows that update an existing item
+}
+
+export interface ItemImportResult {
+  itemType: ItemType; // with auto-number counters advanced past the imported items
+  items: ItemInstance[]; // newly created
+  updatedItems: ItemInstance[];
+  matchedItemIds: string[]; // existing items the sheet's rows refer to, changed or not
+  newType?: boolean; // the item type was created by this import
+  projectId?: string;
+}
+
+const EMPTY_CELL: ImportCell = { value: '', text: '' };
+
+// Stands in for the source field when converting plain text with convertFieldValue
+const TEXT_FIELD: FieldDefinition = { id: '', name: '', type: 'text', required: false };
+
+export async function readWorkbookFile(file: File, options: XLSX.ParsingOptions = {}): Promise<XLSX.WorkBook> {
+  const data = await file.arrayBuffer();
+  return XLSX.read(data, { type: 'array', cellDates: true, cellNF: true, ...options });
+}
+
+const columnName = (index: number) => `Column ${XLSX.utils.encode_col(index)}`;
+
+// The first non-empty row is taken as the header row; blank rows below it are skipped
+export function readSheet(workbook: XLSX.WorkBook, sheetName: string): SheetData {
+  const sheet = workbook.Sheets[sheetName];
+  if (!sheet?.['!ref']) return { name: sheetName, headers: [], rows: [] };
+
+  const range = XLSX.utils.decode_range(sheet['!ref']);
+  const rows: SheetRow[] = [];
+  for (let r = range.s.r; r <= range.e.r; r++) {
+    const cells: ImportCell[] = [];
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      const cell: XLSX.CellObject | undefined = sheet[XLSX.utils.encode_cell({ r, c })];
+      cells.push(cell && cell.v !== undefined
+        ? { value: cell.v, text: cell.w ?? String(cell.v), format: typeof cell.z === 'string' ? cell.z : undefined }
+        : EMPTY_CELL);
+    }
+    if (cells.some(cell => cell.text.trim() !== '')) {
+      rows.push({ rowNumber: r + 1, cells });
+    }
+  }
+
+  const [headerRow, ...dataRows] = rows;
+  const headers = (headerRow?.cells ?? []).map((cell, index) => cell.text.trim() || columnName(index));
+  return { name: sheetName, headers, rows: dataRows };
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Formulas are computed from the other fields, so there is nothing to import into them
+export const isImportableField = (field: FieldDefinition) => field.type !== 'formula';
+
+export function autoMatchColumns(headers: string[], fields: FieldDefinition[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const used = new Set<number>();
+  const normalized = headers.map(normalizeHeader);
+
+  fields.filter(isImportableField).forEach(field => {
+    const candidates = [normalizeHeader(field.name), normalizeHeader(field.id)];
+    const column = normalized.findIndex((header, index) => !used.has(index) && header !== '' && candidates.includes(header));
+    if (column === -1) return;
+    mapping[field.id] = column;
+    used.add(column);
+  });
+
+  return mapping;
+}
+
+const matchOption = (value: string, options: string[] = []) =>
+  options.find(option => option.toLowerCase() === value.trim().toLowerCase());
+
+const toDate = (cell: ImportCell): Date | null => {
+  if (cell.value instanceof Date) return cell.value;
+  if (typeof cell.value === 'number') {
+    const parsed = XLSX.SSF.parse_date_code(cell.value);
+    return parsed ? new Date(parsed.y, parsed.m - 1, parsed.d, parsed.H, parsed.M, Math.round(parsed.S)) : null;
+  }
+  return null;
+};
+
+function matchReferences(text: string, field: FieldDefinition, lookup: ItemLookup): ConversionResult {
+  const candidates = lookup.items.filter(item => item.typeId === field.reference?.typeId);
+  const find = (part: string) => {
+    const needle = part.trim().toLowerCase();
+    return candidates.find(item =>
+      item.id.toLowerCase() === needle ||
+      getItemLabel(item, lookup.itemTypes, field.reference?.displayFieldId).toLowerCase() === needle
+    );
+  };
+
+  // Labels may contain commas themselves, so try the whole value before splitting
+  const whole = find(text);
+  const parts = whole ? [text] : text.split(/[,;]/).filter(part => part.trim() !== '');
+  const matches = whole ? [whole] : parts.map(find);
+  const missing = parts.filter((part, index) => !matches[index]);
+  if (missing.length > 0) {
+    return { ok: false, reason: `no linked item matches "${missing.map(part => part.trim()).join('", "')}"` };
+  }
+
+  const ids = matches.map(item => item.id);
+  if (field.reference?.multiple) return { ok: true, value: ids };
+  if (ids.length > 1) return { ok: false, reason: `${ids.length} linked items cannot fit a single reference` };
+  return { ok: true, value: ids[0] };
+}
+
+// Converts a spreadsheet cell into the value an item stores for this field
+export function coerceCell(cell: ImportCell, field: FieldDefinition, lookup: ItemLookup): ConversionResult {
+  const text = cell.text.trim();
+  if (isEmptyFieldValue(cell.value) || text === '') return { ok: true, value: undefined };
+
+  switch (field.type) {
+    case 'text':
+    case 'longtext':
+    case 'phone':
+    case 'autonumber':
+      return { ok: true, value: text };
+
+    case 'number':
+    case 'currency':
+    case 'rating': {
+      if (typeof cell.value === 'number') return convertFieldValue(cell.value, TEXT_FIELD, field);
+      // Allow currency symbols and units around the number, as in "$1,200" or "12 kg"
+      const numeric = text.replace(/^[^\d\-.]+|[^\d.]+$/g, '');
+      if (numeric === '') return { ok: false, reason: `"${text}" is not a number` };
+      return convertFieldValue(numeric, TEXT_FIELD, field);
+    }
+
+    case 'percentage':
+      // Percent-formatted cells hold fractions, while items store the percentage itself
+      if (typeof cell.value === 'number' && cell.format?.includes('%')) {
+        return { ok: true, value: String(Math.round(cell.value * 100 * 1e9) / 1e9) };
+      }
+      return convertFieldValue(typeof cell.value === 'number' ? cell.value : text, TEXT_FIELD, field);
+
+    case 'boolean':
+      return convertFieldValue(typeof cell.value === 'boolean' ? cell.value : text, TEXT_FIELD, field);
+
+    case 'date':
+    case 'datetime': {
+      const date = toDate(cell);
+      if (date && isValid(date)) {
+        return { ok: true, value: format(date, field.type === 'date' ? 'yyyy-MM-dd' : "yyyy-MM-dd'T'HH:mm") };
+      }
+      return convertFieldValue(text, TEXT_FIELD, field);
+    }
+
+    case 'select': {
+      const option = matchOption(text, field.options);
+      return option ? { ok: true, value: option } : { ok: false, reason: `"${text}" is not one of the available options` };
+    }
+
+    case 'multiselect': {
+      const parts = text.split(/[,;]/).map(part => part.trim()).filter(Boolean);
+      const invalid = parts.filter(part => !matchOption(part, field.options));
+      if (invalid.length > 0) {
+        return { ok: false, reason: `"${invalid.join('", "')}" not in the available options` };
+      }
+      return { ok: true, value: parts.map(part => matchOption(part, field.options)) };
+    }
+
+    case 'reference':
+      return matchReferences(text, field, lookup);
+
+    case 'formula':
+      return { ok: true, value: undefined };
+
+    default:
+      return convertFieldValue(text, TEXT_FIELD, field);
+  }
+}
+
+export interface FieldChange {
+  field: FieldDefinition;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ImportOptions {
+  idColumn?: number; // column holding item IDs, used to update existing items
+}
+
+export const findIdColumn = (headers: string[]) => {
+  const index = headers.findIndex(header => normalizeHeader(header) === 'id');
+  return index === -1 ? undefined : index;
+};
+
+const comparable = (value: unknown, field: FieldDefinition) => {
+  if (isEmptyFieldValue(value)) return '';
+  if (Array.isArray(value)) return value.map(String).sort().join('\u0000');
+  if (isNumericField(field.type) && !Number.isNaN(Number(value))) return String(Number(value));
+  return String(value);
+};
+
+export function diffItemData(
+  itemType: ItemType,
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): FieldChange[] {
+  return itemType.fields
+    .filter(field => field.type !== 'formula' && comparable(before[field.id], field) !== comparable(after[field.id], field))
+    .map(field => ({ field, before: before[field.id], after: after[field.id] }));
+}
+
+// Reads every data row through the mapping. When an ID column is given, rows whose
+// ID belongs to an existing item of the type update that item and keep its values
+// for unmapped fields; other rows become new items with unmapped fields at their
+// defaults. Uniqueness is checked against existing items and earlier rows.
+export function buildImportRows(
+  sheet: SheetData,
+  itemType: ItemType,
+  mapping: ColumnMapping,
+  lookup: ItemLookup,
+  options: ImportOptions = {}
+): ImportRow[] {
+  const defaults = resolveDefaultValues(itemType, findLastItemOfType(lookup.items, itemType.id));
+  const itemsById = new Map(lookup.items.map(item => [item.id, item]));
+  const validator = createItemValidator(itemType, lookup.items);
+  const seenIds = new Map<string, number>();
+
+  return sheet.rows.map(row => {
+    const errors: string[] = [];
+    const rowId = options.idColumn === undefined ? '' : (row.cells[options.idColumn]?.text ?? '').trim();
+    const existing = rowId ? itemsById.get(rowId) : undefined;
+
+    if (rowId && seenIds.has(rowId)) {
+      errors.push(`ID "${rowId}" already appears on row ${seenIds.get(rowId)}`);
+    } else if (rowId) {
+      seenIds.set(rowId, row.rowNumber);
+    }
+    if (existing && existing.typeId !== itemType.id) {
+      errors.push(`ID "${rowId}" belongs to a ${existing.typeName} item`);
+    }
+    const target = existing?.typeId === itemType.id ? existing : undefined;
+
+    const data: Record<string, unknown> = target ? { ...target.data } : {};
+    itemType.fields.forEach(field => {
+      const column = mapping[field.id];
+      if (column === undefined) {
+        if (!target && !isEmptyFieldValue(defaults[field.id])) data[field.id] = defaults[field.id];
+        return;
+      }
+      const result = coerceCell(row.cells[column] ?? EMPTY_CELL, field, lookup);
+      if (result.ok === false) {
+        errors.push(`${field.name}: ${result.reason}`);
+      } else if (!isEmptyFieldValue(result.value)) {
+        data[field.id] = result.value;
+      } else if (field.type !== 'autonumber') {
+        // An emptied cell clears the value, but an item never loses its number
+        delete data[field.id];
+      }
+    });
+
+    const key = target?.id ?? `row_${row.rowNumber}`;
+    if (errors.length === 0) errors.push(...Object.values(validator.validate(data, key)));
+    if (errors.length === 0) {
+      validator.accept({ id: key, typeId: itemType.id, typeName: itemType.name, data, createdAt: '' });
+    }
+
+    return {
+      rowNumber: row.rowNumber,
+      data,
+      errors,
+      itemId: target?.id,
+      changes: target ? diffItemData(itemType, target.data, data) : undefined,
+    };
+  });
+}
+
+// Items of the type (optionally limited to a set of IDs, such as a project's) that
+// no row of the sheet refers to
+export function findMissingItems(
+  rows: ImportRow[],
+  items: ItemInstance[],
+  itemType: ItemType,
+  scope?: string[]
+): ItemInstance[] {
+  const present = new Set(rows.map(row => row.itemId).filter(Boolean));
+  return items.filter(item =>
+    item.typeId === itemType.id && !present.has(item.id) && (!scope || scope.includes(item.id))
+  );
+}
+
+export function createImportedItems(itemType: ItemType, rows: ImportRow[]): ItemInstance[] {
+  const stamp = Date.now();
+  const createdAt = new Date().toISOString();
+  return rows
+    .filter(row => row.errors.length === 0 && !row.itemId)
+    .map((row, index) => ({
+      id: `item_${stamp}_${index + 1}`,
+      typeId: itemType.id,
+      typeName: itemType.name,
+      data: row.data,
+      createdAt,
+    }));
+}
+
+export function applyImportedUpdates(rows: ImportRow[], items: ItemInstance[]): ItemInstance[] {
+  const updatedAt = new Date().toISOString();
+  const itemsById = new Map(items.map(item => [item.id, item]));
+  return rows
+    .filter(row => row.errors.length === 0 && row.itemId && row.changes.length > 0)
+    .map(row => ({ ...itemsById.get(row.itemId), data: row.data, updatedAt }));
+}
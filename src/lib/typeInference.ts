@@ -0,0 +1,128 @@
+import { isValid, parseISO } from 'date-fns';
+import { NUMBER_TEXT, isValidEmail, isValidUrl } from '@/lib/fieldTypes';
+import type { ImportCell, SheetData } from '@/lib/spreadsheetImport';
+import type { FieldDefinition, FieldType, ItemType } from '@/types/ItemType';
+
+// Types a column can be guessed as; the rest need configuration no sheet can provide
+export const INFERABLE_FIELD_TYPES: FieldType[] = [
+  'text', 'longtext', 'number', 'currency', 'percentage', 'boolean',
+  'email', 'url', 'phone', 'date', 'datetime', 'select', 'multiselect',
+];
+
+const SAMPLE_SIZE = 500;
+const MAX_SELECT_OPTIONS = 12;
+const LONG_TEXT_LENGTH = 120;
+
+const BOOLEAN_WORDS = ['true', 'false', 'yes', 'no', 'y', 'n'];
+const CURRENCY_FORMAT = /[$€£¥]|\[\$/;
+const CURRENCY_TEXT = /^[-+]?[$€£¥]\s?[\d,]+(\.\d+)?$|^[-+]?[\d,]+(\.\d+)?\s?[$€£¥]$/;
+const PERCENT_TEXT = /^[-+]?\d+(\.\d+)?\s?%$/;
+const LEADING_ZERO = /^[-+]?0\d/;
+const PHONE_TEXT = /^\+?[\d\s().-]{7,}$/;
+// As multiselect cells are split on import
+const LIST_SEPARATOR = /[,;]/;
+
+// A full yyyy-MM-dd date, so a column of years or months is not read as dates
+const isDateText = (text: string) => /^\d{4}-\d{2}-\d{2}/.test(text) && isValid(parseISO(text));
+
+const hasTime = (cell: ImportCell) => {
+  if (cell.value instanceof Date) {
+    return cell.value.getHours() !== 0 || cell.value.getMinutes() !== 0;
+  }
+  return /[T\s]\d{1,2}:\d{2}/.test(cell.text);
+};
+
+export interface InferredField {
+  type: FieldType;
+  options?: string[];
+}
+
+// A handful of values repeated across many rows reads as a fixed list of choices.
+// Returns the choices, or null as soon as there are too many.
+function distinctChoices(values: string[]): string[] | null {
+  const distinct = new Set<string>();
+  for (const value of values) {
+    distinct.add(value);
+    if (distinct.size > MAX_SELECT_OPTIONS) return null;
+  }
+  return values.length >= 4 && distinct.size <= values.length / 2 ? [...distinct] : null;
+}
+
+// Guesses a field type from a column's cells. Every non-empty sample has to fit a
+// type for it to be chosen; anything that does not fit falls back to text.
+export function inferFieldType(cells: ImportCell[]): InferredField {
+  const samples = cells.filter(cell => cell.text.trim() !== '').slice(0, SAMPLE_SIZE);
+  if (samples.length === 0) return { type: 'text' };
+  const texts = samples.map(cell => cell.text.trim());
+  const every = (test: (cell: ImportCell, text: string) => boolean) =>
+    samples.every((cell, index) => test(cell, texts[index]));
+
+  if (every((cell, text) => typeof cell.value === 'boolean' || BOOLEAN_WORDS.includes(text.toLowerCase()))) {
+    return { type: 'boolean' };
+  }
+
+  if (every((cell, text) => cell.value instanceof Date || (typeof cell.value === 'string' && isDateText(text)))) {
+    return { type: samples.some(hasTime) ? 'datetime' : 'date' };
+  }
+
+  // Codes such as 01234 would lose their leading zeros as numbers, so any one keeps the column text
+  const isCode = cells.some(cell => LEADING_ZERO.test(cell.text.trim()));
+  if (!isCode) {
+    if (every((cell, text) => (typeof cell.value === 'number' && !!cell.format?.includes('%')) || PERCENT_TEXT.test(text))) {
+      return { type: 'percentage' };
+    }
+    if (every((cell, text) =>
+      (typeof cell.value === 'number' && CURRENCY_FORMAT.test(cell.format ?? '')) || CURRENCY_TEXT.test(text)
+    )) {
+      return { type: 'currency' };
+    }
+    if (every((cell, text) => typeof cell.value === 'number' || NUMBER_TEXT.test(text))) {
+      return { type: 'number' };
+    }
+  }
+
+  if (every((_, text) => isValidEmail(text))) return { type: 'email' };
+  if (every((_, text) => isValidUrl(text))) return { type: 'url' };
+  if (every((_, text) => PHONE_TEXT.test(text) && text.replace(/\D/g, '').length >= 7)) return { type: 'phone' };
+
+  // Choices are collected from every row, not only the samples, so no option is missing.
+  // Cells holding several of them are a multiselect when splitting them shows fewer
+  // distinct values than the cells have, as "Red, Blue" and "Blue" share Blue.
+  const filled = cells.map(cell => cell.text.trim()).filter(text => text !== '');
+  const options = distinctChoices(filled);
+  if (filled.some(text => LIST_SEPARATOR.test(text))) {
+    const parts = filled.flatMap(text => text.split(LIST_SEPARATOR).map(part => part.trim()).filter(Boolean));
+    const partOptions = distinctChoices(parts);
+    if (partOptions && (!options || partOptions.length < options.length)) {
+      return { type: 'multiselect', options: partOptions };
+    }
+  }
+  if (options) return { type: 'select', options };
+
+  if (texts.some(text => text.length > LONG_TEXT_LENGTH || text.includes('\n'))) {
+    return { type: 'longtext' };
+  }
+  return { type: 'text' };
+}
+
+// Proposes an item type with one field per column of the sheet
+export function inferItemType(sheet: SheetData, name: string): ItemType {
+  const stamp = Date.now();
+  const fields: FieldDefinition[] = sheet.headers.map((header, column) => {
+    const inferred = inferFieldType(sheet.rows.map(row => row.cells[column] ?? { value: '', text: '' }));
+    return {
+      id: `field_${stamp}_${column + 1}`,
+      name: header,
+      type: inferred.type,
+      required: false,
+      ...(inferred.options ? { options: inferred.options } : {}),
+    };
+  });
+
+  return {
+    id: `type_${stamp}`,
+    name,
+    fields,
+    createdAt: new Date().toISOString(),
+  };
+}
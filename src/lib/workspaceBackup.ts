@@ -0,0 +1,367 @@
+import { z } from 'zod';
+import { FIELD_TYPES, getItemLabel } from '@/lib/fieldTypes';
+import { convertFieldValue } from '@/lib/itemTypeMigration';
+import { createItemValidator } from '@/lib/itemValidation';
+import { CURRENT_SCHEMA_VERSION, migrateWorkspace, type WorkspaceData } from '@/lib/schemaMigrations';
+import type { ItemInstance, ItemType } from '@/types/ItemType';
+import type { Project } from '@/types/Project';
+
+export const BACKUP_FORMAT = 'item-scribe-workspace';
+
+export interface WorkspaceBackup extends WorkspaceData {
+  format: typeof BACKUP_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  counts: Record<keyof WorkspaceData, number>;
+}
+
+export interface RejectedItem {
+  id: string;
+  label: string;
+  typeName: string;
+  problems: string[];
+}
+
+export interface ParsedBackup {
+  data: WorkspaceData; // without the rejected items
+  schemaVersion: number;
+  exportedAt: string;
+  rejected: RejectedItem[]; // items whose values do not fit their fields
+}
+
+export class BackupError extends Error {
+  constructor(message: string, public issues: string[] = []) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+export type ImportMode = 'replace' | 'merge';
+
+// What happens to an incoming record whose ID already exists when merging
+export type CollisionStrategy = 'overwrite' | 'skip' | 'duplicate';
+
+export interface CollectionSummary {
+  added: number;
+  updated: number;
+  skipped: number;
+  removed: number;
+}
+
+export interface WorkspaceImportPlan {
+  data: WorkspaceData; // the complete workspace once the import is applied
+  summary: Record<keyof WorkspaceData, CollectionSummary>;
+  collisions: Record<keyof WorkspaceData, number>;
+}
+
+export const COLLECTION_LABELS: Record<keyof WorkspaceData, string> = {
+  itemTypes: 'Item types',
+  items: 'Items',
+  projects: 'Projects',
+};
+
+const COLLECTIONS: (keyof WorkspaceData)[] = ['itemTypes', 'items', 'projects'];
+
+const fieldSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  type: z.string().refine(type => FIELD_TYPES.some(option => option.value === type), {
+    message: 'Unknown field type',
+  }),
+  required: z.boolean(),
+  options: z.array(z.string()).optional(),
+}).passthrough();
+
+const itemTypeSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  fields: z.array(fieldSchema),
+  createdAt: z.string(),
+}).passthrough();
+
+const itemSchema = z.object({
+  id: z.string().min(1),
+  typeId: z.string().min(1),
+  typeName: z.string(),
+  data: z.record(z.unknown()),
+  createdAt: z.string(),
+  updatedAt: z.string().optional(),
+}).passthrough();
+
+const projectSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  description: z.string(),
+  location: z.string(),
+  itemIds: z.array(z.string()),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+}).passthrough();
+
+const findDuplicateIds = (records: { id: string }[]) => {
+  const seen = new Set<string>();
+  return records.filter(record => seen.has(record.id) || !seen.add(record.id)).map(record => record.id);
+};
+
+const workspaceSchema = z.object({
+  itemTypes: z.array(itemTypeSchema),
+  items: z.array(itemSchema),
+  projects: z.array(projectSchema),
+}).superRefine((data, ctx) => {
+  COLLECTIONS.forEach(key => {
+    findDuplicateIds(data[key] as { id: string }[]).forEach(id => {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [key], message: `Duplicate ID "${id}"` });
+    });
+  });
+
+  const typeIds = new Set(data.itemTypes.map(type => type.id));
+  data.items.forEach((item, index) => {
+    if (!typeIds.has(item.typeId)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['items', index, 'typeId'],
+        message: `Item type "${item.typeId}" is not in the file`,
+      });
+    }
+  });
+
+  const itemIds = new Set(data.items.map(item => item.id));
+  data.projects.forEach((project, index) => {
+    project.itemIds.forEach(id => {
+      if (itemIds.has(id)) return;
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['projects', index, 'itemIds'],
+        message: `Item "${id}" is not in the file`,
+      });
+    });
+  });
+});
+
+const envelopeSchema = z.object({
+  format: z.literal(BACKUP_FORMAT, {
+    errorMap: () => ({ message: 'This is not a workspace backup file' }),
+  }),
+  schemaVersion: z.number().int().positive(),
+  exportedAt: z.string(),
+  itemTypes: z.array(z.unknown()).default([]),
+  items: z.array(z.unknown()).default([]),
+  projects: z.array(z.unknown()).default([]),
+});
+
+// "items #4 › data" style paths, numbered from 1 for display
+const formatIssue = (issue: z.ZodIssue) => {
+  const path = issue.path.reduce<string>(
+    (text, part) => (typeof part === 'number' ? `${text} #${part + 1}` : text ? `${text} › ${part}` : String(part)),
+    ''
+  );
+  return path ? `${path}: ${issue.message}` : issue.message;
+};
+
+// Brings each item's values to the form its field types store, as changing a field's
+// type does, then validates the item against the rest of the file. Items that still
+// fail are left out, and so are their places in projects.
+function checkItems(data: WorkspaceData): { data: WorkspaceData; rejected: RejectedItem[] } {
+  const validators = new Map(data.itemTypes.map(type => [type.id, createItemValidator(type, data.items)]));
+  const typesById = new Map(data.itemTypes.map(type => [type.id, type]));
+  const rejected: RejectedItem[] = [];
+
+  const items = data.items.flatMap(item => {
+    const itemType = typesById.get(item.typeId);
+    const itemData = { ...item.data };
+    const problems: string[] = [];
+
+    itemType.fields.forEach(field => {
+      const value = itemData[field.id];
+      if (value === undefined) return;
+      if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+        problems.push(`${field.name}: not a value this field can hold`);
+        delete itemData[field.id];
+        return;
+      }
+      const result = convertFieldValue(value, field, field);
+      if (result.ok === false) {
+        problems.push(`${field.name}: ${result.reason}`);
+      } else if (result.value === undefined) {
+        delete itemData[field.id];
+      } else {
+        itemData[field.id] = result.value;
+      }
+    });
+    if (problems.length === 0) problems.push(...Object.values(validators.get(item.typeId).validate(itemData, item.id)));
+
+    if (problems.length > 0) {
+      rejected.push({ id: item.id, label: getItemLabel({ ...item, data: itemData }, data.itemTypes), typeName: itemType.name, problems });
+      return [];
+    }
+    return [{ ...item, data: itemData }];
+  });
+
+  const rejectedIds = new Set(rejected.map(item => item.id));
+  const projects = rejectedIds.size === 0
+    ? data.projects
+    : data.projects.map(project => ({ ...project, itemIds: project.itemIds.filter(id => !rejectedIds.has(id)) }));
+
+  return { data: { itemTypes: data.itemTypes, items, projects }, rejected };
+}
+
+export function createWorkspaceBackup(data: WorkspaceData): WorkspaceBackup {
+  return {
+    format: BACKUP_FORMAT,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    counts: {
+      itemTypes: data.itemTypes.length,
+      items: data.items.length,
+      projects: data.projects.length,
+    },
+    itemTypes: data.itemTypes,
+    items: data.items,
+    projects: data.projects,
+  };
+}
+
+// Reads a backup file, upgrading older versions before validating the contents
+export function parseWorkspaceBackup(text: string): ParsedBackup {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new BackupError('The file is not valid JSON.');
+  }
+
+  const envelope = envelopeSchema.safeParse(json);
+  if (!envelope.success) {
+    throw new BackupError('The file is not a valid workspace backup.', envelope.error.issues.map(formatIssue));
+  }
+
+  const { schemaVersion, exportedAt, itemTypes, items, projects } = envelope.data;
+  let upgraded: WorkspaceData;
+  try {
+    upgraded = migrateWorkspace({ itemTypes, items, projects }, schemaVersion).data;
+  } catch (error) {
+    throw new BackupError(error instanceof Error ? error.message : String(error));
+  }
+
+  const result = workspaceSchema.safeParse(upgraded);
+  if (!result.success) {
+    throw new BackupError('The backup contains invalid data.', result.error.issues.map(formatIssue));
+  }
+
+  const { data, rejected } = checkItems(result.data as WorkspaceData);
+  return { data, schemaVersion, exportedAt, rejected };
+}
+
+export function countCollisions(current: WorkspaceData, incoming: WorkspaceData) {
+  const collisions = {} as Record<keyof WorkspaceData, number>;
+  COLLECTIONS.forEach(key => {
+    const existing = new Set(current[key].map(record => record.id));
+    collisions[key] = incoming[key].filter(record => existing.has(record.id)).length;
+  });
+  return collisions;
+}
+
+// Gives colliding incoming records fresh IDs and points everything in the file that
+// referred to them (item type, reference fields, project item lists) at the new IDs
+function duplicateCollisions(current: WorkspaceData, incoming: WorkspaceData): WorkspaceData {
+  const stamp = Date.now().toString(36);
+  const remap = (records: { id: string }[], existing: { id: string }[]) => {
+    const ids = new Set(existing.map(record => record.id));
+    return new Map(records.filter(record => ids.has(record.id)).map(record => [record.id, `${record.id}_${stamp}`]));
+  };
+  const typeIds = remap(incoming.itemTypes, current.itemTypes);
+  const itemIds = remap(incoming.items, current.items);
+  const projectIds = remap(incoming.projects, current.projects);
+  const mapItemId = (id: unknown) => (typeof id === 'string' ? itemIds.get(id) ?? id : id);
+
+  const itemTypes: ItemType[] = incoming.itemTypes.map(type => ({
+    ...type,
+    id: typeIds.get(type.id) ?? type.id,
+    fields: type.fields.map(field =>
+      field.reference
+        ? { ...field, reference: { ...field.reference, typeId: typeIds.get(field.reference.typeId) ?? field.reference.typeId } }
+        : field
+    ),
+  }));
+
+  const typesById = new Map(incoming.itemTypes.map(type => [type.id, type]));
+  const items: ItemInstance[] = incoming.items.map(item => {
+    const data = { ...item.data };
+    typesById.get(item.typeId)?.fields
+      .filter(field => field.type === 'reference' && data[field.id] !== undefined)
+      .forEach(field => {
+        const value = data[field.id];
+        data[field.id] = Array.isArray(value) ? value.map(mapItemId) : mapItemId(value);
+      });
+    return {
+      ...item,
+      id: itemIds.get(item.id) ?? item.id,
+      typeId: typeIds.get(item.typeId) ?? item.typeId,
+      data,
+    };
+  });
+
+  const projects: Project[] = incoming.projects.map(project => ({
+    ...project,
+    id: projectIds.get(project.id) ?? project.id,
+    itemIds: project.itemIds.map(id => itemIds.get(id) ?? id),
+  }));
+
+  return { itemTypes, items, projects };
+}
+
+function importCollection<T extends { id: string }>(
+  current: T[],
+  incoming: T[],
+  mode: ImportMode,
+  strategy: CollisionStrategy
+): { records: T[]; summary: CollectionSummary } {
+  const existingIds = new Set(current.map(record => record.id));
+  const incomingById = new Map(incoming.map(record => [record.id, record]));
+  const added = incoming.filter(record => !existingIds.has(record.id));
+  const colliding = incoming.length - added.length;
+
+  if (mode === 'replace') {
+    return {
+      records: incoming,
+      summary: {
+        added: added.length,
+        updated: colliding,
+        skipped: 0,
+        removed: current.filter(record => !incomingById.has(record.id)).length,
+      },
+    };
+  }
+
+  const overwrite = strategy === 'overwrite';
+  return {
+    records: [
+      ...current.map(record => (overwrite ? incomingById.get(record.id) ?? record : record)),
+      ...added,
+    ],
+    summary: {
+      added: added.length,
+      updated: overwrite ? colliding : 0,
+      skipped: overwrite ? 0 : colliding,
+      removed: 0,
+    },
+  };
+}
+
+export function planWorkspaceImport(
+  current: WorkspaceData,
+  incoming: WorkspaceData,
+  mode: ImportMode,
+  strategy: CollisionStrategy
+): WorkspaceImportPlan {
+  const source = mode === 'merge' && strategy === 'duplicate' ? duplicateCollisions(current, incoming) : incoming;
+  const itemTypes = importCollection(current.itemTypes, source.itemTypes, mode, strategy);
+  const items = importCollection(current.items, source.items, mode, strategy);
+  const projects = importCollection(current.projects, source.projects, mode, strategy);
+
+  return {
+    data: { itemTypes: itemTypes.records, items: items.records, projects: projects.records },
+    summary: { itemTypes: itemTypes.summary, items: items.summary, projects: projects.summary },
+    collisions: countCollisions(current, incoming),
+  };
+}
@@ -0,0 +1,139 @@
+import * as XLSX from 'xlsx';
+import type { FieldDefinition } from '@/types/ItemType';
+
+// A dropdown of allowed values for every data row of one column
+export interface ListValidation {
+  column: number;
+  options: string[];
+}
+
+// A sheet laid out as a table: a header row followed by one row per item
+export interface TableSheet {
+  name: string;
+  validations: ListValidation[];
+}
+
+const CHOICES_SHEET = 'Choices';
+const LAST_ROW = 1048576;
+
+const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// Dropdowns for the select fields among a sheet's columns; other columns have no field
+export function selectValidations(columnFields: (FieldDefinition | undefined)[]): ListValidation[] {
+  return columnFields.flatMap((field, column) =>
+    field?.type === 'select' && field.options?.length ? [{ column, options: field.options }] : []
+  );
+}
+
+const decode = (bytes: Uint8Array | number[]) => new TextDecoder().decode(new Uint8Array(bytes));
+
+// Adds a bold copy of the default font and a cell format using it; returns the format's index
+function addBoldStyle(styles: string): { xml: string; headerStyle: number } {
+  const fonts = styles.match(/<fonts count="(\d+)">(<font>[\s\S]*?<\/font>)/);
+  const formats = styles.match(/<cellXfs count="(\d+)">/);
+  if (!fonts || !formats) return { xml: styles, headerStyle: 0 };
+
+  const fontId = Number(fonts[1]);
+  const headerStyle = Number(formats[1]);
+  const xml = styles
+    .replace(fonts[0], `<fonts count="${fontId + 1}">${fonts[2]}`)
+    .replace('</fonts>', `${fonts[2].replace('<font>', '<font><b/>')}</fonts>`)
+    .replace(formats[0], `<cellXfs count="${headerStyle + 1}">`)
+    .replace('</cellXfs>', `<xf numFmtId="0" fontId="${fontId}" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>`);
+  return { xml, headerStyle };
+}
+
+// Element order matters in sheet XML; data validations go before any of these
+const AFTER_VALIDATIONS = [
+  '<hyperlinks', '<printOptions', '<pageMargins', '<pageSetup', '<headerFooter',
+  '<drawing', '<legacyDrawing', '<ignoredErrors', '</worksheet>',
+];
+
+function formatTableSheet(sheet: string, headerStyle: number, validations: { sqref: string; formula: string }[]) {
+  let xml = sheet
+    .replace(/<row r="1"[^>]*>[\s\S]*?<\/row>/, row =>
+      row.replace(/<c (?![^>]*\ss=")/g, `<c s="${headerStyle}" `)
+    )
+    .replace(/<sheetView ([^>]*?)\/>/, (_, attributes) =>
+      `<sheetView ${attributes}><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>` +
+      '<selection pane="bottomLeft" activeCell="A2" sqref="A2"/></sheetView>'
+    );
+
+  if (validations.length > 0) {
+    const element = `<dataValidations count="${validations.length}">` +
+      validations.map(({ sqref, formula }) =>
+        `<dataValidation type="list" allowBlank="1" showErrorMessage="1" sqref="${sqref}"><formula1>${formula}</formula1></dataValidation>`
+      ).join('') +
+      '</dataValidations>';
+    const at = Math.min(...AFTER_VALIDATIONS.map(tag => xml.indexOf(tag)).filter(index => index !== -1));
+    xml = xml.slice(0, at) + element + xml.slice(at);
+  }
+  return xml;
+}
+
+// Writes the workbook with a bold, frozen header row and an autofilter on every table
+// sheet. The community SheetJS build cannot write fonts, panes or data validations,
+// so those are patched into the generated XML. Dropdown choices live on a hidden sheet,
+// which keeps options containing commas intact and avoids Excel's 255 character limit
+// on inline lists.
+export function writeWorkbook(workbook: XLSX.WorkBook, tables: TableSheet[]): Blob {
+  const choiceColumns: string[][] = [];
+  const sheetNames = new Set(workbook.SheetNames.map(name => name.toLowerCase()));
+  let choicesName = CHOICES_SHEET;
+  for (let n = 2; sheetNames.has(choicesName.toLowerCase()); n++) choicesName = `${CHOICES_SHEET} ${n}`;
+
+  const sheetValidations = new Map<string, { sqref: string; formula: string }[]>();
+  tables.forEach(table => {
+    const worksheet = workbook.Sheets[table.name];
+    if (!worksheet?.['!ref']) return;
+    worksheet['!autofilter'] = { ref: worksheet['!ref'] };
+
+    sheetValidations.set(table.name, table.validations.map(({ column, options }) => {
+      const choiceColumn = XLSX.utils.encode_col(choiceColumns.length);
+      choiceColumns.push(options);
+      const columnName = XLSX.utils.encode_col(column);
+      return {
+        sqref: `${columnName}2:${columnName}${LAST_ROW}`,
+        formula: `'${choicesName}'!$${choiceColumn}$1:$${choiceColumn}$${options.length}`,
+      };
+    }));
+  });
+
+  if (choiceColumns.length > 0) {
+    const rowCount = Math.max(...choiceColumns.map(options => options.length));
+    const rows = Array.from({ length: rowCount }, (_, row) => choiceColumns.map(options => options[row] ?? ''));
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), choicesName);
+    workbook.Workbook = {
+      ...workbook.Workbook,
+      Sheets: workbook.SheetNames.map(name => ({ name, Hidden: name === choicesName ? 1 : 0 })),
+    };
+  }
+
+  // Compressed once, when the patched archive is written
+  const output = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' });
+  const archive = XLSX.CFB.read(new Uint8Array(output), { type: 'array' });
+  const encoder = new TextEncoder();
+  const replace = (path: string, update: (xml: string) => string) => {
+    const entry = XLSX.CFB.find(archive, path);
+    if (entry) entry.content = encoder.encode(update(decode(entry.content)));
+  };
+
+  let headerStyle = 0;
+  replace('/xl/styles.xml', styles => {
+    const result = addBoldStyle(styles);
+    headerStyle = result.headerStyle;
+    return result.xml;
+  });
+
+  // Worksheets are written as sheet1.xml, sheet2.xml, ... in workbook order
+  tables.forEach(table => {
+    const index = workbook.SheetNames.indexOf(table.name);
+    if (index === -1 || !sheetValidations.has(table.name)) return;
+    replace(`/xl/worksheets/sheet${index + 1}.xml`, sheet =>
+      formatTableSheet(sheet, headerStyle, sheetValidations.get(table.name))
+    );
+  });
+
+  return new Blob([XLSX.CFB.write(archive, { fileType: 'zip', type: 'array', compression: true })], { type: XLSX_MIME });
+}
+
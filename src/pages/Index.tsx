@@ -1,44 +1,149 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import { useLocation, useNavigate, useParams, useSearchParams } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Plus, Database, FileSpreadsheet, FolderOpen } from 'lucide-react';
+import { Plus, Database, FileSpreadsheet, FolderOpen, Pencil, Download, Upload } from 'lucide-react';
 import ItemTypeCreator from '@/components/ItemTypeCreator';
 import ItemCreator from '@/components/ItemCreator';
 import ItemList from '@/components/ItemList';
 import ProjectCreator from '@/components/ProjectCreator';
 import ProjectList from '@/components/ProjectList';
 import ProjectView from '@/components/ProjectView';
-import { useLocalStorage } from '@/hooks/useLocalStorage';
+import WorkspaceImportDialog from '@/components/WorkspaceImportDialog';
+import ItemImportWizard from '@/components/ItemImportWizard';
+import { useDatabaseReport, useItemTypes, useItems, useProjects, useWorkspaceMutations } from '@/hooks/useWorkspace';
+import { assignAutoNumbers } from '@/lib/fieldDefaults';
+import { removeReferencesTo } from '@/lib/references';
+import { createWorkspaceBackup, type WorkspaceImportPlan } from '@/lib/workspaceBackup';
+import { downloadBlob, todayStamp } from '@/lib/download';
+import type { ItemImportResult } from '@/lib/spreadsheetImport';
 import type { ItemType, ItemInstance } from '@/types/ItemType';
 import type { Project } from '@/types/Project';
 import { useToast } from '@/hooks/use-toast';
+import NotFound from './NotFound';
 
-type View = 'home' | 'create-type' | 'create-item' | 'view-items' | 'create-project' | 'view-projects' | 'view-project';
+type View = 'home' | 'create-type' | 'edit-type' | 'create-item' | 'edit-item' | 'view-items' | 'create-project' | 'view-projects' | 'view-project' | 'import-items';
 
-const Index = () => {
-  const [currentView, setCurrentView] = useState<View>('home');
-  const [selectedTypeId, setSelectedTypeId] = useState<string>('');
-  const [selectedProject, setSelectedProject] = useState<Project | null>(null);
-  const [itemTypes, setItemTypes] = useLocalStorage<ItemType[]>('itemTypes', []);
-  const [items, setItems] = useLocalStorage<ItemInstance[]>('items', []);
-  const [projects, setProjects] = useLocalStorage<Project[]>('projects', []);
+// Each view has its own route in App.tsx; IDs and import options come from the URL
+const Index = ({ view: currentView }: { view: View }) => {
+  const { typeId: selectedTypeId, itemId: selectedItemId, projectId: selectedProjectId } = useParams();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [isImportingWorkspace, setIsImportingWorkspace] = useState(false);
+  const itemTypesQuery = useItemTypes();
+  const itemsQuery = useItems();
+  const projectsQuery = useProjects();
+  const workspace = useWorkspaceMutations();
+  const { data: databaseReport } = useDatabaseReport();
   const { toast } = useToast();
 
+  const itemTypes = itemTypesQuery.data ?? [];
+  const items = itemsQuery.data ?? [];
+  const projects = projectsQuery.data ?? [];
+  const isLoading = itemTypesQuery.isPending || itemsQuery.isPending || projectsQuery.isPending;
+  const loadError = itemTypesQuery.error ?? itemsQuery.error ?? projectsQuery.error;
+
+  const persist = (write: Promise<unknown>) => {
+    write.catch((error: unknown) => {
+      toast({
+        title: "Changes could not be saved",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    });
+  };
+
+  useEffect(() => {
+    if (!databaseReport) return;
+    if (databaseReport.upgradedFrom !== undefined) {
+      toast({
+        title: "Data upgraded",
+        description: `Your saved data was upgraded from version ${databaseReport.upgradedFrom} to ${databaseReport.upgradedTo}.`,
+      });
+    }
+    databaseReport.warnings.forEach(warning => {
+      toast({
+        title: "Some saved data could not be loaded",
+        description: warning,
+        variant: "destructive",
+      });
+    });
+  }, [databaseReport, toast]);
+
+  const retryLoad = () => {
+    itemTypesQuery.refetch();
+    itemsQuery.refetch();
+    projectsQuery.refetch();
+  };
+
   const selectedItemType = itemTypes.find(type => type.id === selectedTypeId);
+  const selectedItem = items.find(item => item.id === selectedItemId);
+  const selectedProject = projects.find(project => project.id === selectedProjectId);
+  const selectedItemsType = itemTypes.find(type => type.id === selectedItem?.typeId);
+  const importTypeId = itemTypes.find(type => type.id === searchParams.get('type'))?.id;
+  const importProjectId = projects.find(project => project.id === searchParams.get('project'))?.id;
+
+  // Links to records that do not exist, or have since been deleted, show the 404 page
+  const isMissing = !isLoading && !loadError && (
+    ((currentView === 'edit-type' || currentView === 'create-item') && !selectedItemType) ||
+    (currentView === 'edit-item' && !selectedItemsType) ||
+    (currentView === 'view-project' && !selectedProject)
+  );
+
+  // Back to the previous screen, or to the fallback when the app was opened on this one
+  const goBack = (fallback: string) => {
+    if (location.key === 'default') {
+      navigate(fallback);
+    } else {
+      navigate(-1);
+    }
+  };
 
   const handleSaveItemType = (newType: ItemType) => {
-    setItemTypes([...itemTypes, newType]);
-    setCurrentView('home');
+    persist(workspace.saveItemTypes([newType]));
+    navigate('/', { replace: true });
     toast({
       title: "Item type created",
       description: `${newType.name} has been created successfully.`,
     });
   };
 
-  const handleSaveItem = (newItem: ItemInstance) => {
-    setItems([...items, newItem]);
-    setCurrentView('view-items');
+  const handleEditItemType = (typeId: string) => {
+    navigate(`/types/${typeId}/edit`);
+  };
+
+  const handleUpdateItemType = (updatedType: ItemType, migratedItems: ItemInstance[] = []) => {
+    persist(Promise.all([
+      workspace.saveItemTypes([updatedType]),
+      workspace.saveItems(migratedItems)
+    ]));
+    navigate('/', { replace: true });
+    toast({
+      title: "Item type updated",
+      description: `${updatedType.name} and ${migratedItems.length} item(s) have been updated.`,
+    });
+  };
+
+  // Export templates and grid layouts save without leaving the current view
+  const handleSaveItemTypeSettings = (updatedType: ItemType) => {
+    persist(workspace.saveItemTypes([updatedType]));
+  };
+
+  // Inline grid edits; already validated, and too frequent for a toast each
+  const handleUpdateItems = (updatedItems: ItemInstance[]) => {
+    persist(workspace.saveItems(updatedItems));
+  };
+
+  const handleSaveItem = (newItem: ItemInstance, addAnother = false) => {
+    const itemType = itemTypes.find(type => type.id === newItem.typeId);
+    const numbered = itemType ? assignAutoNumbers(itemType, [newItem]) : null;
+    persist(Promise.all([
+      workspace.saveItemTypes(numbered ? [numbered.itemType] : []),
+      workspace.saveItems(numbered ? numbered.items : [newItem])
+    ]));
+    if (!addAnother) navigate('/items', { replace: true });
     toast({
       title: "Item created",
       description: `New ${newItem.typeName} has been created successfully.`,
@@ -46,27 +151,86 @@ const Index = () => {
   };
 
   const handleCreateItem = (typeId: string) => {
-    setSelectedTypeId(typeId);
-    setCurrentView('create-item');
+    navigate(`/types/${typeId}/items/new`);
+  };
+
+  const handleEditItem = (itemId: string) => {
+    navigate(`/items/${itemId}/edit`);
+  };
+
+  const handleUpdateItem = (updatedItem: ItemInstance) => {
+    persist(workspace.saveItems([updatedItem]));
+    goBack('/items');
+    toast({
+      title: "Item updated",
+      description: `${updatedItem.typeName} has been updated successfully.`,
+    });
   };
 
   const handleDeleteItems = (itemIds: string[]) => {
-    setItems(items.filter(item => !itemIds.includes(item.id)));
-    // Also remove these items from all projects
-    setProjects(projects.map(project => ({
+    const remainingItems = items.filter(item => !itemIds.includes(item.id));
+    // Other items may still link to the deleted ones
+    const cleanup = removeReferencesTo(remainingItems, itemTypes, itemIds);
+    const linkedItems = cleanup.items.filter(item => cleanup.updatedItemIds.includes(item.id));
+    // Also remove these items from the projects that contain them
+    const affectedProjects = projects
+      .filter(project => project.itemIds.some(id => itemIds.includes(id)))
+      .map(project => ({
+        ...project,
+        itemIds: project.itemIds.filter(id => !itemIds.includes(id)),
+        updatedAt: new Date().toISOString()
+      }));
+    persist(Promise.all([
+      workspace.deleteItems(itemIds),
+      workspace.saveItems(linkedItems),
+      workspace.saveProjects(affectedProjects)
+    ]));
+    toast({
+      title: "Items deleted",
+      description: cleanup.updatedItemIds.length > 0
+        ? `${itemIds.length} item(s) have been deleted and removed from ${cleanup.updatedItemIds.length} linked item(s).`
+        : `${itemIds.length} item(s) have been deleted.`,
+    });
+  };
+
+  const handleStartImport = (options: { newType?: boolean; projectId?: string } = {}) => {
+    const query = new URLSearchParams();
+    if (options.newType) query.set('newType', '1');
+    if (options.projectId) query.set('project', options.projectId);
+    navigate({ pathname: '/items/import', search: query.toString() });
+  };
+
+  const handleImportItems = ({ itemType, items: createdItems, updatedItems, matchedItemIds, newType, projectId }: ItemImportResult) => {
+    const project = projects.find(p => p.id === projectId);
+    // Rows matching an existing item join the project even when they change nothing
+    const importedIds = [...createdItems.map(item => item.id), ...matchedItemIds];
+    const updatedProject = project && {
       ...project,
-      itemIds: project.itemIds.filter(id => !itemIds.includes(id)),
+      itemIds: [...project.itemIds, ...importedIds.filter(id => !project.itemIds.includes(id))],
       updatedAt: new Date().toISOString()
-    })));
+    };
+    persist(Promise.all([
+      workspace.saveItemTypes([itemType]),
+      workspace.saveItems([...createdItems, ...updatedItems]),
+      workspace.saveProjects(updatedProject ? [updatedProject] : [])
+    ]));
+    if (newType) {
+      navigate('/items', { replace: true });
+    } else {
+      goBack('/items');
+    }
+    const summary = updatedItems.length > 0
+      ? `${createdItems.length} ${itemType.name} item(s) created and ${updatedItems.length} updated`
+      : `${createdItems.length} ${itemType.name} item(s) imported`;
     toast({
-      title: "Items deleted",
-      description: `${itemIds.length} item(s) have been deleted.`,
+      title: newType ? `${itemType.name} created` : "Items imported",
+      description: updatedProject ? `${summary} and added to ${updatedProject.name}.` : `${summary}.`,
     });
   };
 
   const handleSaveProject = (newProject: Project) => {
-    setProjects([...projects, newProject]);
-    setCurrentView('view-projects');
+    persist(workspace.saveProjects([newProject]));
+    navigate('/projects', { replace: true });
     toast({
       title: "Project created",
       description: `${newProject.name} has been created successfully.`,
@@ -74,13 +238,11 @@ const Index = () => {
   };
 
   const handleViewProject = (project: Project) => {
-    setSelectedProject(project);
-    setCurrentView('view-project');
+    navigate(`/projects/${project.id}`);
   };
 
   const handleUpdateProject = (updatedProject: Project) => {
-    setProjects(projects.map(p => p.id === updatedProject.id ? updatedProject : p));
-    setSelectedProject(updatedProject);
+    persist(workspace.saveProjects([updatedProject]));
     toast({
       title: "Project updated",
       description: `${updatedProject.name} has been updated.`,
@@ -88,43 +250,117 @@ const Index = () => {
   };
 
   const handleDeleteProject = (projectId: string) => {
-    setProjects(projects.filter(p => p.id !== projectId));
+    persist(workspace.deleteProjects([projectId]));
     toast({
       title: "Project deleted",
       description: "Project has been deleted successfully.",
     });
   };
 
+  const handleExportWorkspace = () => {
+    const backup = createWorkspaceBackup({ itemTypes, items, projects });
+    const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+    downloadBlob(blob, `workspace_backup_${todayStamp()}.json`);
+    toast({
+      title: "Workspace exported",
+      description: `${itemTypes.length} item types, ${items.length} items and ${projects.length} projects saved.`,
+    });
+  };
+
+  const handleImportWorkspace = (plan: WorkspaceImportPlan) => {
+    persist(workspace.replaceWorkspace(plan.data));
+    const { itemTypes: types, items: importedItems, projects: importedProjects } = plan.summary;
+    toast({
+      title: "Workspace imported",
+      description: `${types.added + types.updated} item types, ${importedItems.added + importedItems.updated} items and ${importedProjects.added + importedProjects.updated} projects imported.`,
+    });
+  };
+
   const renderView = () => {
+    if (loadError) {
+      return (
+        <Card className="shadow-card">
+          <CardContent className="text-center py-12 space-y-2">
+            <p className="font-medium text-destructive">Your data could not be loaded.</p>
+            <p className="text-sm text-muted-foreground">
+              {loadError instanceof Error ? loadError.message : String(loadError)}
+            </p>
+            <Button variant="outline" onClick={retryLoad}>
+              Try again
+            </Button>
+          </CardContent>
+        </Card>
+      );
+    }
+
+    if (isLoading) {
+      return (
+        <div className="text-center py-12">
+          <p className="text-muted-foreground">Loading your data...</p>
+        </div>
+      );
+    }
+
     switch (currentView) {
       case 'create-type':
         return (
           <ItemTypeCreator
+            itemTypes={itemTypes}
             onSave={handleSaveItemType}
-            onCancel={() => setCurrentView('home')}
+            onCancel={() => navigate('/')}
+            onCreateFromSpreadsheet={() => handleStartImport({ newType: true })}
           />
         );
       
+      case 'edit-type':
+        return (
+          <ItemTypeCreator
+            key={selectedItemType.id}
+            itemType={selectedItemType}
+            items={items}
+            itemTypes={itemTypes}
+            onSave={handleUpdateItemType}
+            onCancel={() => navigate('/')}
+          />
+        );
+
       case 'create-item':
-        if (!selectedItemType) {
-          setCurrentView('home');
-          return null;
-        }
         return (
           <ItemCreator
+            key={selectedItemType.id}
             itemType={selectedItemType}
-            onSave={handleSaveItem}
-            onBack={() => setCurrentView('home')}
+            items={items}
+            itemTypes={itemTypes}
+            onSave={(item) => handleSaveItem(item)}
+            onSaveAndAddAnother={(item) => handleSaveItem(item, true)}
+            onBack={() => goBack('/')}
           />
         );
       
+      case 'edit-item':
+        return (
+          <ItemCreator
+            key={selectedItem.id}
+            itemType={selectedItemsType}
+            item={selectedItem}
+            items={items}
+            itemTypes={itemTypes}
+            onSave={handleUpdateItem}
+            onBack={() => goBack('/items')}
+          />
+        );
+
       case 'view-items':
         return (
           <ItemList
             items={items}
             itemTypes={itemTypes}
             onCreateNew={handleCreateItem}
+            onEditItem={handleEditItem}
             onDeleteItems={handleDeleteItems}
+            onImport={() => handleStartImport()}
+            onUpdateItems={handleUpdateItems}
+            onUpdateItemType={handleSaveItemTypeSettings}
           />
         );
       
@@ -132,7 +368,7 @@ const Index = () => {
         return (
           <ProjectCreator
             onSave={handleSaveProject}
-            onBack={() => setCurrentView('home')}
+            onBack={() => goBack('/projects')}
           />
         );
       
@@ -141,24 +377,40 @@ const Index = () => {
           <ProjectList
             projects={projects}
             items={items}
+            itemTypes={itemTypes}
             onViewProject={handleViewProject}
-            onCreateNew={() => setCurrentView('create-project')}
+            onCreateNew={() => navigate('/projects/new')}
             onDeleteProject={handleDeleteProject}
           />
         );
       
       case 'view-project':
-        if (!selectedProject) {
-          setCurrentView('view-projects');
-          return null;
-        }
         return (
           <ProjectView
+            key={selectedProject.id}
             project={selectedProject}
             allItems={items}
             itemTypes={itemTypes}
-            onBack={() => setCurrentView('view-projects')}
+            onBack={() => navigate('/projects')}
             onUpdateProject={handleUpdateProject}
+            onEditItem={handleEditItem}
+            onImportItems={() => handleStartImport({ projectId: selectedProject.id })}
+            onUpdateItems={handleUpdateItems}
+            onUpdateItemType={handleSaveItemTypeSettings}
+          />
+        );
+
+      case 'import-items':
+        return (
+          <ItemImportWizard
+            itemTypes={itemTypes}
+            items={items}
+            projects={projects}
+            initialTypeId={importTypeId}
+            initialProjectId={importProjectId}
+            startWithNewType={searchParams.has('newType')}
+            onImport={handleImportItems}
+            onBack={() => goBack('/items')}
           />
         );
       
@@ -178,7 +430,7 @@ const Index = () => {
             {/* Quick Actions */}
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
               <Card className="shadow-card transition-all duration-300 hover:shadow-elegant group cursor-pointer"
-                    onClick={() => setCurrentView('create-project')}>
+                    onClick={() => navigate('/projects/new')}>
                 <CardHeader className="text-center bg-gradient-subtle">
                   <div className="w-16 h-16 mx-auto bg-gradient-primary rounded-full flex items-center justify-center mb-4 group-hover:shadow-glow transition-all duration-300">
                     <Plus className="w-8 h-8 text-white" />
@@ -193,7 +445,7 @@ const Index = () => {
               </Card>
 
               <Card className="shadow-card transition-all duration-300 hover:shadow-elegant group cursor-pointer"
-                    onClick={() => setCurrentView('view-projects')}>
+                    onClick={() => navigate('/projects')}>
                 <CardHeader className="text-center bg-gradient-subtle">
                   <div className="w-16 h-16 mx-auto bg-gradient-accent rounded-full flex items-center justify-center mb-4 group-hover:shadow-glow transition-all duration-300">
                     <FolderOpen className="w-8 h-8 text-white" />
@@ -208,7 +460,7 @@ const Index = () => {
               </Card>
 
               <Card className="shadow-card transition-all duration-300 hover:shadow-elegant group cursor-pointer"
-                    onClick={() => setCurrentView('view-items')}>
+                    onClick={() => navigate('/items')}>
                 <CardHeader className="text-center bg-gradient-subtle">
                   <div className="w-16 h-16 mx-auto bg-gradient-accent rounded-full flex items-center justify-center mb-4 group-hover:shadow-glow transition-all duration-300">
                     <Database className="w-8 h-8 text-white" />
@@ -223,7 +475,7 @@ const Index = () => {
               </Card>
 
               <Card className="shadow-card transition-all duration-300 hover:shadow-elegant group cursor-pointer"
-                    onClick={() => setCurrentView('create-type')}>
+                    onClick={() => navigate('/types/new')}>
                 <CardHeader className="text-center bg-gradient-subtle">
                   <div className="w-16 h-16 mx-auto bg-success rounded-full flex items-center justify-center mb-4 group-hover:shadow-glow transition-all duration-300">
                     <FileSpreadsheet className="w-8 h-8 text-white" />
@@ -282,7 +534,17 @@ const Index = () => {
                       {itemTypes.slice(0, 3).map(type => (
                         <div key={type.id} className="flex items-center justify-between p-2 bg-muted/50 rounded">
                           <span className="font-medium">{type.name}</span>
-                          <Badge variant="outline">{type.fields.length} fields</Badge>
+                          <div className="flex items-center space-x-2">
+                            <Badge variant="outline">{type.fields.length} fields</Badge>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleEditItemType(type.id)}
+                              title={`Edit ${type.name}`}
+                            >
+                              <Pencil className="w-4 h-4" />
+                            </Button>
+                          </div>
                         </div>
                       ))}
                       {itemTypes.length > 3 && (
@@ -347,11 +609,47 @@ const Index = () => {
                 </CardContent>
               </Card>
             )}
+
+            {/* Workspace Backup */}
+            <Card className="shadow-card">
+              <CardHeader>
+                <CardTitle>Workspace</CardTitle>
+              </CardHeader>
+              <CardContent className="flex flex-wrap items-center gap-3">
+                <Button
+                  onClick={handleExportWorkspace}
+                  variant="outline"
+                  className="transition-all duration-200 hover:shadow-card"
+                >
+                  <Download className="w-4 h-4 mr-2" />
+                  Export Workspace
+                </Button>
+                <Button
+                  onClick={() => setIsImportingWorkspace(true)}
+                  variant="outline"
+                  className="transition-all duration-200 hover:shadow-card"
+                >
+                  <Upload className="w-4 h-4 mr-2" />
+                  Import Workspace
+                </Button>
+                <p className="text-sm text-muted-foreground">
+                  Back up all item types, items and projects to a JSON file, or restore them on another browser.
+                </p>
+              </CardContent>
+            </Card>
+            <WorkspaceImportDialog
+              open={isImportingWorkspace}
+              onOpenChange={setIsImportingWorkspace}
+              workspace={{ itemTypes, items, projects }}
+              onImport={handleImportWorkspace}
+            />
           </div>
         );
     }
   };
 
+  if (isMissing) return <NotFound />;
+
   return (
     <div className="min-h-screen bg-gradient-subtle">
       <div className="container mx-auto px-4 py-8">
@@ -359,7 +657,7 @@ const Index = () => {
           <div className="mb-6">
             <Button 
               variant="outline" 
-              onClick={() => setCurrentView('home')}
+              onClick={() => navigate('/')}
               className="transition-all duration-200 hover:shadow-card"
             >
               ← Back to Home
@@ -1,9 +1,98 @@
+export type FieldType =
+  | 'text'
+  | 'longtext'
+  | 'number'
+  | 'currency'
+  | 'percentage'
+  | 'rating'
+  | 'boolean'
+  | 'email'
+  | 'url'
+  | 'phone'
+  | 'date'
+  | 'datetime'
+  | 'select'
+  | 'multiselect'
+  | 'autonumber'
+  | 'reference'
+  | 'formula';
+
+export type FormulaResultType = 'number' | 'text' | 'boolean' | 'date';
+
+export interface FieldValidation {
+  min?: number; // for numeric types
+  max?: number;
+  minLength?: number; // for text types
+  maxLength?: number;
+  pattern?: string;
+  patternMessage?: string;
+  minDate?: string; // for date types, yyyy-MM-dd
+  maxDate?: string;
+  unique?: boolean; // across all items of the same type
+}
+
+export type FieldDefault =
+  | { kind: 'static'; value: unknown }
+  | { kind: 'today' } // current date, or date and time for datetime fields
+  | { kind: 'lastUsed' }; // value from the most recently created item of the type
+
+export interface AutoNumberConfig {
+  prefix: string;
+  padding: number; // minimum number of digits, zero-filled
+  nextValue: number;
+}
+
+export interface ReferenceConfig {
+  typeId: string; // the item type this field points at
+  multiple: boolean; // stores an array of item ids instead of a single id
+  displayFieldId?: string; // field of the referenced type used as its label
+}
+
+export interface FormulaConfig {
+  expression: string; // see lib/formula.ts for the syntax
+  resultType: FormulaResultType; // inferred when the field is saved
+}
+
 export interface FieldDefinition {
   id: string;
   name: string;
-  type: 'text' | 'number' | 'date' | 'select';
+  type: FieldType;
   required: boolean;
-  options?: string[]; // for select type
+  options?: string[]; // for select and multiselect types
+  currencyCode?: string; // for currency type, ISO 4217
+  validation?: FieldValidation;
+  defaultValue?: FieldDefault;
+  autoNumber?: AutoNumberConfig; // for autonumber type
+  reference?: ReferenceConfig; // for reference type
+  formula?: FormulaConfig; // for formula type
+}
+
+export type ExportColumnFormat =
+  | 'auto' // typed cell matching the field type
+  | 'text' // the value as shown in the app
+  | 'raw' // the stored value, e.g. item ids for references
+  | 'integer'
+  | 'decimal'
+  | 'date'
+  | 'date-dmy'
+  | 'date-mdy'
+  | 'datetime';
+
+export interface ExportColumn {
+  key: string; // a field id, or one of the system columns in lib/exportTemplates.ts
+  header: string; // empty to use the field name
+  format: ExportColumnFormat;
+}
+
+export interface ExportTemplate {
+  id: string;
+  name: string;
+  columns: ExportColumn[]; // in export order; anything left out is not exported
+}
+
+export interface GridColumn {
+  fieldId: string;
+  width: number; // in pixels
 }
 
 export interface ItemType {
@@ -11,6 +100,8 @@ export interface ItemType {
   name: string;
   fields: FieldDefinition[];
   createdAt: string;
+  exportTemplates?: ExportTemplate[];
+  gridColumns?: GridColumn[]; // column order and widths in the grid view; new fields go last
 }
 
 export interface ItemInstance {
@@ -19,4 +110,5 @@ export interface ItemInstance {
   typeName: string;
   data: Record<string, any>;
   createdAt: string;
+  updatedAt?: string;
 }
\ No newline at end of file
@@ -0,0 +1,23 @@
+import { buildExportFile, type ExportJob, type ExportWorkerMessage } from '@/lib/exportJobs';
+
+const post = (message: ExportWorkerMessage) => self.postMessage(message);
+
+// Builds one export per message. Progress is posted whenever another percent of the
+// items is done, so large exports do not flood the main thread with messages.
+self.onmessage = (event: MessageEvent<ExportJob>) => {
+  const job = event.data;
+  const total = job.items.length;
+  let lastPercent = -1;
+
+  try {
+    const file = buildExportFile(job, completed => {
+      const percent = Math.floor((completed / Math.max(total, 1)) * 100);
+      if (percent === lastPercent) return;
+      lastPercent = percent;
+      post({ type: 'progress', completed, total });
+    });
+    post({ type: 'done', file });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
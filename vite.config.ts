@@ -19,4 +19,8 @@ export default defineConfig(({ mode }) => ({
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  worker: {
+    // The export worker pulls in libraries that load optional parts on demand
+    format: "es",
+  },
 }));